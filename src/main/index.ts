@@ -5,6 +5,8 @@ import { registerAllIpcHandlers } from './ipc'
 import { odooProcessManager } from './services/odoo/OdooProcessManager'
 import { odooShellManager } from './services/odoo/OdooShellManager'
 import { claudeSessionManager } from './services/claude/ClaudeSessionManager'
+import { logFileManager } from './services/odoo/LogFileManager'
+import { addonWatcher } from './services/odoo/AddonWatcher'
 import { instanceStore } from './store/InstanceStore'
 import { settingsStore } from './store/SettingsStore'
 import { autoUpdateService } from './services/updater/AutoUpdateService'
@@ -92,6 +94,12 @@ app.whenReady().then(() => {
   // Reset stale statuses from previous session crash
   instanceStore.resetStaleStatuses()
 
+  // Drop log files past the retention period
+  logFileManager.cleanupAll().catch(() => {})
+
+  // Watch addons directories of instances with auto-reload enabled
+  addonWatcher.syncAll()
+
   registerAllIpcHandlers()
   createWindow()
 
@@ -111,6 +119,7 @@ app.on('window-all-closed', () => {
 
 app.on('before-quit', async () => {
   odooShellManager.stopAll()
+  addonWatcher.unwatchAll()
   await claudeSessionManager.stopAll()
   await odooProcessManager.stopAll()
 })
@@ -7,13 +7,22 @@ import { dependencyChecker } from '../services/dependency/DependencyChecker'
 import { dependencyInstaller } from '../services/dependency/DependencyInstaller'
 import { odooInstanceManager } from '../services/odoo/OdooInstanceManager'
 import { odooProcessManager } from '../services/odoo/OdooProcessManager'
+import { neutralizeManager } from '../services/odoo/NeutralizeManager'
 import { databaseManager } from '../services/postgres/DatabaseManager'
 import { claudeSessionManager } from '../services/claude/ClaudeSessionManager'
 import { claudeAuthManager } from '../services/claude/ClaudeAuthManager'
+import { claudeFixLoop } from '../services/claude/ClaudeFixLoop'
 import { addonManager } from '../services/odoo/AddonManager'
+import { moduleManager } from '../services/odoo/ModuleManager'
+import { moduleDependencyResolver } from '../services/odoo/ModuleDependencyResolver'
+import { testRunner } from '../services/odoo/TestRunner'
+import { logFileManager } from '../services/odoo/LogFileManager'
+import { addonWatcher } from '../services/odoo/AddonWatcher'
+import { resourceMonitor } from '../services/odoo/ResourceMonitor'
 import { odooShellManager } from '../services/odoo/OdooShellManager'
 import { sessionStore } from '../store/SessionStore'
 import { autoUpdateService } from '../services/updater/AutoUpdateService'
+import { editorLauncher } from '../services/platform/EditorLauncher'
 
 export function registerAllIpcHandlers(): void {
   // Window controls
@@ -90,22 +99,88 @@ export function registerAllIpcHandlers(): void {
     return instance
   })
 
+  ipcMain.handle('odoo:detect-existing', (_event, { path }) => {
+    return odooInstanceManager.detectExisting(path)
+  })
+
+  ipcMain.handle('odoo:import', async (event, args) => {
+    const instance = await odooInstanceManager.importInstance(args)
+    BrowserWindow.fromWebContents(event.sender)?.webContents.send('odoo:instances-changed')
+    return instance
+  })
+
+  ipcMain.handle('odoo:duplicate', async (event, args) => {
+    const win = BrowserWindow.fromWebContents(event.sender)
+    const instance = await odooInstanceManager.duplicateInstance(args, (step, message, percent) => {
+      win?.webContents.send('odoo:duplicate-progress', { instanceId: args.sourceId, step, message, percent })
+    })
+    win?.webContents.send('odoo:instances-changed')
+    return instance
+  })
+
+  ipcMain.handle('odoo:sources', (_event, { instanceId }) => {
+    return odooInstanceManager.getSources(instanceId)
+  })
+
+  ipcMain.handle('odoo:update-sources', async (event, { instanceId, reinstallRequirements }) => {
+    const win = BrowserWindow.fromWebContents(event.sender)
+    return odooInstanceManager.updateSources(instanceId, !!reinstallRequirements, (step, message, percent) => {
+      win?.webContents.send('odoo:update-sources-progress', { instanceId, step, message, percent })
+    })
+  })
+
+  ipcMain.handle('odoo:pin-revision', async (event, { instanceId, revision }) => {
+    const win = BrowserWindow.fromWebContents(event.sender)
+    return odooInstanceManager.pinRevision(instanceId, revision, (step, message, percent) => {
+      win?.webContents.send('odoo:update-sources-progress', { instanceId, step, message, percent })
+    })
+  })
+
   ipcMain.handle('odoo:delete', async (event, { instanceId }) => {
     await odooInstanceManager.deleteInstance(instanceId)
     const win = BrowserWindow.fromWebContents(event.sender)
     win?.webContents.send('odoo:instances-changed')
   })
 
-  ipcMain.handle('odoo:start', async (_event, { instanceId }) => {
-    await odooProcessManager.start(instanceId)
+  ipcMain.handle('odoo:start', async (_event, { instanceId, dbName, profileId }) => {
+    if (dbName) await databaseManager.setActiveDatabase(instanceId, dbName)
+    await odooProcessManager.start(instanceId, { profileId })
+  })
+
+  ipcMain.handle('odoo:start-debug', async (_event, { instanceId, profileId }) => {
+    return odooProcessManager.startDebug(instanceId, profileId)
   })
 
   ipcMain.handle('odoo:stop', async (_event, { instanceId }) => {
     await odooProcessManager.stop(instanceId)
   })
 
-  ipcMain.handle('odoo:restart', async (_event, { instanceId }) => {
-    await odooProcessManager.restart(instanceId)
+  ipcMain.handle('odoo:restart', async (_event, { instanceId, profileId }) => {
+    await odooProcessManager.restart(instanceId, profileId)
+  })
+
+  ipcMain.handle('odoo:set-restart-policy', (_event, { instanceId, policy }) => {
+    odooProcessManager.setRestartPolicy(instanceId, policy)
+  })
+
+  ipcMain.handle('odoo:clear-crash-reports', (_event, { instanceId }) => {
+    odooProcessManager.clearCrashReports(instanceId)
+  })
+
+  ipcMain.handle('odoo:resource-history', (_event, { instanceId }) => {
+    return resourceMonitor.getHistory(instanceId)
+  })
+
+  ipcMain.handle('odoo:set-addon-watch', (_event, { instanceId, settings }) => {
+    addonWatcher.setSettings(instanceId, settings)
+  })
+
+  ipcMain.handle('odoo:save-launch-profiles', (_event, { instanceId, profiles, activeProfileId }) => {
+    odooProcessManager.saveLaunchProfiles(instanceId, profiles, activeProfileId)
+  })
+
+  ipcMain.handle('odoo:neutralize', async (_event, { instanceId }) => {
+    return neutralizeManager.neutralize(instanceId)
   })
 
   ipcMain.handle('shell:open-path', async (_event, { path }) => {
@@ -113,6 +188,10 @@ export function registerAllIpcHandlers(): void {
     await shell.openPath(path)
   })
 
+  ipcMain.handle('shell:open-in-editor', async (_event, { filePath, line }) => {
+    await editorLauncher.open(filePath, line)
+  })
+
   ipcMain.handle('odoo:read-config', async (_event, { instanceId }) => {
     const instance = instanceStore.get(instanceId)
     if (!instance) throw new Error('Instance not found')
@@ -145,6 +224,68 @@ export function registerAllIpcHandlers(): void {
     return databaseManager.listDatabases()
   })
 
+  ipcMain.handle('postgres:instance-databases', (_event, { instanceId }) => {
+    return databaseManager.listInstanceDatabases(instanceId)
+  })
+
+  ipcMain.handle('postgres:database-create', async (event, { instanceId, dbName }) => {
+    const win = BrowserWindow.fromWebContents(event.sender)
+    await databaseManager.createInstanceDatabase(instanceId, dbName, (message, percent) => {
+      win?.webContents.send('postgres:database-progress', { instanceId, message, percent })
+    })
+  })
+
+  ipcMain.handle('postgres:database-duplicate', async (event, { instanceId, sourceDb, targetDb }) => {
+    const win = BrowserWindow.fromWebContents(event.sender)
+    await databaseManager.duplicateInstanceDatabase(instanceId, sourceDb, targetDb, (message, percent) => {
+      win?.webContents.send('postgres:database-progress', { instanceId, message, percent })
+    })
+  })
+
+  ipcMain.handle('postgres:database-drop', async (_event, { instanceId, dbName }) => {
+    await databaseManager.dropInstanceDatabase(instanceId, dbName)
+  })
+
+  ipcMain.handle('postgres:database-activate', async (_event, { instanceId, dbName }) => {
+    await databaseManager.setActiveDatabase(instanceId, dbName)
+  })
+
+  ipcMain.handle('postgres:snapshot-list', (_event, { instanceId }) => {
+    return databaseManager.listSnapshots(instanceId)
+  })
+
+  ipcMain.handle('postgres:snapshot-create', async (event, { instanceId, name }) => {
+    const win = BrowserWindow.fromWebContents(event.sender)
+    return databaseManager.createSnapshot(instanceId, name, (message, percent) => {
+      win?.webContents.send('postgres:snapshot-progress', { instanceId, message, percent })
+    })
+  })
+
+  ipcMain.handle('postgres:snapshot-restore', async (event, { instanceId, snapshotId }) => {
+    const win = BrowserWindow.fromWebContents(event.sender)
+    await databaseManager.restoreSnapshot(instanceId, snapshotId, (message, percent) => {
+      win?.webContents.send('postgres:snapshot-progress', { instanceId, message, percent })
+    })
+  })
+
+  ipcMain.handle('postgres:snapshot-delete', async (_event, { instanceId, snapshotId }) => {
+    await databaseManager.deleteSnapshot(instanceId, snapshotId)
+  })
+
+  ipcMain.handle('postgres:backup-export', async (event, { instanceId, targetPath }) => {
+    const win = BrowserWindow.fromWebContents(event.sender)
+    await databaseManager.exportBackup(instanceId, targetPath, (step, message, percent) => {
+      win?.webContents.send('postgres:backup-progress', { instanceId, step, message, percent })
+    })
+  })
+
+  ipcMain.handle('postgres:backup-import', async (event, { instanceId, zipPath, neutralize }) => {
+    const win = BrowserWindow.fromWebContents(event.sender)
+    return databaseManager.importBackup(instanceId, zipPath, neutralize, (step, message, percent) => {
+      win?.webContents.send('postgres:backup-progress', { instanceId, step, message, percent })
+    })
+  })
+
   // Secure credentials
   ipcMain.handle('settings:set-api-key', (_event, { key }) => {
     secureStore.setApiKey(key)
@@ -220,6 +361,27 @@ export function registerAllIpcHandlers(): void {
     sessionStore.removeSession(instanceId, sessionId)
   })
 
+  // Claude Fix Loop
+  ipcMain.handle('claude:send-test-failures', async (_event, { instanceId, runId }) => {
+    await claudeFixLoop.sendTestFailures(instanceId, runId)
+  })
+
+  ipcMain.handle('claude:send-log-block', async (_event, { instanceId, text }) => {
+    await claudeFixLoop.sendLogBlock(instanceId, text)
+  })
+
+  ipcMain.handle('claude:fix-loop-start', async (_event, { instanceId, runId, maxAttempts }) => {
+    return claudeFixLoop.startFixLoop(instanceId, runId, maxAttempts)
+  })
+
+  ipcMain.handle('claude:fix-loop-stop', (_event, { instanceId }) => {
+    claudeFixLoop.stopFixLoop(instanceId)
+  })
+
+  ipcMain.handle('claude:fix-loop-status', (_event, { instanceId }) => {
+    return claudeFixLoop.getStatus(instanceId)
+  })
+
   // Claude Auth
   ipcMain.handle('claude:check-auth', async () => {
     return claudeAuthManager.checkAuthStatus()
@@ -255,15 +417,25 @@ export function registerAllIpcHandlers(): void {
 
   ipcMain.handle('addons:pull', async (event, { instanceId, repoId }) => {
     const win = BrowserWindow.fromWebContents(event.sender)
-    await addonManager.pullRepo(instanceId, repoId, (message, percent) => {
-      win?.webContents.send('addons:pull-progress', { instanceId, repoId, message, percent })
+    await addonManager.pullRepo(
+      instanceId,
+      repoId,
+      (message, percent) => {
+        win?.webContents.send('addons:pull-progress', { instanceId, repoId, message, percent })
+      },
+      (message, percent) => {
+        win?.webContents.send('addons:clone-progress', { instanceId, repoId, message, percent })
+      }
+    )
+  })
+
+  ipcMain.handle('addons:switch-branch', async (event, { instanceId, repoId, branch }) => {
+    const win = BrowserWindow.fromWebContents(event.sender)
+    return addonManager.switchBranch(instanceId, repoId, branch, (message, percent) => {
+      win?.webContents.send('addons:clone-progress', { instanceId, repoId, message, percent })
     })
   })
 
-  ipcMain.handle('addons:switch-branch', async (_event, { instanceId, repoId, branch }) => {
-    return addonManager.switchBranch(instanceId, repoId, branch)
-  })
-
   ipcMain.handle('addons:list-branches', async (_event, { instanceId, repoId }) => {
     return addonManager.listBranches(instanceId, repoId)
   })
@@ -272,9 +444,47 @@ export function registerAllIpcHandlers(): void {
     return addonManager.refreshBranch(instanceId, repoId)
   })
 
+  ipcMain.handle('addons:list-modules', async (_event, { instanceId }) => {
+    return addonManager.listModules(instanceId)
+  })
+
+  ipcMain.handle('addons:dependency-graph', async (_event, { instanceId }) => {
+    return moduleDependencyResolver.resolve(instanceId)
+  })
+
+  // Module operations
+  ipcMain.handle('odoo:modules-run', async (event, { instanceId, operation, modules }) => {
+    const win = BrowserWindow.fromWebContents(event.sender)
+    await moduleManager.run(instanceId, operation, modules, (message, percent) => {
+      win?.webContents.send('odoo:modules-progress', { instanceId, operation, modules, message, percent })
+    })
+  })
+
+  // Log history
+  ipcMain.handle('logs:query', async (_event, { instanceId, query }) => {
+    return logFileManager.query(instanceId, query)
+  })
+
+  // Tests
+  ipcMain.handle('tests:run', async (_event, { instanceId, args }) => {
+    return testRunner.run(instanceId, args)
+  })
+
+  ipcMain.handle('tests:list-runs', (_event, { instanceId }) => {
+    return testRunner.getRuns(instanceId)
+  })
+
+  ipcMain.handle('tests:cancel', (_event, { instanceId }) => {
+    testRunner.cancel(instanceId)
+  })
+
+  ipcMain.handle('tests:delete-run', (_event, { instanceId, runId }) => {
+    testRunner.deleteRun(instanceId, runId)
+  })
+
   // Odoo Shell (PTY)
-  ipcMain.handle('odoo:shell-start', async (_event, { instanceId }) => {
-    await odooShellManager.start(instanceId)
+  ipcMain.handle('odoo:shell-start', async (_event, { instanceId, dbName }) => {
+    await odooShellManager.start(instanceId, dbName)
   })
 
   ipcMain.handle('odoo:shell-write', (_event, { instanceId, data }) => {
@@ -312,6 +522,45 @@ export function registerAllIpcHandlers(): void {
     return result.filePaths[0]
   })
 
+  ipcMain.handle('dialog:select-config', async (event) => {
+    const win = BrowserWindow.fromWebContents(event.sender)
+    if (!win) return null
+    const result = await dialog.showOpenDialog(win, {
+      properties: ['openFile', 'showHiddenFiles'],
+      title: 'Select Odoo config file',
+      filters: [
+        { name: 'Odoo config', extensions: ['conf', 'cfg', 'odoorc'] },
+        { name: 'All files', extensions: ['*'] }
+      ]
+    })
+    if (result.canceled || result.filePaths.length === 0) return null
+    return result.filePaths[0]
+  })
+
+  ipcMain.handle('dialog:select-backup', async (event) => {
+    const win = BrowserWindow.fromWebContents(event.sender)
+    if (!win) return null
+    const result = await dialog.showOpenDialog(win, {
+      properties: ['openFile'],
+      title: 'Select Odoo backup',
+      filters: [{ name: 'Odoo backup or dump', extensions: ['zip', 'dump', 'pgdump', 'backup', 'sql'] }]
+    })
+    if (result.canceled || result.filePaths.length === 0) return null
+    return result.filePaths[0]
+  })
+
+  ipcMain.handle('dialog:save-backup', async (event, { defaultName }) => {
+    const win = BrowserWindow.fromWebContents(event.sender)
+    if (!win) return null
+    const result = await dialog.showSaveDialog(win, {
+      title: 'Export Odoo backup',
+      defaultPath: defaultName,
+      filters: [{ name: 'Odoo backup', extensions: ['zip'] }]
+    })
+    if (result.canceled || !result.filePath) return null
+    return result.filePath
+  })
+
   // Update
   ipcMain.handle('update:check', () => autoUpdateService.checkForUpdates())
   ipcMain.handle('update:download', () => autoUpdateService.downloadUpdate())
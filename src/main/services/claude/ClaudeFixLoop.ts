@@ -0,0 +1,272 @@
+import { BrowserWindow } from 'electron'
+import { relative, isAbsolute, sep } from 'path'
+import type { OdooInstance } from '@shared/types/odoo'
+import type { FixLoopStatus, TestResult, TestRun } from '@shared/types/test'
+import { instanceStore } from '../../store/InstanceStore'
+import { testRunStore } from '../../store/TestRunStore'
+import { testRunner } from '../odoo/TestRunner'
+import { parseLogLine } from '../odoo/OdooLogParser'
+import { claudeSessionManager } from './ClaudeSessionManager'
+
+/** Keep prompts reasonable when a whole suite breaks */
+const MAX_FAILURES_PER_MESSAGE = 10
+const MAX_TRACEBACK_LENGTH = 6000
+
+const DEFAULT_MAX_ATTEMPTS = 3
+
+/** Traceback frame: File "/path/to/file.py", line 42, in test_confirm */
+const FRAME_PATTERN = /File "([^"]+)", line (\d+)/g
+
+interface Frame {
+  filePath: string
+  line: number
+  /** Addon module the file belongs to, when it is inside one of the instance's addons directories */
+  module?: string
+}
+
+class ClaudeFixLoop {
+  private loops = new Map<string, FixLoopStatus>()
+
+  /** Send the failures of a test run to the active Claude session */
+  async sendTestFailures(instanceId: string, runId: string): Promise<void> {
+    const { instance, run } = this.getRunContext(instanceId, runId)
+    await this.send(instance, this.buildTestFailuresPrompt(instance, run, false))
+  }
+
+  /** Send an ERROR/CRITICAL log record, with its traceback, to the active Claude session */
+  async sendLogBlock(instanceId: string, text: string): Promise<void> {
+    const instance = instanceStore.get(instanceId)
+    if (!instance) throw new Error('Instance not found')
+    if (!text.trim()) throw new Error('Nothing to send')
+
+    await this.send(instance, this.buildLogBlockPrompt(instance, text))
+  }
+
+  /**
+   * Send the failures to Claude, wait for the end of its turn and re-run only
+   * the failed tests, as long as they fail and attempts remain.
+   */
+  async startFixLoop(instanceId: string, runId: string, maxAttempts = DEFAULT_MAX_ATTEMPTS): Promise<FixLoopStatus> {
+    if (this.loops.has(instanceId)) throw new Error('A fix loop is already running for this instance')
+    const { instance, run } = this.getRunContext(instanceId, runId)
+    // The end of a turn already in progress would pass for the end of the fix
+    if (claudeSessionManager.isBusy(instanceId)) {
+      throw new Error('Claude is still working on a previous message: wait for it to finish or interrupt it')
+    }
+
+    const status: FixLoopStatus = {
+      instanceId,
+      runId,
+      attempt: 0,
+      maxAttempts: Math.max(1, Math.min(maxAttempts, 10)),
+      state: 'waiting-for-claude'
+    }
+    this.loops.set(instanceId, status)
+
+    this.loop(instance, run, status).catch((error) => {
+      if (this.loops.get(instanceId) !== status) return
+      this.update(status, {
+        state: 'error',
+        error: error instanceof Error ? error.message : String(error)
+      })
+    }).finally(() => {
+      if (this.loops.get(instanceId) === status) this.loops.delete(instanceId)
+    })
+
+    return status
+  }
+
+  stopFixLoop(instanceId: string): void {
+    const status = this.loops.get(instanceId)
+    if (!status) return
+
+    this.loops.delete(instanceId)
+    if (status.state === 'running-tests' && testRunner.isRunning(instanceId)) {
+      testRunner.cancel(instanceId)
+    }
+    this.update(status, { state: 'stopped' })
+  }
+
+  getStatus(instanceId: string): FixLoopStatus | null {
+    return this.loops.get(instanceId) || null
+  }
+
+  private async loop(instance: OdooInstance, initialRun: TestRun, status: FixLoopStatus): Promise<void> {
+    const isCurrent = (): boolean => this.loops.get(instance.id) === status
+    let run = initialRun
+
+    while (status.attempt < status.maxAttempts) {
+      this.update(status, { attempt: status.attempt + 1, state: 'waiting-for-claude' })
+
+      // Wait before sending so a fast turn can't end unnoticed
+      const turnEnded = claudeSessionManager.waitForTurnEnd(instance.id)
+      await this.send(instance, this.buildTestFailuresPrompt(instance, run, true))
+      const success = await turnEnded
+      if (!isCurrent()) return
+      if (!success) throw new Error('Claude did not complete its turn')
+
+      this.update(status, { state: 'running-tests' })
+      const failures = this.failures(run)
+      const rerun = await testRunner.run(instance.id, {
+        modules: [...new Set(failures.map((r) => r.module))],
+        testTags: failures.map((r) => this.testTag(r)).join(','),
+        mode: run.mode
+      })
+      this.update(status, { runId: rerun.id })
+
+      run = await testRunner.waitForRun(instance.id, rerun.id)
+      if (!isCurrent()) return
+
+      if (run.status === 'passed') {
+        this.update(status, { state: 'passed' })
+        return
+      }
+      if (this.failures(run).length === 0) {
+        throw new Error(run.error || run.errors[0] || `Test run ended with status "${run.status}"`)
+      }
+    }
+
+    this.update(status, { state: 'failed' })
+  }
+
+  private getRunContext(instanceId: string, runId: string): { instance: OdooInstance; run: TestRun } {
+    const instance = instanceStore.get(instanceId)
+    if (!instance) throw new Error('Instance not found')
+
+    const run = testRunStore.getRun(instanceId, runId)
+    if (!run) throw new Error('Test run not found')
+    if (this.failures(run).length === 0) throw new Error('This test run has no failed tests')
+
+    return { instance, run }
+  }
+
+  private failures(run: TestRun): TestResult[] {
+    return run.results.filter((r) => r.outcome === 'failed' || r.outcome === 'error')
+  }
+
+  /** --test-tags selector of a single test, or of its class for class-level errors (setUpClass, ...) */
+  private testTag(result: TestResult): string {
+    return result.method.startsWith('test')
+      ? `/${result.module}:${result.testClass}.${result.method}`
+      : `/${result.module}:${result.testClass}`
+  }
+
+  private async send(instance: OdooInstance, text: string): Promise<void> {
+    if (!claudeSessionManager.hasSession(instance.id)) {
+      throw new Error('No active Claude session: start one in the Claude tab first')
+    }
+
+    await claudeSessionManager.sendMessage(instance.id, text)
+    // Let the Claude panel show the message as if it had been typed
+    for (const win of BrowserWindow.getAllWindows()) {
+      win.webContents.send('claude:user-message', { instanceId: instance.id, text })
+    }
+  }
+
+  private buildTestFailuresPrompt(instance: OdooInstance, run: TestRun, inLoop: boolean): string {
+    const failures = this.failures(run)
+    const shown = failures.slice(0, MAX_FAILURES_PER_MESSAGE)
+
+    const sections = shown.map((result) => {
+      const frames = this.parseFrames(instance, result.traceback || '')
+      return [
+        `### ${result.id} (${result.outcome === 'failed' ? 'assertion failed' : 'error'})`,
+        `- Module: ${result.module}`,
+        `- Test: ${result.pythonModule}.${result.testClass}.${result.method}`,
+        result.filePath ? `- File: ${result.filePath}${result.line ? `:${result.line}` : ''}` : null,
+        ...this.describeFrames(frames, result.filePath),
+        '',
+        this.codeBlock(result.traceback || 'No traceback was logged.')
+      ].filter((line) => line !== null).join('\n')
+    })
+
+    return [
+      `${failures.length} Odoo test${failures.length === 1 ? '' : 's'} failed on this instance. Find the cause and fix the code.`,
+      '',
+      ...this.describeInstance(instance),
+      `- Test run: modules ${run.modules.join(', ')}${run.testTags ? `, --test-tags ${run.testTags}` : ''}, ` +
+        (run.mode === 'copy' ? 'on a copy of the active database (-u)' : 'on a fresh database (-i)'),
+      '',
+      ...sections,
+      failures.length > shown.length ? `\n...and ${failures.length - shown.length} more failures not shown.` : '',
+      inLoop
+        ? '\nOnce you are done, the failed tests will be re-run automatically. Do not run odoo-bin yourself.'
+        : ''
+    ].join('\n').trim()
+  }
+
+  private buildLogBlockPrompt(instance: OdooInstance, text: string): string {
+    const firstLine = text.split('\n')[0]
+    const parsed = parseLogLine(firstLine)
+    const frames = this.parseFrames(instance, text)
+    const module = parsed?.logger.match(/^odoo\.addons\.(\w+)/)?.[1] || [...frames].reverse().find((f) => f.module)?.module
+
+    return [
+      `Odoo logged this ${parsed?.level || 'error'} while running. Find the cause and fix the code.`,
+      '',
+      ...this.describeInstance(instance),
+      parsed ? `- Logger: ${parsed.logger}` : null,
+      module ? `- Module: ${module}` : null,
+      parsed?.db && parsed.db !== '?' ? `- Database: ${parsed.db}` : null,
+      ...this.describeFrames(frames),
+      '',
+      this.codeBlock(text)
+    ].filter((line) => line !== null).join('\n')
+  }
+
+  private describeInstance(instance: OdooInstance): string[] {
+    return [
+      `- Instance: ${instance.name}, Odoo ${instance.version} ${instance.edition}`,
+      `- Odoo source: ${instance.odooPath}`,
+      instance.enterprisePath ? `- Enterprise source: ${instance.enterprisePath}` : null,
+      `- Config file: ${instance.configPath}`
+    ].filter((line): line is string => line !== null)
+  }
+
+  /** Frames inside the instance's own addons, innermost last: usually where the fix goes */
+  private describeFrames(frames: Frame[], exclude?: string): string[] {
+    const own = frames.filter((f) => f.module && f.filePath !== exclude)
+    if (own.length === 0) return []
+    return [
+      '- Frames in custom addons:',
+      ...own.map((f) => `  - ${f.filePath}:${f.line} (module ${f.module})`)
+    ]
+  }
+
+  private parseFrames(instance: OdooInstance, traceback: string): Frame[] {
+    const roots = [
+      ...(instance.addonRepos || []).map((repo) => repo.clonedPath),
+      ...(instance.extraAddonsPaths || []),
+      instance.customAddonsPath
+    ].filter((root): root is string => !!root)
+
+    return [...traceback.matchAll(FRAME_PATTERN)].map((match) => {
+      const filePath = match[1]
+      let module: string | undefined
+      for (const root of roots) {
+        const rel = relative(root, filePath)
+        if (rel && !rel.startsWith('..') && !isAbsolute(rel)) {
+          module = rel.split(sep)[0]
+          break
+        }
+      }
+      return { filePath, line: parseInt(match[2], 10), module }
+    })
+  }
+
+  private codeBlock(text: string): string {
+    const trimmed = text.length > MAX_TRACEBACK_LENGTH
+      ? `...\n${text.slice(-MAX_TRACEBACK_LENGTH)}`
+      : text
+    return '```\n' + trimmed.trim() + '\n```'
+  }
+
+  private update(status: FixLoopStatus, changes: Partial<FixLoopStatus>): void {
+    Object.assign(status, changes)
+    for (const win of BrowserWindow.getAllWindows()) {
+      win.webContents.send('claude:fix-loop-updated', { ...status })
+    }
+  }
+}
+
+export const claudeFixLoop = new ClaudeFixLoop()
@@ -0,0 +1,94 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import type { SDKMessage } from '@anthropic-ai/claude-code'
+import { claudeSessionManager } from './ClaudeSessionManager'
+
+const { send, query } = vi.hoisted(() => ({ send: vi.fn(), query: vi.fn() }))
+
+vi.mock('electron', () => ({
+  app: { getAppPath: () => '/nonexistent' },
+  BrowserWindow: { getAllWindows: () => [{ webContents: { send } }] }
+}))
+vi.mock('../../store/SecureStore', () => ({ secureStore: { getApiKey: () => null } }))
+vi.mock('../../store/InstanceStore', () => ({
+  instanceStore: { get: () => ({ id: 'i1', basePath: '/opt/odoo' }), update: () => {} }
+}))
+vi.mock('../../store/SessionStore', () => ({ sessionStore: { addSession: () => {}, updateSessionPreview: () => {} } }))
+vi.mock('../platform/ShellExecutor', () => ({ execCommandSafe: async () => ({ stdout: process.execPath }) }))
+vi.mock('@anthropic-ai/claude-code', () => ({ query }))
+
+/** Query whose message stream is driven by the test */
+function controlledQuery(): { fail: (error: Error) => void; emit: (message: SDKMessage) => void } {
+  const messages: SDKMessage[] = []
+  let failure: Error | null = null
+  let wake: () => void = () => {}
+
+  query.mockImplementation(() => ({
+    async *[Symbol.asyncIterator]() {
+      for (;;) {
+        while (messages.length > 0) yield messages.shift()!
+        if (failure) throw failure
+        await new Promise<void>((resolve) => (wake = resolve))
+      }
+    }
+  }))
+
+  return {
+    fail: (error) => {
+      failure = error
+      wake()
+    },
+    emit: (message) => {
+      messages.push(message)
+      wake()
+    }
+  }
+}
+
+beforeEach(async () => {
+  await claudeSessionManager.stopAll()
+  send.mockReset()
+})
+
+describe('ClaudeSessionManager', () => {
+  it('ends the current turn when the query succeeds', async () => {
+    const stream = controlledQuery()
+    await claudeSessionManager.startSession('i1', 'sonnet')
+    await claudeSessionManager.sendMessage('i1', 'Fix the failing test')
+    const turnEnded = claudeSessionManager.waitForTurnEnd('i1')
+    expect(claudeSessionManager.isBusy('i1')).toBe(true)
+
+    stream.emit({ type: 'result', subtype: 'success', is_error: false, result: 'Done' } as SDKMessage)
+
+    expect(await turnEnded).toBe(true)
+    expect(claudeSessionManager.isBusy('i1')).toBe(false)
+    expect(claudeSessionManager.hasSession('i1')).toBe(true)
+  })
+
+  it('ends the session and its pending turns when the query fails', async () => {
+    const stream = controlledQuery()
+    await claudeSessionManager.startSession('i1', 'sonnet')
+    await claudeSessionManager.sendMessage('i1', 'Fix the failing test')
+    const turnEnded = claudeSessionManager.waitForTurnEnd('i1')
+
+    stream.fail(new Error('Claude Code process exited with code 1'))
+
+    expect(await turnEnded).toBe(false)
+    expect(claudeSessionManager.hasSession('i1')).toBe(false)
+    expect(claudeSessionManager.isBusy('i1')).toBe(false)
+    expect(send).toHaveBeenCalledWith('claude:error', {
+      instanceId: 'i1',
+      error: 'Claude Code process exited with code 1'
+    })
+    expect(send).toHaveBeenLastCalledWith('claude:session-stopped', { instanceId: 'i1' })
+  })
+
+  it('lets a new session start after a failed one', async () => {
+    controlledQuery().fail(new Error('Claude Code process exited with code 1'))
+    await claudeSessionManager.startSession('i1', 'sonnet')
+    await vi.waitFor(() => expect(claudeSessionManager.hasSession('i1')).toBe(false))
+
+    controlledQuery()
+    await claudeSessionManager.startSession('i1', 'sonnet')
+    expect(claudeSessionManager.hasSession('i1')).toBe(true)
+  })
+})
@@ -26,10 +26,14 @@ interface ActiveSession {
   model: string
   permissionMode: PermissionMode
   messagesSent: number
+  /** Messages sent whose turn has not ended yet */
+  pendingTurns: number
 }
 
 class ClaudeSessionManager {
   private sessions = new Map<string, ActiveSession>()
+  /** Callers waiting for the current turn to end, resolved with its success */
+  private turnWaiters = new Map<string, Array<(success: boolean) => void>>()
 
   async startSession(
     instanceId: string,
@@ -74,7 +78,8 @@ class ClaudeSessionManager {
       inputResolve: null,
       model,
       permissionMode: permissionMode || 'default',
-      messagesSent: 0
+      messagesSent: 0,
+      pendingTurns: 0
     }
 
     // Find Claude Code executable
@@ -124,14 +129,7 @@ class ClaudeSessionManager {
     })
 
     // Process messages in background
-    this.processMessages(instanceId, queryInstance).catch((err) => {
-      if (err.name !== 'AbortError') {
-        this.broadcast(instanceId, 'claude:error', {
-          instanceId,
-          error: err.message
-        })
-      }
-    })
+    this.processMessages(instanceId, session)
   }
 
   async sendMessage(instanceId: string, text: string, parentToolUseId?: string): Promise<void> {
@@ -153,6 +151,7 @@ class ClaudeSessionManager {
       sessionStore.updateSessionPreview(instanceId, session.sessionId, text.slice(0, 100))
     }
     session.messagesSent++
+    session.pendingTurns++
 
     // Push to queue or resolve pending promise
     if (session.inputResolve) {
@@ -170,6 +169,7 @@ class ClaudeSessionManager {
 
     session.abortController.abort()
     this.sessions.delete(instanceId)
+    this.resolveTurnWaiters(instanceId, false)
 
     this.broadcast(instanceId, 'claude:session-stopped', { instanceId })
   }
@@ -227,6 +227,19 @@ class ClaudeSessionManager {
     return this.sessions.has(instanceId)
   }
 
+  /** Claude is working on a turn, or has messages queued for the next ones */
+  isBusy(instanceId: string): boolean {
+    return (this.sessions.get(instanceId)?.pendingTurns || 0) > 0
+  }
+
+  /** Resolves when Claude finishes its current turn: true on success, false on error or stop */
+  waitForTurnEnd(instanceId: string): Promise<boolean> {
+    if (!this.sessions.has(instanceId)) return Promise.resolve(false)
+    return new Promise((resolve) => {
+      this.turnWaiters.set(instanceId, [...(this.turnWaiters.get(instanceId) || []), resolve])
+    })
+  }
+
   async stopAll(): Promise<void> {
     const promises = Array.from(this.sessions.keys()).map((id) =>
       this.stopSession(id).catch(() => {})
@@ -274,9 +287,26 @@ class ClaudeSessionManager {
     )
   }
 
-  private async processMessages(instanceId: string, queryInstance: Query): Promise<void> {
-    for await (const message of queryInstance) {
-      this.routeMessage(instanceId, message)
+  private async processMessages(instanceId: string, session: ActiveSession): Promise<void> {
+    try {
+      for await (const message of session.query) {
+        this.routeMessage(instanceId, message)
+      }
+    } catch (err) {
+      if (!(err instanceof Error && err.name === 'AbortError')) {
+        this.broadcast(instanceId, 'claude:error', {
+          instanceId,
+          error: err instanceof Error ? err.message : String(err)
+        })
+      }
+    } finally {
+      // The query is over (error, abort or end of input): no turn will end anymore
+      session.pendingTurns = 0
+      if (this.sessions.get(instanceId) === session) {
+        this.sessions.delete(instanceId)
+        this.resolveTurnWaiters(instanceId, false)
+        this.broadcast(instanceId, 'claude:session-stopped', { instanceId })
+      }
     }
   }
 
@@ -339,6 +369,7 @@ class ClaudeSessionManager {
           isError: message.is_error,
           result: message.subtype === 'success' ? (message as any).result : undefined
         })
+        this.endTurn(instanceId, message.subtype === 'success' && !message.is_error)
         break
     }
   }
@@ -398,6 +429,18 @@ class ClaudeSessionManager {
     }
   }
 
+  private endTurn(instanceId: string, success: boolean): void {
+    const session = this.sessions.get(instanceId)
+    if (session) session.pendingTurns = Math.max(0, session.pendingTurns - 1)
+    this.resolveTurnWaiters(instanceId, success)
+  }
+
+  private resolveTurnWaiters(instanceId: string, success: boolean): void {
+    const waiters = this.turnWaiters.get(instanceId) || []
+    this.turnWaiters.delete(instanceId)
+    waiters.forEach((resolve) => resolve(success))
+  }
+
   private broadcast(instanceId: string, channel: string, data: unknown): void {
     for (const win of BrowserWindow.getAllWindows()) {
       win.webContents.send(channel, data)
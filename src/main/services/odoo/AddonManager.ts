@@ -4,13 +4,59 @@ import { join } from 'path'
 import { spawn, execFile } from 'child_process'
 import { promisify } from 'util'
 import { randomUUID } from 'crypto'
-import type { AddonRepo } from '@shared/types/addon'
+import type { OdooInstance } from '@shared/types/odoo'
+import type { AddonModule, AddonRepo, ModuleSource } from '@shared/types/addon'
 import { instanceStore } from '../../store/InstanceStore'
+import { venvManager } from '../python/VenvManager'
+import { pipManager } from '../python/PipManager'
+import { databaseManager } from '../postgres/DatabaseManager'
+import { addonWatcher } from './AddonWatcher'
 
 const execFileAsync = promisify(execFile)
 
 type ProgressCallback = (message: string, percent: number) => void
 
+interface AddonsPathEntry {
+  path: string
+  source: ModuleSource
+  repoId?: string
+}
+
+/**
+ * Manifests are Python literals: let the instance's own interpreter read them
+ * with ast.literal_eval, like Odoo does. Prints one JSON entry per module.
+ */
+const READ_MANIFESTS_SCRIPT = `
+import ast, json, os, sys
+result = []
+for root in sys.argv[1:]:
+    if not os.path.isdir(root):
+        continue
+    for name in sorted(os.listdir(root)):
+        for manifest_name in ('__manifest__.py', '__openerp__.py'):
+            path = os.path.join(root, name, manifest_name)
+            if os.path.isfile(path):
+                break
+        else:
+            continue
+        try:
+            with open(path, encoding='utf-8') as f:
+                result.append({'root': root, 'name': name, 'manifest': ast.literal_eval(f.read())})
+        except Exception as e:
+            result.append({'root': root, 'name': name, 'error': str(e)})
+print(json.dumps(result, default=str))
+`
+
+interface ManifestEntry {
+  root: string
+  name: string
+  manifest?: Record<string, unknown> & {
+    depends?: unknown[]
+    external_dependencies?: { python?: unknown[] }
+  }
+  error?: string
+}
+
 class AddonManager {
   async addRepo(
     instanceId: string,
@@ -55,9 +101,7 @@ class AddonManager {
       this.updateRepo(instanceId, repo)
 
       await this.syncAddonsPath(instanceId)
-
-      onProgress('Repository added successfully', 100)
-      return repo
+      addonWatcher.sync(instanceId)
     } catch (error) {
       const errMsg = error instanceof Error ? error.message : 'Clone failed'
       repo.status = 'error'
@@ -71,6 +115,13 @@ class AddonManager {
 
       throw new Error(`Failed to clone repository: ${errMsg}`)
     }
+
+    await this.installRepoRequirements(instanceId, repo, (msg, pct) =>
+      onProgress(msg, 70 + Math.round(pct * 0.28))
+    )
+
+    onProgress('Repository added successfully', 100)
+    return repo
   }
 
   async removeRepo(instanceId: string, repoId: string): Promise<void> {
@@ -81,28 +132,103 @@ class AddonManager {
     const repo = repos.find((r) => r.id === repoId)
     if (!repo) throw new Error('Addon repo not found')
 
-    // Remove from disk
-    if (existsSync(repo.clonedPath)) {
-      await rm(repo.clonedPath, { recursive: true, force: true })
-    }
-
-    // Remove from store
+    // Remove from store, and stop watching before deleting so it doesn't trigger a reload
     const updated = repos.filter((r) => r.id !== repoId)
     instanceStore.update(instanceId, { addonRepos: updated })
+    addonWatcher.sync(instanceId)
+
+    // Remove from disk, unless it is a checkout adopted along with an imported instance
+    const cloned = repo.clonedPath.startsWith(join(instance.basePath, 'extra-addons'))
+    if (cloned && existsSync(repo.clonedPath)) {
+      await rm(repo.clonedPath, { recursive: true, force: true })
+    }
 
     await this.syncAddonsPath(instanceId)
   }
 
+  /**
+   * Repos of an instance for a copy of it in basePath: clones under extra-addons
+   * are cloned again from the local clone, so unpushed work and the current
+   * branch come along. Checkouts adopted with an imported instance stay shared.
+   */
+  async copyRepos(source: OdooInstance, basePath: string, onProgress: ProgressCallback): Promise<AddonRepo[]> {
+    const sourceAddonsDir = join(source.basePath, 'extra-addons')
+    const repos = (source.addonRepos || []).filter((r) => r.status === 'ready')
+    const now = new Date().toISOString()
+    const copies: AddonRepo[] = []
+
+    for (const [index, repo] of repos.entries()) {
+      if (!repo.clonedPath.startsWith(sourceAddonsDir)) {
+        copies.push({ ...repo, id: randomUUID(), addedAt: now })
+        continue
+      }
+      if (!existsSync(repo.clonedPath)) continue
+
+      onProgress(`Copying ${repo.name}...`, Math.round((index / repos.length) * 100))
+      const current = await this.getCurrentBranch(repo.clonedPath)
+      const branch = current === 'HEAD' ? repo.branch : current
+      const clonedPath = join(basePath, 'extra-addons', repo.name)
+
+      await mkdir(join(basePath, 'extra-addons'), { recursive: true })
+      await this.gitClone(repo.clonedPath, branch, clonedPath, () => {})
+      // Pull from the real remote, not from the other instance
+      await execFileAsync('git', ['remote', 'set-url', 'origin', repo.url], { cwd: clonedPath })
+
+      copies.push({ ...repo, id: randomUUID(), branch, clonedPath, addedAt: now })
+    }
+
+    onProgress('Repositories copied', 100)
+    return copies
+  }
+
   listRepos(instanceId: string): AddonRepo[] {
     const instance = instanceStore.get(instanceId)
     if (!instance) throw new Error('Instance not found')
     return instance.addonRepos || []
   }
 
+  /**
+   * Every module on the addons path of the instance (core, enterprise, repos),
+   * with its manifest and its state in the active database.
+   */
+  async listModules(instanceId: string): Promise<AddonModule[]> {
+    const instance = instanceStore.get(instanceId)
+    if (!instance) throw new Error('Instance not found')
+
+    const addonsPaths = this.getAddonsPaths(instance)
+    const [manifests, states] = await Promise.all([
+      this.readManifests(instance, addonsPaths.map((p) => p.path)),
+      databaseManager.listModuleStates(instance.dbName, instance.dbUser)
+    ])
+
+    return manifests.map((entry) => {
+      const source = addonsPaths.find((p) => p.path === entry.root)
+      const manifest = entry.manifest || {}
+      const installed = states[entry.name]
+      return {
+        name: entry.name,
+        displayName: typeof manifest.name === 'string' ? manifest.name : entry.name,
+        version: manifest.version != null ? String(manifest.version) : '1.0',
+        summary: typeof manifest.summary === 'string' ? manifest.summary : undefined,
+        depends: Array.isArray(manifest.depends) ? manifest.depends.map(String) : [],
+        license: typeof manifest.license === 'string' ? manifest.license : 'LGPL-3',
+        installable: manifest.installable !== false,
+        application: manifest.application === true,
+        path: join(entry.root, entry.name),
+        source: source?.source || 'repo',
+        repoId: source?.repoId,
+        state: installed?.state as AddonModule['state'],
+        installedVersion: installed?.version || undefined,
+        error: entry.error
+      }
+    })
+  }
+
   async pullRepo(
     instanceId: string,
     repoId: string,
-    onProgress: ProgressCallback
+    onProgress: ProgressCallback,
+    onRequirementsProgress: ProgressCallback
   ): Promise<void> {
     const instance = instanceStore.get(instanceId)
     if (!instance) throw new Error('Instance not found')
@@ -150,9 +276,16 @@ class AddonManager {
         reject(new Error(`git pull failed: ${err.message}`))
       })
     })
+
+    await this.installRepoRequirements(instanceId, repo, onRequirementsProgress)
   }
 
-  async switchBranch(instanceId: string, repoId: string, newBranch: string): Promise<string> {
+  async switchBranch(
+    instanceId: string,
+    repoId: string,
+    newBranch: string,
+    onRequirementsProgress: ProgressCallback
+  ): Promise<string> {
     const instance = instanceStore.get(instanceId)
     if (!instance) throw new Error('Instance not found')
 
@@ -180,6 +313,8 @@ class AddonManager {
     repo.branch = actualBranch
     this.updateRepo(instanceId, repo)
 
+    await this.installRepoRequirements(instanceId, repo, onRequirementsProgress)
+
     return actualBranch
   }
 
@@ -249,22 +384,7 @@ class AddonManager {
     if (!instance) return
 
     const configContent = await readFile(instance.configPath, 'utf-8')
-
-    // Build the new addons_path
-    const addonsPaths = [
-      join(instance.odooPath, 'addons'),
-      join(instance.odooPath, 'odoo', 'addons')
-    ]
-    if (instance.enterprisePath) {
-      addonsPaths.push(instance.enterprisePath)
-    }
-    for (const repo of instance.addonRepos || []) {
-      if (repo.status === 'ready') {
-        addonsPaths.push(repo.clonedPath)
-      }
-    }
-
-    const newAddonsPath = addonsPaths.join(',')
+    const newAddonsPath = this.getAddonsPaths(instance).map((p) => p.path).join(',')
 
     // Replace addons_path line in config
     const lines = configContent.split('\n')
@@ -288,6 +408,73 @@ class AddonManager {
     await writeFile(instance.configPath, lines.join('\n'), 'utf-8')
   }
 
+  /**
+   * Install the Python packages a repo needs into the instance venv.
+   * Failures don't undo the clone/pull: they are recorded on the repo instead.
+   */
+  private async installRepoRequirements(
+    instanceId: string,
+    repo: AddonRepo,
+    onProgress: ProgressCallback
+  ): Promise<void> {
+    const instance = instanceStore.get(instanceId)
+    if (!instance) return
+
+    try {
+      onProgress('Checking Python requirements...', 0)
+      const manifests = await this.readManifests(instance, [repo.clonedPath])
+      const packages = manifests.flatMap((entry) => {
+        if (!entry.manifest || entry.manifest.installable === false) return []
+        const python = entry.manifest.external_dependencies?.python
+        return Array.isArray(python) ? python.map(String) : []
+      })
+
+      await pipManager.installAddonRequirements(
+        instance.venvPath,
+        join(repo.clonedPath, 'requirements.txt'),
+        packages,
+        onProgress
+      )
+      repo.error = undefined
+    } catch (error) {
+      repo.error = `Python requirements: ${error instanceof Error ? error.message : 'installation failed'}`
+      onProgress(repo.error, 100)
+    }
+    this.updateRepo(instanceId, repo)
+  }
+
+  /** Directories written to addons_path, in order */
+  private getAddonsPaths(instance: OdooInstance): AddonsPathEntry[] {
+    const paths: AddonsPathEntry[] = [
+      { path: join(instance.odooPath, 'addons'), source: 'core' },
+      { path: join(instance.odooPath, 'odoo', 'addons'), source: 'core' }
+    ]
+    if (instance.enterprisePath) {
+      paths.push({ path: instance.enterprisePath, source: 'enterprise' })
+    }
+    for (const repo of instance.addonRepos || []) {
+      if (repo.status === 'ready') {
+        paths.push({ path: repo.clonedPath, source: 'repo', repoId: repo.id })
+      }
+    }
+    for (const path of instance.extraAddonsPaths || []) {
+      paths.push({ path, source: 'repo' })
+    }
+    return paths
+  }
+
+  private async readManifests(instance: OdooInstance, roots: string[]): Promise<ManifestEntry[]> {
+    const pythonBin = venvManager.getPythonBin(instance.venvPath)
+    if (!existsSync(pythonBin)) {
+      throw new Error(`Python not found at ${pythonBin}. The virtual environment may be corrupted.`)
+    }
+
+    const { stdout } = await execFileAsync(pythonBin, ['-c', READ_MANIFESTS_SCRIPT, ...roots], {
+      maxBuffer: 32 * 1024 * 1024
+    })
+    return JSON.parse(stdout) as ManifestEntry[]
+  }
+
   private gitClone(
     url: string,
     branch: string,
@@ -305,7 +492,7 @@ class AddonManager {
         const text = data.toString()
         const match = text.match(/(\d+)%/)
         if (match) {
-          const pct = 5 + Math.round(parseInt(match[1], 10) * 0.9)
+          const pct = 5 + Math.round(parseInt(match[1], 10) * 0.65)
           onProgress(text.trim(), pct)
         }
       })
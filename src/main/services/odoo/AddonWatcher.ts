@@ -0,0 +1,189 @@
+import { existsSync, watch, type FSWatcher } from 'fs'
+import { extname, join } from 'path'
+import type { AddonWatchSettings, OdooInstance } from '@shared/types/odoo'
+import { instanceStore } from '../../store/InstanceStore'
+import { odooProcessManager } from './OdooProcessManager'
+import { moduleManager } from './ModuleManager'
+import { createLogRecord } from './OdooLogParser'
+
+/** Editors and git write several files in a row: wait for them to settle */
+const DEBOUNCE_MS = 1000
+
+const DATA_EXTENSIONS = ['.xml', '.csv']
+
+/** Never reload for changes in these directories */
+const IGNORED_DIRECTORIES = new Set(['.git', '__pycache__', 'node_modules', '.idea', '.vscode'])
+
+interface Watch {
+  roots: string[]
+  watchers: FSWatcher[]
+  timer: ReturnType<typeof setTimeout> | null
+  pythonFiles: Set<string>
+  /** Modules whose XML/CSV data changed, kept while the server is stopped */
+  dataModules: Set<string>
+  busy: boolean
+}
+
+/**
+ * Watches the addon repos and custom addons directory of instances that
+ * enabled it, and restarts the running server when Python files change,
+ * or upgrades the modules whose data files changed.
+ */
+class AddonWatcher {
+  private watches = new Map<string, Watch>()
+
+  constructor() {
+    // A start does not load data files again, the upgrade waits for the server instead
+    odooProcessManager.onReady((instanceId) => {
+      const entry = this.watches.get(instanceId)
+      if (entry && entry.dataModules.size > 0) this.schedule(instanceId, entry)
+    })
+  }
+
+  setSettings(instanceId: string, settings: AddonWatchSettings): void {
+    if (!instanceStore.get(instanceId)) throw new Error('Instance not found')
+    instanceStore.update(instanceId, { addonWatch: settings })
+    this.sync(instanceId)
+  }
+
+  /** Start, stop or move the watchers to match the instance's settings and addons directories */
+  sync(instanceId: string): void {
+    const instance = instanceStore.get(instanceId)
+    const roots = instance?.addonWatch?.enabled ? this.getRoots(instance) : []
+    const current = this.watches.get(instanceId)
+    if (current && current.roots.join('\n') === roots.join('\n')) return
+
+    this.unwatch(instanceId)
+    if (roots.length === 0) return
+
+    const entry: Watch = {
+      roots,
+      watchers: [],
+      timer: null,
+      pythonFiles: new Set(),
+      dataModules: new Set(),
+      busy: false
+    }
+    for (const root of roots) {
+      try {
+        const watcher = watch(root, { recursive: true }, (_event, filename) => {
+          if (filename) this.handleChange(instanceId, entry, root, filename.toString())
+        })
+        watcher.on('error', () => watcher.close())
+        entry.watchers.push(watcher)
+      } catch {
+        // Directory removed or not readable, the others are still watched
+      }
+    }
+    this.watches.set(instanceId, entry)
+  }
+
+  syncAll(): void {
+    for (const instance of instanceStore.getAll()) {
+      this.sync(instance.id)
+    }
+  }
+
+  unwatch(instanceId: string): void {
+    const entry = this.watches.get(instanceId)
+    if (!entry) return
+
+    this.watches.delete(instanceId)
+    if (entry.timer) clearTimeout(entry.timer)
+    for (const watcher of entry.watchers) watcher.close()
+  }
+
+  unwatchAll(): void {
+    for (const instanceId of [...this.watches.keys()]) {
+      this.unwatch(instanceId)
+    }
+  }
+
+  private getRoots(instance: OdooInstance): string[] {
+    const roots = [
+      ...(instance.addonRepos || []).map((repo) => repo.clonedPath),
+      ...(instance.extraAddonsPaths || []),
+      instance.customAddonsPath
+    ].filter((root): root is string => !!root && existsSync(root))
+    return [...new Set(roots)].sort()
+  }
+
+  private handleChange(instanceId: string, entry: Watch, root: string, filename: string): void {
+    const segments = filename.split(/[\\/]/)
+    if (segments.some((segment) => IGNORED_DIRECTORIES.has(segment))) return
+
+    const extension = extname(filename).toLowerCase()
+    if (extension === '.py') {
+      entry.pythonFiles.add(filename)
+    } else if (DATA_EXTENSIONS.includes(extension) && segments.length > 1) {
+      // Only files inside a module directory can be loaded by an upgrade
+      if (!existsSync(join(root, segments[0], '__manifest__.py'))) return
+      entry.dataModules.add(segments[0])
+    } else {
+      return
+    }
+
+    this.schedule(instanceId, entry)
+  }
+
+  private schedule(instanceId: string, entry: Watch): void {
+    if (entry.timer) clearTimeout(entry.timer)
+    entry.timer = setTimeout(() => {
+      entry.timer = null
+      this.flush(instanceId, entry).catch(() => {})
+    }, DEBOUNCE_MS)
+  }
+
+  private async flush(instanceId: string, entry: Watch): Promise<void> {
+    const instance = instanceStore.get(instanceId)
+    if (!instance || !odooProcessManager.isRunning(instanceId)) {
+      // Python changes made while the server is stopped are picked up by its next start
+      entry.pythonFiles.clear()
+      if (entry.dataModules.size > 0 && instance?.addonWatch?.updateModules) {
+        const modules = [...entry.dataModules].join(', ')
+        this.log(instanceId, `Data files changed in ${modules}, upgrading once the server is running`)
+      } else {
+        entry.dataModules.clear()
+      }
+      return
+    }
+
+    // Wait for a reload or module operation in progress, it may not include these changes
+    if (entry.busy || instance.status !== 'running' || moduleManager.isRunning(instanceId)) {
+      this.schedule(instanceId, entry)
+      return
+    }
+
+    const pythonFiles = [...entry.pythonFiles]
+    const modules = instance.addonWatch?.updateModules ? [...entry.dataModules] : []
+    entry.pythonFiles.clear()
+    entry.dataModules.clear()
+    if (pythonFiles.length === 0 && modules.length === 0) return
+
+    entry.busy = true
+    try {
+      if (modules.length > 0) {
+        this.log(instanceId, `Data files changed in ${modules.join(', ')}, upgrading and restarting...`)
+        await moduleManager.run(instanceId, 'upgrade', modules, () => {})
+      } else {
+        this.log(instanceId, `${this.describeFiles(pythonFiles)} changed, restarting...`)
+        await odooProcessManager.restart(instanceId)
+      }
+    } catch (error) {
+      this.log(instanceId, `Automatic reload failed: ${error instanceof Error ? error.message : error}`, 'ERROR')
+    } finally {
+      entry.busy = false
+    }
+  }
+
+  private describeFiles(files: string[]): string {
+    if (files.length === 1) return files[0]
+    return `${files.slice(0, 3).join(', ')}${files.length > 3 ? ` and ${files.length - 3} more` : ''}`
+  }
+
+  private log(instanceId: string, message: string, level: 'INFO' | 'ERROR' = 'INFO'): void {
+    odooProcessManager.broadcastLog(instanceId, createLogRecord(message, level))
+  }
+}
+
+export const addonWatcher = new AddonWatcher()
@@ -0,0 +1,170 @@
+import { request } from 'http'
+import type { InstanceHealth, OdooInstance, OdooVersion } from '@shared/types/odoo'
+
+const READINESS_INTERVAL_MS = 1000
+const LIVENESS_INTERVAL_MS = 15000
+const PROBE_TIMEOUT_MS = 5000
+
+/** Failed liveness probes in a row before a server is flagged as unhealthy */
+const UNHEALTHY_AFTER = 3
+
+/** Versions without the /web/health route */
+const LEGACY_VERSIONS: OdooVersion[] = ['14.0', '15.0']
+
+interface Probe {
+  path: string
+  method: 'GET' | 'POST'
+  body?: string
+}
+
+const HEALTH_PROBE: Probe = { path: '/web/health', method: 'GET' }
+
+/** JSON-RPC route answering without a database or a session on every version */
+const VERSION_INFO_PROBE: Probe = {
+  path: '/web/webclient/version_info',
+  method: 'POST',
+  body: JSON.stringify({ jsonrpc: '2.0', method: 'call', params: {} })
+}
+
+interface HealthCallbacks {
+  /** First successful probe */
+  onReady: () => void
+  /** The server became unhealthy or recovered */
+  onHealthChange: (health: InstanceHealth) => void
+}
+
+interface Monitor extends HealthCallbacks {
+  port: number
+  probe: Probe
+  timer: ReturnType<typeof setTimeout> | null
+  ready: boolean
+  failures: number
+  health: InstanceHealth | null
+}
+
+class ProbeError extends Error {
+  constructor(
+    message: string,
+    readonly statusCode?: number
+  ) {
+    super(message)
+  }
+}
+
+/**
+ * Probes the HTTP port of running servers: quickly while starting, to detect
+ * readiness whatever the log output looks like, then periodically to catch
+ * a server that stopped answering.
+ */
+class HealthMonitor {
+  private monitors = new Map<string, Monitor>()
+
+  start(instance: OdooInstance, callbacks: HealthCallbacks): void {
+    this.stop(instance.id)
+
+    const monitor: Monitor = {
+      ...callbacks,
+      port: instance.httpPort,
+      probe: LEGACY_VERSIONS.includes(instance.version) ? VERSION_INFO_PROBE : HEALTH_PROBE,
+      timer: null,
+      ready: false,
+      failures: 0,
+      health: null
+    }
+    this.monitors.set(instance.id, monitor)
+    this.schedule(instance.id, monitor, READINESS_INTERVAL_MS)
+  }
+
+  stop(instanceId: string): void {
+    const monitor = this.monitors.get(instanceId)
+    if (!monitor) return
+
+    this.monitors.delete(instanceId)
+    if (monitor.timer) clearTimeout(monitor.timer)
+  }
+
+  getHealth(instanceId: string): InstanceHealth | null {
+    return this.monitors.get(instanceId)?.health || null
+  }
+
+  private schedule(instanceId: string, monitor: Monitor, delay: number): void {
+    monitor.timer = setTimeout(() => {
+      monitor.timer = null
+      this.check(instanceId, monitor).catch(() => {})
+    }, delay)
+  }
+
+  private async check(instanceId: string, monitor: Monitor): Promise<void> {
+    const startedAt = Date.now()
+    try {
+      await this.send(monitor.port, monitor.probe)
+      if (this.monitors.get(instanceId) !== monitor) return
+
+      monitor.failures = 0
+      if (!monitor.ready) {
+        monitor.ready = true
+        monitor.onReady()
+      }
+      this.update(monitor, {
+        healthy: true,
+        checkedAt: new Date().toISOString(),
+        responseMs: Date.now() - startedAt
+      })
+    } catch (error) {
+      if (this.monitors.get(instanceId) !== monitor) return
+
+      // The server answered but has no /web/health route: older or patched version
+      if (error instanceof ProbeError && error.statusCode === 404 && monitor.probe === HEALTH_PROBE) {
+        monitor.probe = VERSION_INFO_PROBE
+        this.schedule(instanceId, monitor, 0)
+        return
+      }
+
+      // Not answering yet is expected while starting
+      if (monitor.ready) {
+        monitor.failures++
+        if (monitor.failures >= UNHEALTHY_AFTER) {
+          this.update(monitor, {
+            healthy: false,
+            checkedAt: new Date().toISOString(),
+            error: error instanceof Error ? error.message : String(error)
+          })
+        }
+      }
+    }
+
+    this.schedule(instanceId, monitor, monitor.ready ? LIVENESS_INTERVAL_MS : READINESS_INTERVAL_MS)
+  }
+
+  private update(monitor: Monitor, health: InstanceHealth): void {
+    const changed = !monitor.health || monitor.health.healthy !== health.healthy
+    monitor.health = health
+    if (changed) monitor.onHealthChange(health)
+  }
+
+  private send(port: number, probe: Probe): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const req = request(
+        {
+          host: '127.0.0.1',
+          port,
+          path: probe.path,
+          method: probe.method,
+          headers: probe.body ? { 'Content-Type': 'application/json' } : undefined,
+          timeout: PROBE_TIMEOUT_MS
+        },
+        (res) => {
+          res.resume()
+          const status = res.statusCode || 0
+          if (status >= 200 && status < 300) resolve()
+          else reject(new ProbeError(`HTTP ${status} on ${probe.path}`, status))
+        }
+      )
+      req.on('timeout', () => req.destroy(new ProbeError(`No answer within ${PROBE_TIMEOUT_MS / 1000}s`)))
+      req.on('error', reject)
+      req.end(probe.body)
+    })
+  }
+}
+
+export const healthMonitor = new HealthMonitor()
@@ -0,0 +1,284 @@
+import { createReadStream, createWriteStream, existsSync, type WriteStream } from 'fs'
+import { mkdir, readdir, rm } from 'fs/promises'
+import { createInterface } from 'readline'
+import { join } from 'path'
+import type { LogQuery, LogQueryResult, LogRecord } from '@shared/types/log'
+import { instanceStore } from '../../store/InstanceStore'
+import { settingsStore } from '../../store/SettingsStore'
+
+/** odoo-2024-01-31.jsonl, then odoo-2024-01-31.1.jsonl, ... once maxLogLines records are reached */
+const LOG_FILE_PATTERN = /^odoo-(\d{4}-\d{2}-\d{2})(?:\.(\d+))?\.jsonl$/
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+interface OpenLog {
+  instanceId: string
+  dir: string
+  stream: WriteStream
+  day: string
+  segment: number
+  lines: number
+  maxLines: number
+}
+
+interface LogFile {
+  path: string
+  day: string
+  segment: number
+}
+
+/**
+ * Persists instance log records as JSON lines under <basePath>/logs, one file
+ * per day, split every maxLogLines records and removed after logsRetentionDays.
+ */
+class LogFileManager {
+  private open = new Map<string, OpenLog>()
+  private opening = new Map<string, Promise<OpenLog | null>>()
+  /** Records received while the file is being opened */
+  private pending = new Map<string, LogRecord[]>()
+  /** Instances whose log directory cannot be written (disk full, read-only checkout), until the next close */
+  private disabled = new Set<string>()
+
+  append(instanceId: string, record: LogRecord): void {
+    if (this.disabled.has(instanceId)) return
+
+    const log = this.open.get(instanceId)
+    if (log) {
+      this.write(log, record)
+      return
+    }
+
+    this.pending.set(instanceId, [...(this.pending.get(instanceId) || []), record])
+    if (!this.opening.has(instanceId)) {
+      const opening = this.openLog(instanceId)
+        .catch(() => null)
+        .then((opened) => {
+          this.opening.delete(instanceId)
+          const records = this.pending.get(instanceId) || []
+          this.pending.delete(instanceId)
+          if (opened && !this.disabled.has(instanceId)) {
+            this.open.set(instanceId, opened)
+            for (const record of records) this.write(opened, record)
+          } else {
+            this.disable(instanceId)
+          }
+          return opened
+        })
+      this.opening.set(instanceId, opening)
+    }
+  }
+
+  /** Close the current file, the next record opens a new one with fresh settings */
+  async close(instanceId: string): Promise<void> {
+    await this.opening.get(instanceId)
+    this.disabled.delete(instanceId)
+    const log = this.open.get(instanceId)
+    if (!log) return
+
+    this.open.delete(instanceId)
+    await new Promise<void>((resolve) => log.stream.end(resolve))
+  }
+
+  async query(instanceId: string, query: LogQuery): Promise<LogQueryResult> {
+    const instance = instanceStore.get(instanceId)
+    if (!instance) throw new Error('Instance not found')
+
+    const matches = this.buildMatcher(query)
+    const limit = query.limit || settingsStore.get().maxLogLines
+    const fromDay = query.from?.slice(0, 10)
+    const toDay = query.to?.slice(0, 10)
+
+    const files = (await this.listFiles(this.getLogDir(instance.basePath))).filter(
+      (file) => (!fromDay || file.day >= fromDay) && (!toDay || file.day <= toDay)
+    )
+
+    // Ring buffer of the most recent matches
+    const entries: LogRecord[] = []
+    let next = 0
+    let truncated = false
+    for (const file of files) {
+      const lines = createInterface({ input: createReadStream(file.path), crlfDelay: Infinity })
+      for await (const raw of lines) {
+        let entry: LogRecord
+        try {
+          entry = JSON.parse(raw)
+        } catch {
+          continue
+        }
+        if (!matches(entry)) continue
+
+        if (entries.length < limit) {
+          entries.push(entry)
+        } else {
+          entries[next] = entry
+          next = (next + 1) % limit
+          truncated = true
+        }
+      }
+    }
+
+    return { entries: [...entries.slice(next), ...entries.slice(0, next)], truncated }
+  }
+
+  /** Remove log files older than the retention period */
+  async cleanup(instanceId: string): Promise<void> {
+    const instance = instanceStore.get(instanceId)
+    if (!instance) return
+
+    const cutoff = new Date(Date.now() - settingsStore.get().logsRetentionDays * DAY_MS)
+      .toISOString()
+      .slice(0, 10)
+    const current = this.open.get(instanceId)
+
+    for (const file of await this.listFiles(this.getLogDir(instance.basePath))) {
+      if (file.day >= cutoff) continue
+      if (current && current.day === file.day && current.segment === file.segment) continue
+      await rm(file.path, { force: true }).catch(() => {})
+    }
+  }
+
+  async cleanupAll(): Promise<void> {
+    for (const instance of instanceStore.getAll()) {
+      await this.cleanup(instance.id)
+    }
+  }
+
+  getLogDir(basePath: string): string {
+    return join(basePath, 'logs')
+  }
+
+  private async openLog(instanceId: string): Promise<OpenLog | null> {
+    const instance = instanceStore.get(instanceId)
+    if (!instance) return null
+
+    const day = this.today()
+    const dir = this.getLogDir(instance.basePath)
+    await mkdir(dir, { recursive: true })
+    const maxLines = settingsStore.get().maxLogLines
+
+    // Continue the last file of the day if it still has room
+    const latest = (await this.listFiles(dir)).filter((f) => f.day === day).pop()
+    let segment = latest?.segment ?? 0
+    let lines = latest ? await this.countLines(latest.path) : 0
+    if (lines >= maxLines) {
+      segment++
+      lines = 0
+    }
+
+    await this.cleanup(instanceId)
+
+    return {
+      instanceId,
+      dir,
+      stream: this.createStream(instanceId, this.filePath(dir, day, segment)),
+      day,
+      segment,
+      lines,
+      maxLines
+    }
+  }
+
+  private write(log: OpenLog, record: LogRecord): void {
+    const day = this.today()
+    if (day !== log.day || log.lines >= log.maxLines) {
+      this.rotate(log, day)
+    }
+
+    log.stream.write(JSON.stringify(record) + '\n')
+    log.lines++
+  }
+
+  private rotate(log: OpenLog, day: string): void {
+    log.stream.end()
+    log.segment = day === log.day ? log.segment + 1 : 0
+    log.day = day
+    log.lines = 0
+    log.stream = this.createStream(log.instanceId, this.filePath(log.dir, day, log.segment))
+  }
+
+  private createStream(instanceId: string, path: string): WriteStream {
+    const stream = createWriteStream(path, { flags: 'a' })
+    // Without a listener a write error would be an uncaught exception in the main process
+    stream.on('error', () => this.disable(instanceId))
+    return stream
+  }
+
+  /** Stop writing the log files of an instance, the console and the in-memory buffer keep working */
+  private disable(instanceId: string): void {
+    this.disabled.add(instanceId)
+    this.pending.delete(instanceId)
+    const log = this.open.get(instanceId)
+    if (!log) return
+
+    this.open.delete(instanceId)
+    log.stream.destroy()
+  }
+
+  private buildMatcher(query: LogQuery): (entry: LogRecord) => boolean {
+    let pattern: RegExp | null = null
+    if (query.text && query.regex) {
+      try {
+        pattern = new RegExp(query.text, 'i')
+      } catch (error) {
+        throw new Error(`Invalid regular expression: ${error instanceof Error ? error.message : error}`)
+      }
+    }
+    const text = query.text && !query.regex ? query.text.toLowerCase() : null
+    const levels = query.levels?.length ? new Set<string>(query.levels) : null
+    const logger = query.logger?.trim()
+    // A bare module name matches its addon's loggers
+    const loggerPrefixes = logger
+      ? logger.includes('.') ? [logger] : [logger, `odoo.addons.${logger}`]
+      : null
+
+    return (entry) => {
+      if (levels && !levels.has(entry.level)) return false
+      if (query.from && entry.timestamp < query.from) return false
+      if (query.to && entry.timestamp > query.to) return false
+      if (
+        loggerPrefixes &&
+        !loggerPrefixes.some((prefix) => entry.logger === prefix || entry.logger?.startsWith(`${prefix}.`))
+      ) {
+        return false
+      }
+      if (text && !entry.raw.toLowerCase().includes(text)) return false
+      if (pattern && !pattern.test(entry.raw)) return false
+      return true
+    }
+  }
+
+  /** Log files sorted from oldest to newest */
+  private async listFiles(dir: string): Promise<LogFile[]> {
+    if (!existsSync(dir)) return []
+
+    const files: LogFile[] = []
+    for (const name of await readdir(dir)) {
+      const match = name.match(LOG_FILE_PATTERN)
+      if (match) {
+        files.push({ path: join(dir, name), day: match[1], segment: match[2] ? parseInt(match[2], 10) : 0 })
+      }
+    }
+    return files.sort((a, b) => a.day.localeCompare(b.day) || a.segment - b.segment)
+  }
+
+  private filePath(dir: string, day: string, segment: number): string {
+    return join(dir, segment === 0 ? `odoo-${day}.jsonl` : `odoo-${day}.${segment}.jsonl`)
+  }
+
+  private async countLines(path: string): Promise<number> {
+    let count = 0
+    const lines = createInterface({ input: createReadStream(path), crlfDelay: Infinity })
+    try {
+      for await (const _line of lines) count++
+    } catch {
+      // Unreadable file: start a new segment count from what was read
+    }
+    return count
+  }
+
+  private today(): string {
+    return new Date().toISOString().slice(0, 10)
+  }
+}
+
+export const logFileManager = new LogFileManager()
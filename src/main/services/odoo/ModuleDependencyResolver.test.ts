@@ -0,0 +1,141 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import type { OdooInstance } from '@shared/types/odoo'
+import type { AddonModule } from '@shared/types/addon'
+import { moduleDependencyResolver } from './ModuleDependencyResolver'
+
+const instances = new Map<string, OdooInstance>()
+let modules: AddonModule[] = []
+
+vi.mock('../../store/InstanceStore', () => ({
+  instanceStore: {
+    get: (id: string) => instances.get(id),
+    getAll: () => [...instances.values()]
+  }
+}))
+
+vi.mock('./AddonManager', () => ({
+  addonManager: {
+    listModules: async () => modules
+  }
+}))
+
+function module(name: string, depends: string[], overrides: Partial<AddonModule> = {}): AddonModule {
+  return {
+    name,
+    displayName: name,
+    version: '17.0.1.0.0',
+    depends,
+    license: 'LGPL-3',
+    installable: true,
+    application: false,
+    path: `/opt/odoo/addons/${name}`,
+    source: 'core',
+    ...overrides
+  }
+}
+
+function repoModule(name: string, depends: string[], overrides: Partial<AddonModule> = {}): AddonModule {
+  return module(name, depends, { source: 'repo', repoId: 'repo-1', path: `/repos/custom/${name}`, ...overrides })
+}
+
+beforeEach(() => {
+  instances.clear()
+  instances.set('i1', {
+    id: 'i1',
+    name: 'main',
+    version: '17.0',
+    edition: 'community',
+    addonRepos: []
+  } as unknown as OdooInstance)
+  modules = []
+})
+
+describe('ModuleDependencyResolver', () => {
+  it('builds the graph of the repo modules and their dependencies', async () => {
+    modules = [
+      module('base', []),
+      module('mail', ['base']),
+      module('sale', ['mail']),
+      repoModule('sale_custom', ['sale'])
+    ]
+
+    const graph = await moduleDependencyResolver.resolve('i1')
+
+    expect(graph.nodes.map((n) => n.name).sort()).toEqual(['base', 'mail', 'sale', 'sale_custom'])
+    expect(graph.edges).toContainEqual({ from: 'sale_custom', to: 'sale' })
+    expect(graph.edges).toContainEqual({ from: 'mail', to: 'base' })
+    expect(graph.missing).toEqual([])
+    expect(graph.cycles).toEqual([])
+  })
+
+  it('leaves out core modules no repo module depends on', async () => {
+    modules = [module('base', []), module('crm', ['base']), repoModule('custom', ['base'])]
+
+    const graph = await moduleDependencyResolver.resolve('i1')
+
+    expect(graph.nodes.map((n) => n.name).sort()).toEqual(['base', 'custom'])
+  })
+
+  it('reports missing and uninstallable dependencies with their dependents', async () => {
+    modules = [
+      module('base', []),
+      module('old_module', ['base'], { installable: false }),
+      repoModule('b_custom', ['account_banking_mandate', 'old_module']),
+      repoModule('a_custom', ['account_banking_mandate'])
+    ]
+
+    const graph = await moduleDependencyResolver.resolve('i1')
+
+    expect(graph.missing.map((m) => [m.name, m.requiredBy])).toEqual([
+      ['account_banking_mandate', ['a_custom', 'b_custom']],
+      ['old_module', ['b_custom']]
+    ])
+  })
+
+  it('suggests the OCA repository from the module name prefix', async () => {
+    modules = [repoModule('custom', ['sale_order_type'])]
+
+    const graph = await moduleDependencyResolver.resolve('i1')
+
+    expect(graph.missing[0].suggestions).toEqual([
+      {
+        url: 'https://github.com/OCA/sale-workflow.git',
+        branch: '17.0',
+        reason: 'OCA repository usually providing sale* modules',
+        confirmed: false
+      }
+    ])
+  })
+
+  it('finds dependency cycles', async () => {
+    modules = [
+      module('base', []),
+      repoModule('a', ['b']),
+      repoModule('b', ['c']),
+      repoModule('c', ['a', 'base']),
+      repoModule('d', ['d']),
+      repoModule('e', ['a'])
+    ]
+
+    const graph = await moduleDependencyResolver.resolve('i1')
+
+    expect(graph.cycles).toHaveLength(2)
+    expect(graph.cycles).toContainEqual(['a', 'b', 'c'])
+    expect(graph.cycles).toContainEqual(['d'])
+  })
+
+  it('keeps the first module on the addons path and reports the shadowed ones', async () => {
+    modules = [
+      repoModule('web_custom', ['base']),
+      module('base', []),
+      module('web_custom', ['base', 'web'], { path: '/opt/odoo/addons/web_custom' })
+    ]
+
+    const graph = await moduleDependencyResolver.resolve('i1')
+
+    expect(graph.missing).toEqual([])
+    expect(graph.shadowed).toEqual([
+      { name: 'web_custom', paths: ['/repos/custom/web_custom', '/opt/odoo/addons/web_custom'] }
+    ])
+  })
+})
@@ -0,0 +1,240 @@
+import { existsSync } from 'fs'
+import { join } from 'path'
+import type { OdooInstance } from '@shared/types/odoo'
+import type {
+  AddonModule,
+  MissingDependency,
+  ModuleGraph,
+  ModuleGraphNode,
+  RepoSuggestion
+} from '@shared/types/addon'
+import { ODOO_VERSION_CONFIG } from '@shared/constants/odooVersions'
+import { instanceStore } from '../../store/InstanceStore'
+import { addonManager } from './AddonManager'
+
+/**
+ * OCA repositories by module name prefix, most specific first.
+ * Only used when no local clone is known to contain the module.
+ */
+const OCA_REPOS_BY_PREFIX: Array<[string, string]> = [
+  ['account_financial_report', 'account-financial-reporting'],
+  ['account_invoice_', 'account-invoicing'],
+  ['account_payment_', 'bank-payment'],
+  ['account_reconcile', 'account-reconcile'],
+  ['account_', 'account-financial-tools'],
+  ['auditlog', 'server-tools'],
+  ['base_rest', 'rest-framework'],
+  ['base_tier_validation', 'server-ux'],
+  ['base_', 'server-tools'],
+  ['component', 'connector'],
+  ['connector', 'connector'],
+  ['contract', 'contract'],
+  ['date_range', 'server-ux'],
+  ['dms', 'dms'],
+  ['helpdesk_', 'helpdesk'],
+  ['hr_', 'hr'],
+  ['mail_', 'social'],
+  ['mass_editing', 'server-ux'],
+  ['mis_builder', 'mis-builder'],
+  ['module_auto_update', 'server-tools'],
+  ['mrp_', 'manufacture'],
+  ['partner_', 'partner-contact'],
+  ['pos_', 'pos'],
+  ['product_', 'product-attribute'],
+  ['project_', 'project'],
+  ['purchase_', 'purchase-workflow'],
+  ['queue_job', 'queue'],
+  ['report_', 'reporting-engine'],
+  ['sale_', 'sale-workflow'],
+  ['server_environment', 'server-env'],
+  ['stock_', 'stock-logistics-workflow'],
+  ['web_', 'web'],
+  ['website_', 'website']
+]
+
+class ModuleDependencyResolver {
+  /**
+   * Resolve the dependencies of the addon repo modules against everything on
+   * the addons path, like Odoo does when loading the registry.
+   */
+  async resolve(instanceId: string): Promise<ModuleGraph> {
+    const instance = instanceStore.get(instanceId)
+    if (!instance) throw new Error('Instance not found')
+
+    const modules = await addonManager.listModules(instanceId)
+
+    // First occurrence on the addons path wins
+    const available = new Map<string, AddonModule>()
+    const pathsByName = new Map<string, string[]>()
+    for (const module of modules) {
+      if (!available.has(module.name)) available.set(module.name, module)
+      pathsByName.set(module.name, [...(pathsByName.get(module.name) || []), module.path])
+    }
+
+    const requiredBy = new Map<string, string[]>()
+    for (const module of available.values()) {
+      if (!module.installable) continue
+      for (const dep of module.depends) {
+        const dependency = available.get(dep)
+        if (!dependency || !dependency.installable) {
+          requiredBy.set(dep, [...(requiredBy.get(dep) || []), module.name])
+        }
+      }
+    }
+
+    const missing: MissingDependency[] = [...requiredBy.entries()]
+      .map(([name, dependents]) => ({
+        name,
+        requiredBy: dependents.sort(),
+        suggestions: this.suggestRepos(instance, name)
+      }))
+      .sort((a, b) => a.name.localeCompare(b.name))
+
+    const { nodes, edges } = this.buildRepoGraph(available, requiredBy)
+
+    return {
+      nodes,
+      edges,
+      missing,
+      cycles: this.findCycles(available),
+      shadowed: [...pathsByName.entries()]
+        .filter(([, paths]) => paths.length > 1)
+        .map(([name, paths]) => ({ name, paths }))
+    }
+  }
+
+  /** Repo modules plus the transitive closure of their dependencies */
+  private buildRepoGraph(
+    available: Map<string, AddonModule>,
+    missing: Map<string, string[]>
+  ): Pick<ModuleGraph, 'nodes' | 'edges'> {
+    const nodes = new Map<string, ModuleGraphNode>()
+    const edges: ModuleGraph['edges'] = []
+
+    const visit = (name: string): void => {
+      if (nodes.has(name)) return
+      const module = available.get(name)
+      if (!module) {
+        nodes.set(name, { name })
+        return
+      }
+      nodes.set(name, { name, source: module.source, repoId: module.repoId, state: module.state })
+      for (const dep of module.depends) {
+        edges.push({ from: name, to: dep })
+        visit(dep)
+      }
+    }
+
+    for (const module of available.values()) {
+      if (module.source === 'repo') visit(module.name)
+    }
+    // Missing dependencies of core/enterprise modules are reported too
+    for (const name of missing.keys()) {
+      if (!nodes.has(name)) nodes.set(name, { name })
+    }
+
+    return { nodes: [...nodes.values()], edges }
+  }
+
+  /** Strongly connected components with more than one module (Tarjan) */
+  private findCycles(available: Map<string, AddonModule>): string[][] {
+    let index = 0
+    const indices = new Map<string, number>()
+    const lowLinks = new Map<string, number>()
+    const onStack = new Set<string>()
+    const stack: string[] = []
+    const cycles: string[][] = []
+
+    const strongConnect = (name: string): void => {
+      indices.set(name, index)
+      lowLinks.set(name, index)
+      index++
+      stack.push(name)
+      onStack.add(name)
+
+      for (const dep of available.get(name)?.depends || []) {
+        if (!available.has(dep)) continue
+        if (!indices.has(dep)) {
+          strongConnect(dep)
+          lowLinks.set(name, Math.min(lowLinks.get(name)!, lowLinks.get(dep)!))
+        } else if (onStack.has(dep)) {
+          lowLinks.set(name, Math.min(lowLinks.get(name)!, indices.get(dep)!))
+        }
+      }
+
+      if (lowLinks.get(name) === indices.get(name)) {
+        const component: string[] = []
+        let member: string
+        do {
+          member = stack.pop()!
+          onStack.delete(member)
+          component.push(member)
+        } while (member !== name)
+
+        const selfLoop = available.get(name)?.depends.includes(name)
+        if (component.length > 1 || selfLoop) cycles.push(component.sort())
+      }
+    }
+
+    for (const name of available.keys()) {
+      if (!indices.has(name)) strongConnect(name)
+    }
+    return cycles
+  }
+
+  private suggestRepos(instance: OdooInstance, moduleName: string): RepoSuggestion[] {
+    const suggestions: RepoSuggestion[] = []
+    const seen = new Set<string>()
+
+    for (const other of instanceStore.getAll()) {
+      // Repos cloned by any instance on this machine
+      for (const repo of other.addonRepos || []) {
+        if (seen.has(repo.url)) continue
+        if (existsSync(join(repo.clonedPath, moduleName, '__manifest__.py'))) {
+          seen.add(repo.url)
+          suggestions.push({
+            url: repo.url,
+            branch: other.version === instance.version ? repo.branch : instance.version,
+            reason: `Found in ${repo.name} (instance "${other.name}")`,
+            confirmed: true
+          })
+        }
+      }
+
+      // Enterprise-only modules
+      if (
+        instance.edition === 'community' &&
+        other.enterprisePath &&
+        existsSync(join(other.enterprisePath, moduleName, '__manifest__.py'))
+      ) {
+        const enterpriseUrl = ODOO_VERSION_CONFIG[instance.version].enterpriseRepoUrl
+        if (!seen.has(enterpriseUrl)) {
+          seen.add(enterpriseUrl)
+          suggestions.push({
+            url: enterpriseUrl,
+            branch: instance.version,
+            reason: 'Odoo Enterprise module',
+            confirmed: true
+          })
+        }
+      }
+    }
+
+    const guess = OCA_REPOS_BY_PREFIX.find(([prefix]) => moduleName.startsWith(prefix))
+    if (guess) {
+      const url = `https://github.com/OCA/${guess[1]}.git`
+      if (!seen.has(url)) {
+        suggestions.push({
+          url,
+          branch: instance.version,
+          reason: `OCA repository usually providing ${guess[0].replace(/_$/, '')}* modules`,
+          confirmed: false
+        })
+      }
+    }
+
+    return suggestions
+  }
+}
+
+export const moduleDependencyResolver = new ModuleDependencyResolver()
@@ -0,0 +1,215 @@
+import { spawn } from 'child_process'
+import { existsSync } from 'fs'
+import { join } from 'path'
+import type { OdooInstance } from '@shared/types/odoo'
+import type { ModuleOperation } from '@shared/types/addon'
+import { instanceStore } from '../../store/InstanceStore'
+import { venvManager } from '../python/VenvManager'
+import { odooProcessManager } from './OdooProcessManager'
+
+type ProgressCallback = (message: string, percent: number) => void
+
+/** Same rule as module directory names on the addons path */
+const MODULE_NAME_PATTERN = /^\w+$/
+
+const OPERATION_LABELS: Record<ModuleOperation, string> = {
+  install: 'Installing',
+  upgrade: 'Upgrading',
+  uninstall: 'Uninstalling'
+}
+
+class ModuleManager {
+  private running = new Set<string>()
+
+  /**
+   * Install, upgrade or uninstall modules in the active database.
+   * A running server is stopped for the operation and started again afterwards.
+   */
+  async run(
+    instanceId: string,
+    operation: ModuleOperation,
+    modules: string[],
+    onProgress: ProgressCallback
+  ): Promise<void> {
+    const instance = instanceStore.get(instanceId)
+    if (!instance) throw new Error('Instance not found')
+
+    if (modules.length === 0) throw new Error('No modules selected')
+    const invalid = modules.find((m) => !MODULE_NAME_PATTERN.test(m))
+    if (invalid) throw new Error(`Invalid module name "${invalid}"`)
+
+    if (this.running.has(instanceId)) {
+      throw new Error('A module operation is already running for this instance')
+    }
+
+    this.running.add(instanceId)
+    // Started again the same way afterwards: under the debugger, with the same launch profile
+    const startMode = odooProcessManager.getStartMode(instanceId)
+    const label = `${OPERATION_LABELS[operation]} ${modules.join(', ')}`
+    let operationError: unknown = null
+    try {
+      if (startMode) {
+        onProgress('Stopping server...', 0)
+        await odooProcessManager.stop(instanceId)
+      }
+
+      if (operation === 'uninstall') {
+        await this.runUninstall(instance, modules, label, onProgress)
+      } else {
+        await this.runUpdate(instance, operation, modules, label, onProgress)
+      }
+    } catch (error) {
+      operationError = error
+    } finally {
+      this.running.delete(instanceId)
+    }
+
+    if (startMode) {
+      onProgress('Starting server...', 100)
+      try {
+        await odooProcessManager.start(instanceId, startMode)
+      } catch (error) {
+        // The failure of the operation itself is the one to report
+        if (!operationError) {
+          const message = error instanceof Error ? error.message : String(error)
+          onProgress(`Server failed to restart: ${message}`, 100)
+          throw new Error(`${label} done, but the server failed to restart: ${message}`)
+        }
+      }
+    }
+    if (operationError) throw operationError
+  }
+
+  isRunning(instanceId: string): boolean {
+    return this.running.has(instanceId)
+  }
+
+  /** odoo-bin -i/-u ... --stop-after-init, progress from the module loader's debug output */
+  private runUpdate(
+    instance: OdooInstance,
+    operation: 'install' | 'upgrade',
+    modules: string[],
+    label: string,
+    onProgress: ProgressCallback
+  ): Promise<void> {
+    return this.spawnOdoo(
+      instance,
+      null,
+      [
+        operation === 'install' ? '-i' : '-u',
+        modules.join(','),
+        '--stop-after-init',
+        '--no-http',
+        '--log-handler=odoo.modules.loading:DEBUG'
+      ],
+      null,
+      label,
+      onProgress
+    )
+  }
+
+  /** Uninstalling has no command line flag: go through the shell */
+  private runUninstall(
+    instance: OdooInstance,
+    modules: string[],
+    label: string,
+    onProgress: ProgressCallback
+  ): Promise<void> {
+    const script = [
+      `modules = env['ir.module.module'].search([('name', 'in', ${JSON.stringify(modules)}), ('state', '=', 'installed')])`,
+      'modules.button_immediate_uninstall()',
+      'env.cr.commit()',
+      ''
+    ].join('\n')
+
+    return this.spawnOdoo(instance, 'shell', ['--no-http'], script, label, onProgress)
+  }
+
+  private spawnOdoo(
+    instance: OdooInstance,
+    command: 'shell' | null,
+    extraArgs: string[],
+    stdin: string | null,
+    label: string,
+    onProgress: ProgressCallback
+  ): Promise<void> {
+    const pythonBin = venvManager.getPythonBin(instance.venvPath)
+    const odooBin = join(instance.odooPath, 'odoo-bin')
+
+    if (!existsSync(pythonBin)) {
+      throw new Error(`Python not found at ${pythonBin}. The virtual environment may be corrupted.`)
+    }
+
+    // odoo-bin <command> must come before the options
+    const args = [
+      odooBin,
+      ...(command ? [command] : []),
+      '-c', instance.configPath,
+      '-d', instance.dbName,
+      ...extraArgs
+    ]
+
+    return new Promise<void>((resolve, reject) => {
+      onProgress(`${label}...`, 5)
+
+      const child = spawn(pythonBin, args, {
+        cwd: instance.basePath,
+        stdio: [stdin === null ? 'ignore' : 'pipe', 'pipe', 'pipe'],
+        env: {
+          ...process.env,
+          PYTHONUNBUFFERED: '1'
+        }
+      })
+
+      if (stdin !== null) {
+        child.stdin?.end(stdin)
+      }
+
+      let lastModule = ''
+      let errorOutput = ''
+      let inTraceback = false
+
+      const handleData = (data: Buffer): void => {
+        for (const line of data.toString().split('\n').filter(Boolean)) {
+          // odoo.modules.loading (DEBUG): "Loading module sale (12/45)"
+          const moduleMatch = line.match(/Loading module (\w+) \((\d+)\/(\d+)\)/)
+          if (moduleMatch && moduleMatch[1] !== lastModule) {
+            lastModule = moduleMatch[1]
+            const percent = 10 + Math.round((parseInt(moduleMatch[2], 10) / parseInt(moduleMatch[3], 10)) * 80)
+            onProgress(`Loading module: ${lastModule}...`, percent)
+          } else if (line.includes('updating modules list')) {
+            onProgress('Updating modules list...', 10)
+          } else if (line.includes('Modules loaded')) {
+            onProgress('Modules loaded, finalizing...', 92)
+          }
+
+          if (line.startsWith('Traceback')) inTraceback = true
+          if (inTraceback || line.includes(' ERROR ') || line.includes(' CRITICAL ')) {
+            errorOutput += line + '\n'
+          }
+        }
+      }
+
+      child.stdout?.on('data', handleData)
+      child.stderr?.on('data', handleData)
+
+      child.on('close', (code) => {
+        if (code === 0 && !errorOutput) {
+          onProgress('Done', 100)
+          resolve()
+        } else {
+          reject(new Error(
+            `${label} failed${code ? ` with exit code ${code}` : ''}` +
+            `${errorOutput ? `:\n${errorOutput.slice(-1000)}` : ''}`
+          ))
+        }
+      })
+
+      child.on('error', (err) => {
+        reject(new Error(`Failed to start odoo-bin: ${err.message}`))
+      })
+    })
+  }
+}
+
+export const moduleManager = new ModuleManager()
@@ -0,0 +1,156 @@
+import { spawn } from 'child_process'
+import { mkdir, rm, writeFile } from 'fs/promises'
+import { join } from 'path'
+import { randomUUID } from 'crypto'
+import type { OdooInstance } from '@shared/types/odoo'
+import { ODOO_VERSION_CONFIG } from '@shared/constants/odooVersions'
+import { instanceStore } from '../../store/InstanceStore'
+import { venvManager } from '../python/VenvManager'
+import { execCommand } from '../platform/ShellExecutor'
+import { odooProcessManager } from './OdooProcessManager'
+
+type ProgressCallback = (message: string, percent: number) => void
+
+/** What is needed to neutralize a database, also before the instance is saved */
+export type NeutralizeTarget = Pick<
+  OdooInstance,
+  'version' | 'venvPath' | 'odooPath' | 'configPath' | 'basePath' | 'dbName' | 'dbUser'
+>
+
+/**
+ * Equivalent of the neutralize.sql files shipped with Odoo 16.0+, for 14.0/15.0.
+ * Every statement is guarded so databases without the related module still pass.
+ */
+const NEUTRALIZE_SQL = `
+DO $$
+BEGIN
+  -- Scheduled actions (keep the autovacuum job)
+  UPDATE ir_cron SET active = false
+   WHERE id NOT IN (
+     SELECT res_id FROM ir_model_data
+      WHERE model = 'ir.cron' AND module = 'base' AND name = 'autovacuum_job'
+   );
+
+  -- Outgoing and incoming mail servers
+  UPDATE ir_mail_server SET active = false;
+  IF to_regclass('fetchmail_server') IS NOT NULL THEN
+    UPDATE fetchmail_server SET active = false;
+  END IF;
+
+  -- Payment acquirers (renamed payment_provider in 16.0)
+  IF to_regclass('payment_acquirer') IS NOT NULL THEN
+    UPDATE payment_acquirer SET state = 'disabled' WHERE state = 'enabled';
+  END IF;
+
+  -- IAP accounts: keep the token but make it unusable
+  IF to_regclass('iap_account') IS NOT NULL THEN
+    UPDATE iap_account SET account_token = REGEXP_REPLACE(account_token, '(\\+.*)?$', '+disabled');
+  END IF;
+
+  -- Enterprise subscription and neutralization marker
+  DELETE FROM ir_config_parameter WHERE key IN ('database.enterprise_code', 'database.expiration_date');
+  INSERT INTO ir_config_parameter (key, value, create_date, write_date)
+  VALUES ('database.is_neutralized', 'True', now(), now())
+  ON CONFLICT (key) DO UPDATE SET value = 'True';
+END $$;
+`
+
+class NeutralizeManager {
+  /** Neutralize the active database of an instance and record when it happened */
+  async neutralize(instanceId: string): Promise<string> {
+    const instance = instanceStore.get(instanceId)
+    if (!instance) throw new Error('Instance not found')
+
+    if (odooProcessManager.isRunning(instanceId)) {
+      throw new Error('Stop the instance before neutralizing its database')
+    }
+
+    await this.neutralizeDatabase(instance, () => {})
+
+    const neutralizedAt = new Date().toISOString()
+    instanceStore.setNeutralized(instanceId, instance.dbName, neutralizedAt)
+    return neutralizedAt
+  }
+
+  /**
+   * Disable everything that talks to the outside world in a production copy:
+   * `odoo-bin neutralize` where available, the SQL script otherwise.
+   */
+  async neutralizeDatabase(target: NeutralizeTarget, onProgress: ProgressCallback): Promise<void> {
+    if (ODOO_VERSION_CONFIG[target.version].neutralizeCommand) {
+      await this.runNeutralizeCommand(target, onProgress)
+    } else {
+      await this.runNeutralizeSql(target, onProgress)
+    }
+  }
+
+  private async runNeutralizeSql(target: NeutralizeTarget, onProgress: ProgressCallback): Promise<void> {
+    onProgress('Running neutralization script...', 10)
+
+    const tmpDir = join(target.basePath, 'tmp')
+    const sqlPath = join(tmpDir, `neutralize-${randomUUID()}.sql`)
+    await mkdir(tmpDir, { recursive: true })
+    await writeFile(sqlPath, NEUTRALIZE_SQL, 'utf-8')
+
+    try {
+      await execCommand(
+        `psql -U ${target.dbUser} -d ${target.dbName} -q -v ON_ERROR_STOP=1 -f "${sqlPath}"`,
+        120000
+      )
+      onProgress('Database neutralized', 100)
+    } finally {
+      await rm(sqlPath, { force: true }).catch(() => {})
+    }
+  }
+
+  private runNeutralizeCommand(target: NeutralizeTarget, onProgress: ProgressCallback): Promise<void> {
+    const pythonBin = venvManager.getPythonBin(target.venvPath)
+    const odooBin = join(target.odooPath, 'odoo-bin')
+
+    return new Promise<void>((resolve, reject) => {
+      onProgress('Neutralizing database...', 10)
+
+      const child = spawn(
+        pythonBin,
+        [odooBin, 'neutralize', '-c', target.configPath, '-d', target.dbName],
+        {
+          cwd: target.basePath,
+          stdio: ['ignore', 'pipe', 'pipe'],
+          env: {
+            ...process.env,
+            PYTHONUNBUFFERED: '1'
+          }
+        }
+      )
+
+      let errorOutput = ''
+      const handleData = (data: Buffer): void => {
+        for (const line of data.toString().split('\n').filter(Boolean)) {
+          if (line.includes('ERROR') || line.includes('CRITICAL')) {
+            errorOutput += line + '\n'
+          }
+        }
+      }
+
+      child.stdout?.on('data', handleData)
+      child.stderr?.on('data', handleData)
+
+      child.on('close', (code) => {
+        if (code === 0) {
+          onProgress('Database neutralized', 100)
+          resolve()
+        } else {
+          reject(new Error(
+            `Neutralization failed with exit code ${code}${errorOutput ? `:\n${errorOutput.slice(0, 500)}` : ''}`
+          ))
+        }
+      })
+
+      child.on('error', (err) => {
+        reject(new Error(`Failed to start neutralization: ${err.message}`))
+      })
+    })
+  }
+}
+
+export const neutralizeManager = new NeutralizeManager()
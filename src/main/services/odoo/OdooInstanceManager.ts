@@ -1,15 +1,38 @@
-import { mkdir, writeFile, rm } from 'fs/promises'
+import { mkdir, writeFile, readFile, rm, stat } from 'fs/promises'
 import { existsSync } from 'fs'
-import { join } from 'path'
-import { spawn } from 'child_process'
+import { createServer } from 'net'
+import { basename, dirname, join, resolve } from 'path'
 import { randomUUID } from 'crypto'
 import { BrowserWindow } from 'electron'
-import type { OdooInstance, CreateInstanceArgs } from '@shared/types/odoo'
-import { ODOO_VERSION_CONFIG } from '@shared/constants/odooVersions'
+import type {
+  OdooInstance,
+  OdooVersion,
+  CreateInstanceArgs,
+  DetectedInstance,
+  DetectedAddonsPath,
+  DuplicateInstanceArgs,
+  ImportInstanceArgs,
+  PinnedRevision,
+  SourceState,
+  SourceTree,
+  SourceUpdate
+} from '@shared/types/odoo'
+import type { AddonRepo } from '@shared/types/addon'
+import { ODOO_VERSION_CONFIG, SUPPORTED_VERSIONS } from '@shared/constants/odooVersions'
+import {
+  DEFAULT_HTTP_PORT,
+  DEFAULT_LONGPOLLING_PORT,
+  DEFAULT_DB_HOST,
+  DEFAULT_DB_PORT
+} from '@shared/constants/defaults'
 import { instanceStore } from '../../store/InstanceStore'
 import { settingsStore } from '../../store/SettingsStore'
 import { secureStore } from '../../store/SecureStore'
+import { testRunStore } from '../../store/TestRunStore'
 import { odooRepository } from './OdooRepository'
+import { neutralizeManager } from './NeutralizeManager'
+import { addonWatcher } from './AddonWatcher'
+import { addonManager } from './AddonManager'
 import { venvManager } from '../../services/python/VenvManager'
 import { pipManager } from '../../services/python/PipManager'
 import { databaseManager } from '../../services/postgres/DatabaseManager'
@@ -18,7 +41,23 @@ import { platformDetector } from '../../services/platform/PlatformDetector'
 
 type ProgressCallback = (step: string, message: string, percent: number) => void
 
+/** Where config files usually are in a checkout, relative to the folder being imported */
+const CONFIG_CANDIDATES = ['odoo.conf', '.odoorc', 'odoo.cfg', 'conf/odoo.conf', 'config/odoo.conf', 'etc/odoo.conf']
+
+/** Where the Odoo sources usually are, relative to the folder being imported */
+const SOURCE_CANDIDATES = ['.', 'odoo', 'community', 'src/odoo', 'odoo-src']
+
+const VENV_NAMES = ['venv', '.venv', 'env']
+
+/** Older names of the port options, given the value of the current one when a config is copied */
+const PORT_OPTION_ALIASES: Record<string, string> = {
+  xmlrpc_port: 'http_port',
+  gevent_port: 'longpolling_port'
+}
+
 export class OdooInstanceManager {
+  private updatingSources = new Set<string>()
+
   async createInstance(
     args: CreateInstanceArgs,
     onProgress: ProgressCallback
@@ -39,6 +78,20 @@ export class OdooInstanceManager {
       throw new Error(`Port ${args.longpollingPort} is already in use by another instance`)
     }
 
+    const dbSource = args.dbSource || 'init'
+    if (dbSource === 'restore' && (!args.dbSourcePath || !existsSync(args.dbSourcePath))) {
+      throw new Error('Backup file to restore was not found')
+    }
+    if (dbSource === 'clone') {
+      if (!args.dbTemplate) throw new Error('Select a database to clone')
+      if (args.dbTemplate === args.dbName) {
+        throw new Error('The new database name must differ from the database being cloned')
+      }
+    }
+    if (dbSource !== 'init' && await databaseManager.databaseExists(args.dbName)) {
+      throw new Error(`Database "${args.dbName}" already exists`)
+    }
+
     const id = randomUUID()
     const workspacePath = settingsStore.getWorkspacePath()
     const basePath = join(workspacePath, args.name)
@@ -53,9 +106,9 @@ export class OdooInstanceManager {
       await mkdir(basePath, { recursive: true })
       await mkdir(dataDir, { recursive: true })
 
-      // Step 2: Clone Odoo Community (5-30%)
-      onProgress('clone', 'Cloning Odoo Community...', 5)
-      await odooRepository.clone(
+      // Step 2: Check out Odoo Community from the source cache (5-30%)
+      onProgress('clone', 'Checking out Odoo Community...', 5)
+      await odooRepository.checkoutFromCache(
         versionConfig.repoUrl,
         versionConfig.branch,
         odooPath,
@@ -65,18 +118,29 @@ export class OdooInstanceManager {
       // Step 3: Clone Enterprise (if needed) (30-40%)
       let enterprisePath: string | undefined
       if (args.edition === 'enterprise') {
-        onProgress('clone-enterprise', 'Cloning Odoo Enterprise...', 30)
+        onProgress('clone-enterprise', 'Checking out Odoo Enterprise...', 30)
         enterprisePath = join(basePath, 'enterprise')
         const githubToken = secureStore.getGitHubToken()
         if (!githubToken) {
           throw new Error('GitHub token required for Enterprise edition. Set it in Settings.')
         }
-        await odooRepository.cloneWithToken(
+        await odooRepository.checkoutFromCache(
           versionConfig.enterpriseRepoUrl,
           versionConfig.branch,
           enterprisePath,
-          githubToken,
-          (msg, pct) => onProgress('clone-enterprise', msg, 30 + Math.round(pct * 0.1))
+          (msg, pct) => onProgress('clone-enterprise', msg, 30 + Math.round(pct * 0.08)),
+          githubToken
+        )
+      }
+
+      // Hold the sources at the requested revision, before requirements are installed for it
+      let pinnedRevision: PinnedRevision | undefined
+      if (args.revision?.trim()) {
+        onProgress('revision', `Checking out ${args.revision.trim()}...`, 38)
+        pinnedRevision = await this.checkoutRevision(
+          { odooPath, enterprisePath, version: args.version },
+          args.revision.trim(),
+          (msg, pct) => onProgress('revision', msg, 38 + Math.round(pct * 0.02))
         )
       }
 
@@ -99,8 +163,11 @@ export class OdooInstanceManager {
       )
 
       // Step 6: Create PostgreSQL database (60-62%)
+      // Restored and cloned databases are created in step 8 instead
       onProgress('database', 'Creating database...', 60)
-      await databaseManager.createDatabase(args.dbName, args.dbUser)
+      if (dbSource === 'init') {
+        await databaseManager.createDatabase(args.dbName, args.dbUser)
+      }
 
       // Step 7: Generate odoo.conf (62-65%)
       onProgress('config', 'Generating configuration...', 62)
@@ -120,15 +187,61 @@ export class OdooInstanceManager {
       })
       await writeFile(configPath, configContent, 'utf-8')
 
-      // Step 8: Initialize database with base module (65-95%)
-      onProgress('init-db', 'Initializing database (installing base module)...', 65)
-      await this.initializeDatabase(
-        venvPath,
-        odooPath,
-        configPath,
-        basePath,
-        (msg, pct) => onProgress('init-db', msg, 65 + Math.round(pct * 0.30))
-      )
+      const filestorePath = join(dataDir, 'filestore', args.dbName)
+      if (dbSource === 'restore') {
+        // Step 8: Restore the database from a backup (65-90%)
+        onProgress('restore-db', 'Restoring database from backup...', 65)
+        await databaseManager.restoreFromFile(
+          {
+            dbName: args.dbName,
+            dbUser: args.dbUser,
+            filePath: args.dbSourcePath!,
+            filestorePath,
+            workDir: join(basePath, 'tmp'),
+            expectedVersion: args.version
+          },
+          (_step, msg, pct) => onProgress('restore-db', msg, 65 + Math.round(pct * 0.25))
+        )
+      } else if (dbSource === 'clone') {
+        // Step 8: Copy an existing local database (65-90%)
+        onProgress('restore-db', `Copying database ${args.dbTemplate}...`, 65)
+        const sourceInstance = instanceStore.getAll()
+          .find((i) => instanceStore.getDatabases(i.id).includes(args.dbTemplate!))
+        await databaseManager.cloneDatabase(
+          args.dbTemplate!,
+          args.dbName,
+          args.dbUser,
+          sourceInstance ? databaseManager.getFilestorePath(sourceInstance, args.dbTemplate) : undefined,
+          filestorePath
+        )
+      } else {
+        // Step 8: Initialize database with base module (65-95%)
+        onProgress('init-db', 'Initializing database (installing base module)...', 65)
+        await databaseManager.initializeDatabase(
+          { venvPath, odooPath, configPath, basePath },
+          args.dbName,
+          (msg, pct) => onProgress('init-db', msg, 65 + Math.round(pct * 0.30))
+        )
+      }
+
+      // Existing data comes from production: disable mail, crons, ... (90-95%)
+      let neutralizedAt: string | undefined
+      if (dbSource !== 'init' && args.neutralize !== false) {
+        onProgress('neutralize', 'Neutralizing database...', 90)
+        await neutralizeManager.neutralizeDatabase(
+          {
+            version: args.version,
+            venvPath,
+            odooPath,
+            configPath,
+            basePath,
+            dbName: args.dbName,
+            dbUser: args.dbUser
+          },
+          (msg, pct) => onProgress('neutralize', msg, 90 + Math.round(pct * 0.05))
+        )
+        neutralizedAt = new Date().toISOString()
+      }
 
       // Step 9: Save instance metadata (95-100%)
       onProgress('saving', 'Saving instance...', 96)
@@ -152,9 +265,12 @@ export class OdooInstanceManager {
         dbPassword: args.dbPassword,
         dbHost: args.dbHost,
         dbPort: args.dbPort,
+        databases: [args.dbName],
         pythonVersion,
         pythonPath,
-        createdAt: new Date().toISOString()
+        createdAt: new Date().toISOString(),
+        neutralizedDatabases: neutralizedAt ? { [args.dbName]: neutralizedAt } : undefined,
+        pinnedRevision
       }
 
       instanceStore.save(instance)
@@ -165,6 +281,7 @@ export class OdooInstanceManager {
       // Cleanup on failure: remove directory AND drop database
       if (existsSync(basePath)) {
         await rm(basePath, { recursive: true, force: true }).catch(() => {})
+        await odooRepository.pruneCache()
       }
       try {
         await databaseManager.dropDatabase(args.dbName, args.dbUser)
@@ -175,102 +292,459 @@ export class OdooInstanceManager {
     }
   }
 
-  async deleteInstance(instanceId: string): Promise<void> {
-    const instance = instanceStore.get(instanceId)
+  /** Look at an existing checkout, from its folder or config file, without changing anything */
+  async detectExisting(path: string): Promise<DetectedInstance> {
+    if (!existsSync(path)) throw new Error(`${path} does not exist`)
+
+    const isFile = (await stat(path)).isFile()
+    const basePath = isFile ? dirname(path) : path
+    const configPath = isFile
+      ? path
+      : CONFIG_CANDIDATES.map((candidate) => join(basePath, candidate)).find((p) => existsSync(p))
+    const options = configPath ? await this.readConfigOptions(configPath) : {}
+
+    const addonsEntries = (options.addons_path || '')
+      .split(',')
+      .map((entry) => entry.trim())
+      .filter(Boolean)
+      .map((entry) => this.resolveConfigPath(entry, basePath))
+
+    const odooPath = this.findOdooSources(basePath, addonsEntries)
+    if (!odooPath) {
+      throw new Error(`No Odoo sources found in ${basePath}: expected odoo-bin and odoo/release.py`)
+    }
+    const version = await this.readOdooVersion(odooPath)
+
+    const corePaths = [join(odooPath, 'addons'), join(odooPath, 'odoo', 'addons')]
+    let enterprisePath: string | undefined
+    const addonsPaths: DetectedAddonsPath[] = []
+    for (const entry of addonsEntries) {
+      if (corePaths.includes(entry) || addonsPaths.some((p) => p.path === entry)) continue
+      if (!existsSync(entry)) continue
+      if (!enterprisePath && this.isEnterprise(entry)) {
+        enterprisePath = entry
+        continue
+      }
+      const git = await odooRepository.describe(entry)
+      addonsPaths.push({ path: entry, git: git || undefined })
+    }
+    // Without a config, enterprise can only be found next to the sources
+    if (!configPath) {
+      enterprisePath = [join(basePath, 'enterprise'), join(dirname(odooPath), 'enterprise')]
+        .find((candidate) => this.isEnterprise(candidate))
+    }
+
+    const venvPath = [...new Set([basePath, odooPath, dirname(odooPath)])]
+      .flatMap((dir) => VENV_NAMES.map((name) => join(dir, name)))
+      .find((candidate) => existsSync(venvManager.getPythonBin(candidate)))
+
+    return {
+      basePath,
+      odooPath,
+      version,
+      edition: enterprisePath ? 'enterprise' : 'community',
+      enterprisePath,
+      venvPath,
+      configPath,
+      dataDir: options.data_dir ? this.resolveConfigPath(options.data_dir, basePath) : platformDetector.odooDataDir,
+      httpPort: Number(options.http_port || options.xmlrpc_port) || DEFAULT_HTTP_PORT,
+      longpollingPort: Number(options.longpolling_port || options.gevent_port) || DEFAULT_LONGPOLLING_PORT,
+      dbName: options.db_name,
+      dbUser: options.db_user || settingsStore.get().defaultDbUser,
+      dbPassword: options.db_password || '',
+      dbHost: options.db_host || DEFAULT_DB_HOST,
+      dbPort: Number(options.db_port) || DEFAULT_DB_PORT,
+      addonsPaths
+    }
+  }
+
+  /**
+   * Register an existing checkout as an instance. Nothing is cloned, installed
+   * or initialized: the sources, venv, config and database are used as they are.
+   * A config file is only written when the checkout has none.
+   */
+  async importInstance(args: ImportInstanceArgs): Promise<OdooInstance> {
+    const detected = await this.detectExisting(args.path)
+
+    const name = args.name.trim()
+    if (!name) throw new Error('Enter a name for the instance')
+    if (instanceStore.findByName(name)) {
+      throw new Error(`Instance "${name}" already exists`)
+    }
+
+    const venvPath = args.venvPath || detected.venvPath
+    if (!venvPath || !existsSync(venvManager.getPythonBin(venvPath))) {
+      throw new Error('No virtual environment found next to the Odoo sources. Select the one used to run it.')
+    }
+
+    const dbName = args.dbName?.trim() || detected.dbName
+    if (!dbName) throw new Error('The config has no db_name: enter the database to use')
+
+    const configPath = detected.configPath || join(detected.basePath, 'odoo.conf')
+    const managed = instanceStore.getAll().find((i) => i.configPath === configPath)
+    if (managed) throw new Error(`This checkout is already managed as "${managed.name}"`)
+
+    for (const port of [detected.httpPort, detected.longpollingPort]) {
+      const other = instanceStore.findByPort(port)
+      if (other) {
+        throw new Error(`Port ${port} is already used by "${other.name}". Change it in ${configPath} before importing.`)
+      }
+    }
+
+    if (!detected.configPath) {
+      const addonsPaths = [join(detected.odooPath, 'addons'), join(detected.odooPath, 'odoo', 'addons')]
+      if (detected.enterprisePath) addonsPaths.push(detected.enterprisePath)
+      await writeFile(configPath, this.generateConfig({
+        addons_paths: addonsPaths.join(','),
+        db_host: detected.dbHost,
+        db_port: String(detected.dbPort),
+        db_user: detected.dbUser,
+        db_password: detected.dbPassword,
+        db_name: dbName,
+        http_port: String(detected.httpPort),
+        longpolling_port: String(detected.longpollingPort),
+        data_dir: detected.dataDir
+      }), 'utf-8')
+    }
+
+    const now = new Date().toISOString()
+    const addonRepos: AddonRepo[] = detected.addonsPaths
+      .filter((entry) => entry.git)
+      .map((entry) => ({
+        id: randomUUID(),
+        url: entry.git!.url,
+        branch: entry.git!.branch,
+        name: basename(entry.path),
+        clonedPath: entry.path,
+        status: 'ready',
+        addedAt: now
+      }))
+    const extraAddonsPaths = detected.addonsPaths.filter((entry) => !entry.git).map((entry) => entry.path)
+
+    const pythonPath = await this.getBasePython(venvPath)
+    const instance: OdooInstance = {
+      id: randomUUID(),
+      name,
+      version: detected.version,
+      edition: detected.edition,
+      status: 'stopped',
+      basePath: detected.basePath,
+      odooPath: detected.odooPath,
+      enterprisePath: detected.enterprisePath,
+      venvPath,
+      configPath,
+      dataDir: detected.dataDir,
+      extraAddonsPaths: extraAddonsPaths.length > 0 ? extraAddonsPaths : undefined,
+      httpPort: detected.httpPort,
+      longpollingPort: detected.longpollingPort,
+      dbName,
+      dbUser: detected.dbUser,
+      dbPassword: detected.dbPassword,
+      dbHost: detected.dbHost,
+      dbPort: detected.dbPort,
+      databases: [dbName],
+      pythonVersion: await this.getPythonVersion(venvManager.getPythonBin(venvPath)),
+      pythonPath,
+      createdAt: now,
+      importedAt: now,
+      addonRepos
+    }
+
+    instanceStore.save(instance)
+    return instance
+  }
 
-    if (instance) {
-      // Drop database
+  /**
+   * Create a copy of an instance under a new name and free ports: sources at
+   * the same commits from the cache, the packages of its venv, its config,
+   * addon repos and launch settings, and its database (createdb -T) or a new
+   * one. Nothing is downloaded or installed unless the copy cannot be made.
+   */
+  async duplicateInstance(
+    args: DuplicateInstanceArgs,
+    onProgress: ProgressCallback
+  ): Promise<OdooInstance> {
+    const source = instanceStore.get(args.sourceId)
+    if (!source) throw new Error('Instance not found')
+
+    const name = args.name.trim()
+    const dbName = args.dbName.trim()
+    if (!name) throw new Error('Enter a name for the new instance')
+    if (instanceStore.findByName(name)) {
+      throw new Error(`Instance "${name}" already exists`)
+    }
+    await databaseManager.validateNewDatabaseName(dbName)
+    // createdb -T needs exclusive access to the template
+    if (args.copyDatabase && source.status !== 'stopped' && source.status !== 'error') {
+      throw new Error(`Stop "${source.name}" before copying its database`)
+    }
+
+    const versionConfig = ODOO_VERSION_CONFIG[source.version]
+    const githubToken = secureStore.getGitHubToken() || undefined
+    if (source.enterprisePath && !githubToken) {
+      throw new Error('GitHub token required for Enterprise edition. Set it in Settings.')
+    }
+
+    const { httpPort, longpollingPort } = await this.findFreePorts()
+    const basePath = join(settingsStore.getWorkspacePath(), name)
+    const odooPath = join(basePath, 'odoo')
+    const enterprisePath = source.enterprisePath ? join(basePath, 'enterprise') : undefined
+    const venvPath = join(basePath, 'venv')
+    const configPath = join(basePath, 'odoo.conf')
+    const dataDir = join(basePath, 'data')
+    if (existsSync(basePath)) throw new Error(`${basePath} already exists`)
+
+    try {
+      onProgress('directory', 'Creating project directory...', 2)
+      await mkdir(dataDir, { recursive: true })
+
+      onProgress('clone', 'Checking out Odoo Community...', 5)
+      await this.checkoutSameCommit(source.odooPath, versionConfig.repoUrl, versionConfig.branch, odooPath,
+        (msg, pct) => onProgress('clone', msg, 5 + Math.round(pct * 0.2)))
+
+      if (source.enterprisePath && enterprisePath) {
+        onProgress('clone-enterprise', 'Checking out Odoo Enterprise...', 25)
+        await this.checkoutSameCommit(source.enterprisePath, versionConfig.enterpriseRepoUrl, versionConfig.branch,
+          enterprisePath, (msg, pct) => onProgress('clone-enterprise', msg, 25 + Math.round(pct * 0.1)), githubToken)
+      }
+
+      onProgress('venv', 'Creating virtual environment...', 35)
+      await venvManager.create(source.pythonPath, venvPath, (msg, pct) =>
+        onProgress('venv', msg, 35 + Math.round(pct * 0.05))
+      )
+
+      onProgress('pip', `Copying the Python packages of ${source.name}...`, 40)
       try {
-        await databaseManager.dropDatabase(instance.dbName, instance.dbUser)
+        await venvManager.copyPackages(source.venvPath, venvPath)
       } catch {
-        // Database may not exist, continue
+        // The source venv is gone or laid out differently: fall back to a regular install
+        await pipManager.installRequirements(venvPath, join(odooPath, 'requirements.txt'), (msg, pct) =>
+          onProgress('pip', msg, 40 + Math.round(pct * 0.15))
+        )
       }
 
-      // Remove files
-      if (existsSync(instance.basePath)) {
-        await rm(instance.basePath, { recursive: true, force: true })
+      onProgress('addons', 'Copying addon repositories...', 55)
+      const addonRepos = await addonManager.copyRepos(source, basePath, (msg, pct) =>
+        onProgress('addons', msg, 55 + Math.round(pct * 0.1))
+      )
+
+      onProgress('config', 'Copying configuration...', 65)
+      const addonsPaths = [join(odooPath, 'addons'), join(odooPath, 'odoo', 'addons')]
+      if (enterprisePath) addonsPaths.push(enterprisePath)
+      addonsPaths.push(...addonRepos.map((r) => r.clonedPath), ...(source.extraAddonsPaths || []))
+      await this.copyConfig(source, configPath, {
+        addons_path: addonsPaths.join(','),
+        db_name: dbName,
+        http_port: String(httpPort),
+        longpolling_port: String(longpollingPort),
+        data_dir: dataDir
+      }, basePath)
+
+      const filestorePath = join(dataDir, 'filestore', dbName)
+      if (args.copyDatabase) {
+        onProgress('restore-db', `Copying database ${source.dbName}...`, 68)
+        await databaseManager.cloneDatabase(
+          source.dbName,
+          dbName,
+          source.dbUser,
+          databaseManager.getFilestorePath(source, source.dbName),
+          filestorePath
+        )
+      } else {
+        onProgress('database', 'Creating database...', 68)
+        await databaseManager.createDatabase(dbName, source.dbUser)
+        onProgress('init-db', 'Initializing database (installing base module)...', 70)
+        await databaseManager.initializeDatabase(
+          { venvPath, odooPath, configPath, basePath },
+          dbName,
+          (msg, pct) => onProgress('init-db', msg, 70 + Math.round(pct * 0.25))
+        )
+      }
+
+      onProgress('saving', 'Saving instance...', 96)
+      const instance: OdooInstance = {
+        id: randomUUID(),
+        name,
+        version: source.version,
+        edition: source.edition,
+        status: 'stopped',
+        basePath,
+        odooPath,
+        enterprisePath,
+        venvPath,
+        configPath,
+        extraAddonsPaths: source.extraAddonsPaths,
+        httpPort,
+        longpollingPort,
+        dbName,
+        dbUser: source.dbUser,
+        dbPassword: source.dbPassword,
+        dbHost: source.dbHost,
+        dbPort: source.dbPort,
+        databases: [dbName],
+        pythonVersion: source.pythonVersion,
+        pythonPath: source.pythonPath,
+        createdAt: new Date().toISOString(),
+        pinnedRevision: source.pinnedRevision,
+        neutralizedDatabases: args.copyDatabase && source.neutralizedDatabases?.[source.dbName]
+          ? { [dbName]: source.neutralizedDatabases[source.dbName] }
+          : undefined,
+        addonRepos,
+        launchProfiles: source.launchProfiles,
+        activeLaunchProfileId: source.activeLaunchProfileId,
+        addonWatch: source.addonWatch,
+        restartPolicy: source.restartPolicy
+      }
+
+      instanceStore.save(instance)
+      addonWatcher.sync(instance.id)
+
+      onProgress('done', 'Instance duplicated successfully!', 100)
+      return instance
+    } catch (error) {
+      if (existsSync(basePath)) {
+        await rm(basePath, { recursive: true, force: true }).catch(() => {})
+        await odooRepository.pruneCache()
       }
+      await databaseManager.dropDatabase(dbName, source.dbUser).catch(() => {})
+      throw error
     }
+  }
 
-    // Always remove from store (even if instance data was partial)
-    instanceStore.delete(instanceId)
+  /** Branch and commit checked out in the Odoo and enterprise source trees */
+  async getSources(instanceId: string): Promise<SourceState[]> {
+    const instance = instanceStore.get(instanceId)
+    if (!instance) throw new Error('Instance not found')
+
+    return Promise.all(
+      this.getSourceTrees(instance).map(async ({ source, path }) => ({
+        source,
+        path,
+        branch: await odooRepository.getBranch(path).catch(() => null),
+        commit: await odooRepository.getHead(path)
+      }))
+    )
   }
 
-  private async initializeDatabase(
-    venvPath: string,
-    odooPath: string,
-    configPath: string,
-    basePath: string,
-    onProgress: (message: string, percent: number) => void
-  ): Promise<void> {
-    const pythonBin = venvManager.getPythonBin(venvPath)
-    const odooBin = join(odooPath, 'odoo-bin')
-
-    return new Promise<void>((resolve, reject) => {
-      onProgress('Starting database initialization...', 0)
-
-      const child = spawn(pythonBin, [odooBin, '-c', configPath, '-i', 'base', '--stop-after-init'], {
-        cwd: basePath,
-        stdio: ['ignore', 'pipe', 'pipe'],
-        env: {
-          ...process.env,
-          PYTHONUNBUFFERED: '1'
-        }
-      })
+  /**
+   * Fetch and fast-forward the Odoo and enterprise sources to the tip of their
+   * branch, then optionally reinstall requirements.txt, which may have changed.
+   * A running server keeps the code it loaded until it is restarted.
+   */
+  async updateSources(
+    instanceId: string,
+    reinstallRequirements: boolean,
+    onProgress: ProgressCallback
+  ): Promise<SourceUpdate[]> {
+    const instance = instanceStore.get(instanceId)
+    if (!instance) throw new Error('Instance not found')
+    if (instance.pinnedRevision) {
+      throw new Error(`Sources are pinned to ${instance.pinnedRevision.revision}: unpin them to follow the branch`)
+    }
+    if (this.updatingSources.has(instanceId)) {
+      throw new Error('The sources of this instance are already being updated')
+    }
 
-      let lastModule = ''
-      let hasError = false
-      let errorOutput = ''
-
-      const handleData = (data: Buffer): void => {
-        const text = data.toString()
-        const lines = text.split('\n').filter(Boolean)
-
-        for (const line of lines) {
-          // Track module loading progress
-          const moduleMatch = line.match(/Loading module (\w+)/)
-          if (moduleMatch && moduleMatch[1] !== lastModule) {
-            lastModule = moduleMatch[1]
-            onProgress(`Loading module: ${lastModule}...`, 30)
-          }
-
-          // Track specific phases
-          if (line.includes('loading base module')) {
-            onProgress('Loading base module...', 10)
-          } else if (line.includes('updating modules list')) {
-            onProgress('Updating modules list...', 50)
-          } else if (line.includes('Modules loaded')) {
-            onProgress('Modules loaded, finalizing...', 80)
-          } else if (line.includes('odoo.modules.loading: Modules loaded')) {
-            onProgress('Database initialized successfully', 95)
-          }
-
-          // Detect critical errors
-          if (line.includes('CRITICAL') || (line.includes('ERROR') && line.includes('odoo.modules'))) {
-            hasError = true
-            errorOutput += line + '\n'
-          }
-        }
+    this.updatingSources.add(instanceId)
+    try {
+      const trees = this.getSourceTrees(instance)
+      const span = reinstallRequirements ? 70 / trees.length : 100 / trees.length
+      const updates: SourceUpdate[] = []
+
+      for (const [index, { source, path }] of trees.entries()) {
+        const start = Math.round(index * span)
+        // Checkouts from the source cache are detached: follow the version branch
+        const branch = (await odooRepository.getBranch(path)) || ODOO_VERSION_CONFIG[instance.version].branch
+        const githubToken = source === 'enterprise' ? secureStore.getGitHubToken() || undefined : undefined
+
+        onProgress(source, `Updating ${source === 'odoo' ? 'Odoo' : 'Enterprise'} ${branch}...`, start)
+        const range = await odooRepository.fastForward(
+          path,
+          branch,
+          (msg, pct) => onProgress(source, msg, start + Math.round((pct * span) / 100)),
+          githubToken
+        )
+        updates.push({ source, branch, ...range })
+      }
+
+      if (reinstallRequirements) {
+        onProgress('pip', 'Installing Python dependencies...', 70)
+        await pipManager.installRequirements(
+          instance.venvPath,
+          join(instance.odooPath, 'requirements.txt'),
+          (msg, pct) => onProgress('pip', msg, 70 + Math.round(pct * 0.3))
+        )
       }
 
-      child.stdout?.on('data', handleData)
-      child.stderr?.on('data', handleData)
-
-      child.on('close', (code) => {
-        if (code === 0) {
-          onProgress('Database initialized', 100)
-          resolve()
-        } else if (hasError) {
-          reject(new Error(`Database initialization failed:\n${errorOutput.slice(0, 500)}`))
-        } else {
-          reject(new Error(`Database initialization failed with exit code ${code}`))
+      onProgress('done', 'Sources updated', 100)
+      return updates
+    } finally {
+      this.updatingSources.delete(instanceId)
+    }
+  }
+
+  /**
+   * Hold the sources of a stopped instance at a past revision (commit SHA,
+   * tag or date), or release them with null: they stay where they are and
+   * the next source update brings them to the branch tip.
+   */
+  async pinRevision(
+    instanceId: string,
+    revision: string | null,
+    onProgress: ProgressCallback
+  ): Promise<PinnedRevision | null> {
+    const instance = instanceStore.get(instanceId)
+    if (!instance) throw new Error('Instance not found')
+
+    if (!revision?.trim()) {
+      instanceStore.update(instanceId, { pinnedRevision: undefined })
+      return null
+    }
+    if (instance.status !== 'stopped' && instance.status !== 'error') {
+      throw new Error('Stop the server before changing the revision of its sources')
+    }
+    if (this.updatingSources.has(instanceId)) {
+      throw new Error('The sources of this instance are already being updated')
+    }
+
+    this.updatingSources.add(instanceId)
+    try {
+      const pinned = await this.checkoutRevision(instance, revision.trim(), (msg, pct) =>
+        onProgress('pin', msg, pct)
+      )
+      instanceStore.update(instanceId, { pinnedRevision: pinned })
+      onProgress('done', `Pinned to ${pinned.odooCommit.slice(0, 10)}`, 100)
+      return pinned
+    } finally {
+      this.updatingSources.delete(instanceId)
+    }
+  }
+
+  async deleteInstance(instanceId: string): Promise<void> {
+    const instance = instanceStore.get(instanceId)
+    addonWatcher.unwatch(instanceId)
+
+    // Imported checkouts belong to the user: only forget about them
+    if (instance && !instance.importedAt) {
+      // Drop databases
+      for (const dbName of instanceStore.getOwnedDatabases(instanceId)) {
+        try {
+          await databaseManager.dropDatabase(dbName, instance.dbUser)
+        } catch {
+          // Database may not exist, continue
         }
-      })
+      }
 
-      child.on('error', (err) => {
-        reject(new Error(`Failed to start database initialization: ${err.message}`))
-      })
-    })
+      // Remove files, then the worktrees they held in the source cache
+      if (existsSync(instance.basePath)) {
+        await rm(instance.basePath, { recursive: true, force: true })
+        await odooRepository.pruneCache()
+      }
+    }
+
+    // Always remove from store (even if instance data was partial)
+    instanceStore.delete(instanceId)
+    testRunStore.removeAll(instanceId)
   }
 
   private async findPython(recommendedVersion: string): Promise<string> {
@@ -295,6 +769,191 @@ export class OdooInstanceManager {
     throw new Error(`Python ${recommendedVersion} not found. Please install it.`)
   }
 
+  /** Check out the revision in the Odoo sources, and enterprise as it was at the time of that commit */
+  private async checkoutRevision(
+    instance: Pick<OdooInstance, 'odooPath' | 'enterprisePath' | 'version'>,
+    revision: string,
+    onProgress: (message: string, percent: number) => void
+  ): Promise<PinnedRevision> {
+    const branch = ODOO_VERSION_CONFIG[instance.version].branch
+    const enterpriseSpan = instance.enterprisePath ? 0.5 : 1
+
+    const odooCommit = await odooRepository.checkoutRevision(
+      instance.odooPath,
+      branch,
+      revision,
+      (msg, pct) => onProgress(msg, Math.round(pct * enterpriseSpan))
+    )
+
+    let enterpriseCommit: string | undefined
+    if (instance.enterprisePath) {
+      const { date } = (await odooRepository.getHead(instance.odooPath))!
+      enterpriseCommit = await odooRepository.checkoutRevision(
+        instance.enterprisePath,
+        branch,
+        date,
+        (msg, pct) => onProgress(msg, 50 + Math.round(pct * 0.5)),
+        secureStore.getGitHubToken() || undefined
+      )
+    }
+
+    return { revision, odooCommit, enterpriseCommit, pinnedAt: new Date().toISOString() }
+  }
+
+  /** Check out a source tree from the cache at the commit another checkout of it is on */
+  private async checkoutSameCommit(
+    sourceDir: string,
+    repoUrl: string,
+    branch: string,
+    target: string,
+    onProgress: (message: string, percent: number) => void,
+    githubToken?: string
+  ): Promise<void> {
+    await odooRepository.checkoutFromCache(repoUrl, branch, target, (msg, pct) =>
+      onProgress(msg, Math.round(pct * 0.8)), githubToken
+    )
+
+    const [wanted, current] = await Promise.all([odooRepository.getHead(sourceDir), odooRepository.getHead(target)])
+    if (wanted && current && wanted.hash !== current.hash) {
+      await odooRepository.checkoutRevision(target, branch, wanted.hash, (msg, pct) =>
+        onProgress(msg, 80 + Math.round(pct * 0.2)), githubToken
+      )
+    }
+  }
+
+  /**
+   * Write the config of source to configPath with some options replaced, so
+   * its other settings (workers, limits, admin password, ...) are kept. Other
+   * paths into the source instance, like logfile, are moved to basePath.
+   */
+  private async copyConfig(
+    source: OdooInstance,
+    configPath: string,
+    options: Record<string, string>,
+    basePath: string
+  ): Promise<void> {
+    const content = existsSync(source.configPath) ? await readFile(source.configPath, 'utf-8') : '[options]\n'
+    const remaining = new Set(Object.keys(options))
+    let section = ''
+
+    const lines = content.split('\n').map((line) => {
+      const header = line.match(/^\s*\[(.+)\]\s*$/)
+      if (header) {
+        section = header[1].trim()
+        return line
+      }
+      const match = line.match(/^\s*([\w.]+)\s*=\s*(.*)$/)
+      if (section !== 'options' || !match) return line
+
+      const [, key, value] = match
+      const option = key in options ? key : PORT_OPTION_ALIASES[key]
+      if (option && option in options) {
+        remaining.delete(option)
+        return `${key} = ${options[option]}`
+      }
+      return value.startsWith(source.basePath) ? `${key} = ${basePath}${value.slice(source.basePath.length)}` : line
+    })
+
+    if (!lines.some((l) => l.trim() === '[options]')) lines.unshift('[options]')
+    const optionsIdx = lines.findIndex((l) => l.trim() === '[options]')
+    lines.splice(optionsIdx + 1, 0, ...[...remaining].map((key) => `${key} = ${options[key]}`))
+    await writeFile(configPath, lines.join('\n'), 'utf-8')
+  }
+
+  /** First pair of ports 10 apart from the defaults that no instance uses and nothing listens on */
+  private async findFreePorts(): Promise<{ httpPort: number; longpollingPort: number }> {
+    for (let offset = 10; offset < 1000; offset += 10) {
+      const ports = [DEFAULT_HTTP_PORT + offset, DEFAULT_LONGPOLLING_PORT + offset]
+      if (ports.some((port) => instanceStore.findByPort(port))) continue
+      if ((await this.isPortInUse(ports[0])) || (await this.isPortInUse(ports[1]))) continue
+      return { httpPort: ports[0], longpollingPort: ports[1] }
+    }
+    throw new Error('No free ports found for the new instance')
+  }
+
+  private isPortInUse(port: number): Promise<boolean> {
+    return new Promise((resolve) => {
+      const server = createServer()
+      server.once('error', () => resolve(true))
+      server.once('listening', () => {
+        server.close(() => resolve(false))
+      })
+      server.listen(port, '127.0.0.1')
+    })
+  }
+
+  private getSourceTrees(instance: OdooInstance): Array<{ source: SourceTree; path: string }> {
+    const trees: Array<{ source: SourceTree; path: string }> = [{ source: 'odoo', path: instance.odooPath }]
+    if (instance.enterprisePath) trees.push({ source: 'enterprise', path: instance.enterprisePath })
+    return trees
+  }
+
+  /** Options of the [options] section, unset values (False, None, empty) left out */
+  private async readConfigOptions(configPath: string): Promise<Record<string, string>> {
+    const content = await readFile(configPath, 'utf-8')
+    const options: Record<string, string> = {}
+    let inOptions = false
+    for (const rawLine of content.split('\n')) {
+      const line = rawLine.trim()
+      if (line.startsWith('[')) {
+        inOptions = line === '[options]'
+        continue
+      }
+      if (!inOptions || !line || line.startsWith('#') || line.startsWith(';')) continue
+
+      const eq = line.indexOf('=')
+      if (eq === -1) continue
+      const value = line.slice(eq + 1).trim()
+      if (value && value !== 'False' && value !== 'None') {
+        options[line.slice(0, eq).trim()] = value
+      }
+    }
+    return options
+  }
+
+  /** Odoo expands ~ and resolves relative paths from the working directory, basePath when we start it */
+  private resolveConfigPath(path: string, basePath: string): string {
+    const expanded = path.startsWith('~') ? join(platformDetector.homeDir, path.slice(1)) : path
+    return resolve(basePath, expanded)
+  }
+
+  private findOdooSources(basePath: string, addonsEntries: string[]): string | undefined {
+    // addons_path points at <sources>/addons and <sources>/odoo/addons
+    const fromConfig = addonsEntries.flatMap((entry) => [dirname(entry), dirname(dirname(entry))])
+    const candidates = [...fromConfig, ...SOURCE_CANDIDATES.map((candidate) => join(basePath, candidate))]
+    return candidates.find((dir) => existsSync(join(dir, 'odoo-bin')) && existsSync(join(dir, 'odoo', 'release.py')))
+  }
+
+  private async readOdooVersion(odooPath: string): Promise<OdooVersion> {
+    const release = await readFile(join(odooPath, 'odoo', 'release.py'), 'utf-8')
+    // version_info = (17, 0, 0, FINAL, 0, ''); SaaS releases start with 'saas~17'
+    const match = release.match(/^version_info\s*=\s*\(\s*(\d+)\s*,\s*(\d+)/m)
+    const version = match ? `${match[1]}.${match[2]}` : null
+    if (!version || !SUPPORTED_VERSIONS.includes(version as OdooVersion)) {
+      throw new Error(
+        `Unsupported Odoo version${version ? ` ${version}` : ''} in ${odooPath}. ` +
+        `Supported versions: ${SUPPORTED_VERSIONS.join(', ')}`
+      )
+    }
+    return version as OdooVersion
+  }
+
+  private isEnterprise(dir: string): boolean {
+    return existsSync(join(dir, 'web_enterprise', '__manifest__.py'))
+  }
+
+  /** Interpreter the venv was created from, as recorded in its pyvenv.cfg */
+  private async getBasePython(venvPath: string): Promise<string> {
+    const cfg = await readFile(join(venvPath, 'pyvenv.cfg'), 'utf-8').catch(() => '')
+    const executable = cfg.match(/^executable\s*=\s*(.+)$/m)?.[1].trim()
+    if (executable) return executable
+
+    const home = cfg.match(/^home\s*=\s*(.+)$/m)?.[1].trim()
+    const homeBin = home && join(home, platformDetector.isWindows ? 'python.exe' : 'python3')
+    if (homeBin && existsSync(homeBin)) return homeBin
+    return venvManager.getPythonBin(venvPath)
+  }
+
   private async getPythonVersion(pythonPath: string): Promise<string> {
     const result = await execCommandSafe(`${pythonPath} --version`)
     if (!result) return 'unknown'
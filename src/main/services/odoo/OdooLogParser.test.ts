@@ -0,0 +1,130 @@
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import type { LogRecord } from '@shared/types/log'
+import { LogRecordGrouper, parseLogLine, toIsoTimestamp } from './OdooLogParser'
+
+describe('parseLogLine', () => {
+  it('parses a server record outside of a request', () => {
+    const parsed = parseLogLine(
+      '2024-05-14 09:12:30,514 4121 INFO ? odoo.service.server: HTTP service (werkzeug) running on localhost:8069'
+    )
+    expect(parsed).toEqual({
+      timestamp: '2024-05-14 09:12:30,514',
+      pid: 4121,
+      level: 'INFO',
+      db: '?',
+      logger: 'odoo.service.server',
+      message: 'HTTP service (werkzeug) running on localhost:8069'
+    })
+  })
+
+  it('parses a request record, colons in the message included', () => {
+    const parsed = parseLogLine(
+      '2024-05-14 09:12:35,102 4121 INFO mydb werkzeug: 127.0.0.1 - - [14/May/2024 09:12:35] "POST /web/dataset/call_kw/res.partner/web_search_read HTTP/1.1" 200 - 3 0.002 0.006'
+    )
+    expect(parsed).toMatchObject({ db: 'mydb', logger: 'werkzeug' })
+    expect(parsed?.message).toBe(
+      '127.0.0.1 - - [14/May/2024 09:12:35] "POST /web/dataset/call_kw/res.partner/web_search_read HTTP/1.1" 200 - 3 0.002 0.006'
+    )
+  })
+
+  it('parses every Odoo log level', () => {
+    for (const level of ['DEBUG', 'INFO', 'WARNING', 'ERROR', 'CRITICAL']) {
+      expect(parseLogLine(`2024-05-14 09:12:30,001 4121 ${level} mydb odoo.models: message`)?.level).toBe(level)
+    }
+  })
+
+  it('parses a record with an empty message', () => {
+    const parsed = parseLogLine('2024-05-14 09:12:30,001 4121 WARNING mydb odoo.addons.base.models.ir_ui_view:')
+    expect(parsed?.message).toBe('')
+  })
+
+  it('does not parse continuation lines', () => {
+    expect(parseLogLine('Traceback (most recent call last):')).toBeNull()
+    expect(parseLogLine('  File "/opt/odoo/odoo/http.py", line 2190, in __call__')).toBeNull()
+    expect(parseLogLine('odoo.exceptions.UserError: The order cannot be cancelled')).toBeNull()
+  })
+})
+
+describe('toIsoTimestamp', () => {
+  it('reads Odoo timestamps as UTC', () => {
+    expect(toIsoTimestamp('2024-05-14 09:12:30,514')).toBe('2024-05-14T09:12:30.514Z')
+  })
+})
+
+describe('LogRecordGrouper', () => {
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  function group(...chunks: string[]): LogRecord[] {
+    const records: LogRecord[] = []
+    const grouper = new LogRecordGrouper((record) => records.push(record))
+    for (const chunk of chunks) grouper.write(chunk)
+    grouper.flush()
+    return records
+  }
+
+  it('attaches a traceback to the record before it', () => {
+    const records = group(`2024-05-14 09:13:01,777 4121 ERROR mydb odoo.http: Exception during request handling.
+Traceback (most recent call last):
+  File "/opt/odoo/odoo/http.py", line 2190, in __call__
+    response = request._serve_db()
+odoo.exceptions.UserError: The order cannot be cancelled
+2024-05-14 09:13:01,780 4121 INFO mydb werkzeug: 127.0.0.1 - - [14/May/2024 09:13:01] "POST /web/action/load HTTP/1.1" 200 - 12 0.010 0.025
+`)
+
+    expect(records).toHaveLength(2)
+    expect(records[0]).toMatchObject({
+      timestamp: '2024-05-14T09:13:01.777Z',
+      pid: 4121,
+      level: 'ERROR',
+      db: 'mydb',
+      logger: 'odoo.http',
+      message: 'Exception during request handling.',
+      traceback: `Traceback (most recent call last):
+  File "/opt/odoo/odoo/http.py", line 2190, in __call__
+    response = request._serve_db()
+odoo.exceptions.UserError: The order cannot be cancelled`
+    })
+    expect(records[0].raw.split('\n')).toHaveLength(5)
+    expect(records[1].traceback).toBeUndefined()
+  })
+
+  it('joins lines split across chunks and drops carriage returns', () => {
+    const records = group(
+      '2024-05-14 09:12:30,514 4121 INFO ? odoo.service.ser',
+      'ver: HTTP service running\r\n2024-05-14 09:12:30,600 4121 INFO ? odoo: done\r\n'
+    )
+
+    expect(records.map((r) => [r.logger, r.message])).toEqual([
+      ['odoo.service.server', 'HTTP service running'],
+      ['odoo', 'done']
+    ])
+  })
+
+  it('keeps output that is not an Odoo log record', () => {
+    const records = group('Usage: odoo-bin server [options]\n\nodoo-bin: error: no such option: --foo\n')
+
+    expect(records.map((r) => r.message)).toEqual(['Usage: odoo-bin server [options]'])
+    expect(records[0].traceback).toBe('odoo-bin: error: no such option: --foo')
+    expect(records[0].logger).toBeUndefined()
+  })
+
+  it('emits a record once the output has been idle', () => {
+    vi.useFakeTimers()
+    const records: LogRecord[] = []
+    const grouper = new LogRecordGrouper((record) => records.push(record), 200)
+
+    grouper.write(
+      '2024-05-14 09:13:01,777 4121 ERROR mydb odoo.http: Exception during request handling.\nTraceback (most recent call last):\n'
+    )
+    vi.advanceTimersByTime(100)
+    grouper.write('odoo.exceptions.UserError: boom\n')
+    vi.advanceTimersByTime(100)
+    expect(records).toEqual([])
+
+    vi.advanceTimersByTime(100)
+    expect(records).toHaveLength(1)
+    expect(records[0].traceback).toBe('Traceback (most recent call last):\nodoo.exceptions.UserError: boom')
+  })
+})
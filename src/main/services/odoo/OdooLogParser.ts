@@ -0,0 +1,132 @@
+import type { LogRecord } from '@shared/types/log'
+
+export interface ParsedLogLine {
+  timestamp: string
+  pid: number
+  level: string
+  /** Database name, '?' outside of a request/cron */
+  db: string
+  logger: string
+  message: string
+}
+
+/** Odoo log format: 2024-01-01 12:00:00,000 PID LEVEL db logger: message */
+const LOG_LINE_PATTERN =
+  /^(\d{4}-\d{2}-\d{2} \d{2}:\d{2}:\d{2},\d+) (\d+) (DEBUG|INFO|WARNING|ERROR|CRITICAL) (\S+) ([^\s:]+): ?(.*)$/
+
+/**
+ * Parse the first line of an Odoo log record. Continuation lines (tracebacks,
+ * multi-line messages) return null.
+ */
+export function parseLogLine(line: string): ParsedLogLine | null {
+  const match = line.match(LOG_LINE_PATTERN)
+  if (!match) return null
+  return {
+    timestamp: match[1],
+    pid: parseInt(match[2], 10),
+    level: match[3],
+    db: match[4],
+    logger: match[5],
+    message: match[6]
+  }
+}
+
+/** Odoo logs in UTC: it sets TZ=UTC when imported */
+export function toIsoTimestamp(timestamp: string): string {
+  return new Date(`${timestamp.replace(' ', 'T').replace(',', '.')}Z`).toISOString()
+}
+
+/** Record for output that is not an Odoo log line (process errors, plain prints) */
+export function createLogRecord(message: string, level = 'INFO'): LogRecord {
+  return { timestamp: new Date().toISOString(), level, message, raw: message }
+}
+
+/** Lines of a record still waiting for their continuation */
+interface PendingRecord {
+  parsed: ParsedLogLine | null
+  first: string
+  continuation: string[]
+}
+
+/**
+ * Turns raw process output into log records: continuation lines are attached
+ * to the record before them. A record is emitted when the next one starts, or
+ * once the output has been idle for a moment, since a traceback has no end marker.
+ */
+export class LogRecordGrouper {
+  private current: PendingRecord | null = null
+  private partial = ''
+  private idleTimer: ReturnType<typeof setTimeout> | null = null
+
+  constructor(
+    private onRecord: (record: LogRecord) => void,
+    private idleFlushMs = 200
+  ) {}
+
+  /** Feed a chunk of output, lines may be split across chunks */
+  write(chunk: string): void {
+    const lines = (this.partial + chunk).split('\n')
+    this.partial = lines.pop() || ''
+    for (const line of lines) {
+      this.push(line.replace(/\r$/, ''))
+    }
+    this.scheduleFlush()
+  }
+
+  /** Emit everything still buffered */
+  flush(): void {
+    if (this.idleTimer) {
+      clearTimeout(this.idleTimer)
+      this.idleTimer = null
+    }
+    if (this.partial) {
+      this.push(this.partial)
+      this.partial = ''
+    }
+    this.emitCurrent()
+  }
+
+  private push(line: string): void {
+    if (!line.trim()) return
+
+    const parsed = parseLogLine(line)
+    if (!parsed && this.current) {
+      this.current.continuation.push(line)
+      return
+    }
+
+    this.emitCurrent()
+    this.current = { parsed, first: line, continuation: [] }
+  }
+
+  private emitCurrent(): void {
+    if (!this.current) return
+    const { parsed, first, continuation } = this.current
+    this.current = null
+
+    const raw = [first, ...continuation].join('\n')
+    const traceback = continuation.length > 0 ? continuation.join('\n') : undefined
+    this.onRecord(
+      parsed
+        ? {
+            timestamp: toIsoTimestamp(parsed.timestamp),
+            pid: parsed.pid,
+            level: parsed.level,
+            db: parsed.db,
+            logger: parsed.logger,
+            message: parsed.message,
+            traceback,
+            raw
+          }
+        : { ...createLogRecord(first), traceback, raw }
+    )
+  }
+
+  private scheduleFlush(): void {
+    if (this.idleTimer) clearTimeout(this.idleTimer)
+    this.idleTimer = setTimeout(() => {
+      this.idleTimer = null
+      this.flush()
+    }, this.idleFlushMs)
+  }
+}
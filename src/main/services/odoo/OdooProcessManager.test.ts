@@ -0,0 +1,221 @@
+import { EventEmitter } from 'events'
+import { mkdtemp, rm, writeFile } from 'fs/promises'
+import { tmpdir } from 'os'
+import { join } from 'path'
+import type { ChildProcess } from 'child_process'
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest'
+import type { LaunchProfile, OdooInstance } from '@shared/types/odoo'
+import { odooProcessManager } from './OdooProcessManager'
+
+const { spawn, state } = vi.hoisted(() => ({
+  spawn: vi.fn(),
+  state: { instance: undefined as OdooInstance | undefined }
+}))
+
+vi.mock('child_process', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('child_process')>()),
+  spawn
+}))
+vi.mock('electron', () => ({
+  BrowserWindow: { getAllWindows: () => [] },
+  Notification: { isSupported: () => false }
+}))
+vi.mock('../../store/InstanceStore', () => ({
+  instanceStore: {
+    get: () => state.instance,
+    update: () => {},
+    getLaunchProfile: (_id: string, profileId?: string) => {
+      const wanted = profileId ?? state.instance?.activeLaunchProfileId
+      return state.instance?.launchProfiles?.find((p) => p.id === wanted)
+    }
+  }
+}))
+vi.mock('../python/VenvManager', () => ({
+  venvManager: { getPythonBin: (venvPath: string) => join(venvPath, 'python') }
+}))
+vi.mock('../python/PipManager', () => ({ pipManager: { ensurePackage: async () => false } }))
+vi.mock('./LogFileManager', () => ({ logFileManager: { append: () => {}, close: async () => {} } }))
+vi.mock('./HealthMonitor', () => ({ healthMonitor: { start: () => {}, stop: () => {} } }))
+vi.mock('./ResourceMonitor', () => ({ resourceMonitor: { start: () => {}, stop: () => {} } }))
+
+let dir: string
+let child: EventEmitter
+
+beforeAll(async () => {
+  dir = await mkdtemp(join(tmpdir(), 'odoo-instance-'))
+  await writeFile(join(dir, 'python'), '')
+  await writeFile(join(dir, 'odoo-bin'), '')
+})
+
+afterAll(async () => {
+  await rm(dir, { recursive: true, force: true })
+})
+
+beforeEach(() => {
+  spawn.mockReset()
+  spawn.mockImplementation(() => {
+    child = Object.assign(new EventEmitter(), { stdout: new EventEmitter(), stderr: new EventEmitter() })
+    return child as unknown as ChildProcess
+  })
+})
+
+afterEach(() => {
+  stopServer()
+})
+
+/** The server exits, so that it can be started again */
+function stopServer(): void {
+  child?.emit('close', 0, null)
+}
+
+function profile(overrides: Partial<LaunchProfile> = {}): LaunchProfile {
+  return { id: 'p1', name: 'Dev', devModes: [], logHandlers: [], extraArgs: '', env: {}, ...overrides }
+}
+
+/** Start the instance and return the odoo-bin arguments after the common ones */
+async function startArgs(
+  options: {
+    config?: string
+    profiles?: LaunchProfile[]
+    activeProfileId?: string
+    profileId?: string
+    debug?: boolean
+  } = {}
+): Promise<string[]> {
+  stopServer()
+  const configPath = join(dir, 'odoo.conf')
+  await writeFile(configPath, options.config ?? '[options]\n')
+  state.instance = {
+    id: 'i1',
+    name: 'main',
+    dbName: 'main',
+    venvPath: dir,
+    odooPath: dir,
+    basePath: dir,
+    configPath,
+    httpPort: 0,
+    longpollingPort: 0,
+    launchProfiles: options.profiles,
+    activeLaunchProfileId: options.activeProfileId
+  } as OdooInstance
+
+  await odooProcessManager.start('i1', { debug: options.debug, profileId: options.profileId })
+  const [, args] = spawn.mock.lastCall as [string, string[]]
+  return args.slice(args.indexOf('main') + 1)
+}
+
+describe('launch profile arguments', () => {
+  it('passes nothing without a profile', async () => {
+    expect(await startArgs()).toEqual([])
+    expect(await startArgs({ profiles: [profile()], profileId: 'p1' })).toEqual([])
+  })
+
+  it('builds the odoo-bin options of a profile', async () => {
+    const args = await startArgs({
+      profiles: [
+        profile({
+          devModes: ['reload', 'qweb', 'xml'],
+          logLevel: 'debug_sql',
+          logHandlers: ['odoo.addons.sale:DEBUG', 'werkzeug:WARNING'],
+          workers: 2,
+          extraArgs: '--limit-time-real=0 --db-filter "^main$"'
+        })
+      ],
+      profileId: 'p1'
+    })
+
+    expect(args).toEqual([
+      '--dev=reload,qweb,xml',
+      '--log-level=debug_sql',
+      '--log-handler=odoo.addons.sale:DEBUG',
+      '--log-handler=werkzeug:WARNING',
+      '--workers=2',
+      '--limit-time-real=0',
+      '--db-filter',
+      '^main$'
+    ])
+  })
+
+  it('passes --workers=0 from a profile', async () => {
+    expect(await startArgs({ profiles: [profile({ workers: 0 })], profileId: 'p1' })).toEqual(['--workers=0'])
+  })
+
+  it('uses the active profile of the instance by default', async () => {
+    const profiles = [profile({ id: 'p1', logLevel: 'debug' }), profile({ id: 'p2', logLevel: 'warn' })]
+
+    expect(await startArgs({ profiles })).toEqual([])
+    expect(await startArgs({ profiles, activeProfileId: 'p2' })).toEqual(['--log-level=warn'])
+    expect(await startArgs({ profiles, activeProfileId: 'p2', profileId: 'p1' })).toEqual(['--log-level=debug'])
+  })
+
+  it('rejects an unknown profile', async () => {
+    const args = startArgs({ profiles: [profile()], profileId: 'nope' })
+    await expect(args).rejects.toThrow('Launch profile not found')
+    expect(spawn).not.toHaveBeenCalled()
+  })
+
+  it('leaves auto-reload and workers out under the debugger', async () => {
+    const profiles = [profile({ devModes: ['reload', 'qweb'], workers: 4 })]
+    const args = await startArgs({ profiles, profileId: 'p1', debug: true })
+    expect(args).toEqual(['--dev=qweb', '--workers=0'])
+  })
+
+  it('keeps qweb and xml of the all dev mode under the debugger', async () => {
+    const profiles = [profile({ devModes: ['all', 'xml', 'werkzeug'] })]
+    const args = await startArgs({ profiles, profileId: 'p1', debug: true })
+    expect(args).toEqual(['--dev=qweb,xml,werkzeug', '--workers=0'])
+  })
+
+  it('passes no empty --dev under the debugger', async () => {
+    const profiles = [profile({ devModes: ['reload'] })]
+    expect(await startArgs({ profiles, profileId: 'p1', debug: true })).toEqual(['--workers=0'])
+  })
+
+  it('still overrides the config auto-reload when the profile only enabled auto-reload', async () => {
+    const profiles = [profile({ devModes: ['reload'] })]
+    const args = await startArgs({ config: '[options]\ndev_mode = reload\n', profiles, profileId: 'p1', debug: true })
+    expect(args).toEqual(['--workers=0', '--dev=none'])
+  })
+})
+
+describe('config file dev_mode under the debugger', () => {
+  it('keeps a config without auto-reload', async () => {
+    expect(await startArgs({ config: '[options]\nhttp_port = 8069\n', debug: true })).toEqual(['--workers=0'])
+    expect(await startArgs({ config: '[options]\ndev_mode = qweb,xml\n', debug: true })).toEqual(['--workers=0'])
+  })
+
+  it('overrides auto-reload, keeping the other modes', async () => {
+    const args = await startArgs({ config: '[options]\ndev_mode = reload, qweb\n', debug: true })
+    expect(args).toEqual(['--workers=0', '--dev=qweb'])
+  })
+
+  it('overrides the all dev mode with qweb and xml', async () => {
+    const args = await startArgs({ config: '[options]\ndev_mode = all\n', debug: true })
+    expect(args).toEqual(['--workers=0', '--dev=qweb,xml'])
+  })
+
+  it('overrides a config enabling only auto-reload with a mode Odoo ignores', async () => {
+    const args = await startArgs({ config: '[options]\ndev_mode = reload\n', debug: true })
+    expect(args).toEqual(['--workers=0', '--dev=none'])
+  })
+
+  it('keeps the dev modes given in the extra arguments of a profile', async () => {
+    const config = '[options]\ndev_mode = reload\n'
+    for (const extraArgs of ['--dev=qweb', '--dev qweb']) {
+      const args = await startArgs({ config, profiles: [profile({ extraArgs })], profileId: 'p1', debug: true })
+      expect(args).toEqual([...extraArgs.split(' '), '--workers=0'])
+    }
+  })
+
+  it('keeps auto-reload without the debugger', async () => {
+    expect(await startArgs({ config: '[options]\ndev_mode = reload\n' })).toEqual([])
+  })
+
+  it('runs odoo-bin under debugpy', async () => {
+    await startArgs({ debug: true })
+
+    const [, args] = spawn.mock.lastCall as [string, string[]]
+    expect(args.slice(0, 3)).toEqual(['-m', 'debugpy', '--listen'])
+    expect(args[3]).toMatch(/^127\.0\.0\.1:\d+$/)
+  })
+})
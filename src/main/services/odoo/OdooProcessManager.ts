@@ -1,30 +1,95 @@
 import { spawn, type ChildProcess } from 'child_process'
+import { randomUUID } from 'crypto'
 import { existsSync } from 'fs'
-import { createServer } from 'net'
+import { mkdir, readFile, writeFile } from 'fs/promises'
+import { createServer, type AddressInfo } from 'net'
 import { join } from 'path'
 import { BrowserWindow, Notification } from 'electron'
-import type { InstanceStatus } from '@shared/types/odoo'
+import type {
+  CrashReport,
+  DebugSession,
+  InstanceHealth,
+  InstanceStatus,
+  LaunchProfile,
+  OdooInstance,
+  RestartPolicy
+} from '@shared/types/odoo'
+import { DEFAULT_RESTART_POLICY } from '@shared/constants/defaults'
 import { instanceStore } from '../../store/InstanceStore'
 import { venvManager } from '../python/VenvManager'
+import { pipManager } from '../python/PipManager'
 import { platformDetector } from '../platform/PlatformDetector'
+import { splitCommandLine } from '../platform/ShellExecutor'
+import type { LogRecord } from '@shared/types/log'
+import { LogRecordGrouper, createLogRecord } from './OdooLogParser'
+import { logFileManager } from './LogFileManager'
+import { healthMonitor } from './HealthMonitor'
+import { resourceMonitor } from './ResourceMonitor'
 
 interface ManagedProcess {
   child: ChildProcess
   instanceId: string
   readyDetected: boolean
+  logs: LogRecordGrouper
+  /** Last records, kept for crash reports */
+  recentLogs: LogRecord[]
+  startedAt: number
+  /** Set by stop(): the exit that follows is not a crash */
+  stopRequested: boolean
+  /** Set when running under debugpy */
+  debug?: DebugSession
+  profileId?: string
 }
 
+interface StartOptions {
+  /** Run odoo-bin under debugpy, listening on a free port */
+  debug?: boolean
+  /** Launch profile to use instead of the active one, '' for none */
+  profileId?: string
+  /** Automatic restart after a crash: keeps counting the retries */
+  afterCrash?: boolean
+}
+
+/** Log records attached to a crash report */
+const CRASH_LOG_RECORDS = 100
+
+/** A server that ran this long before crashing starts a new series of retries */
+const STABLE_UPTIME_MS = 5 * 60 * 1000
+
+const MAX_BACKOFF_SECONDS = 5 * 60
+
+const ENV_NAME_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*$/
+
+/** dev_mode values that make Odoo restart itself, which would drop the debugger */
+const RELOAD_DEV_MODES = ['reload', 'all']
+
+/**
+ * Stands in for an empty --dev, which Odoo reads as unset and replaces with the
+ * dev_mode of the config file. Odoo ignores dev modes it does not know.
+ */
+const NO_DEV_MODE = 'none'
+
 class OdooProcessManager {
   private processes = new Map<string, ManagedProcess>()
+  private restartTimers = new Map<string, ReturnType<typeof setTimeout>>()
+  /** Automatic restarts in the current series, per instance */
+  private crashRetries = new Map<string, number>()
+  private readyListeners: ((instanceId: string) => void)[] = []
 
-  async start(instanceId: string): Promise<void> {
+  async start(instanceId: string, options: StartOptions = {}): Promise<void> {
     if (this.processes.has(instanceId)) {
       throw new Error('Instance is already running')
     }
 
+    this.cancelScheduledRestart(instanceId)
+    if (!options.afterCrash) this.crashRetries.delete(instanceId)
+
     const instance = instanceStore.get(instanceId)
     if (!instance) throw new Error('Instance not found')
 
+    const profile = instanceStore.getLaunchProfile(instanceId, options.profileId)
+    if (options.profileId && !profile) throw new Error('Launch profile not found')
+
     // Validate paths exist on disk
     const pythonBin = venvManager.getPythonBin(instance.venvPath)
     const odooBin = join(instance.odooPath, 'odoo-bin')
@@ -61,68 +126,141 @@ class OdooProcessManager {
       lastStartedAt: new Date().toISOString()
     })
 
-    const args = [odooBin, '-c', instance.configPath]
+    // Always pass the active database explicitly, the instance may hold several
+    const profileArgs = this.profileArgs(profile, !!options.debug)
+    let args = [odooBin, '-c', instance.configPath, '-d', instance.dbName, ...profileArgs]
+    let debug: DebugSession | undefined
+
+    if (options.debug) {
+      try {
+        debug = await this.prepareDebug(instance)
+      } catch (error) {
+        this.broadcastStatus(instanceId, 'error')
+        instanceStore.update(instanceId, { status: 'error' })
+        throw error
+      }
+      args = [
+        '-m', 'debugpy', '--listen', `127.0.0.1:${debug.port}`,
+        ...args,
+        // Breakpoints are only hit in the main process, and auto-reload would restart it
+        '--workers=0',
+        ...(profileArgs.some((arg) => arg === '--dev' || arg.startsWith('--dev='))
+          ? []
+          : await this.debugDevModeArgs(instance))
+      ]
+    }
+
+    if (profile) {
+      this.broadcastLog(
+        instanceId,
+        createLogRecord(`Launch profile "${profile.name}": ${profileArgs.join(' ') || 'no extra arguments'}`)
+      )
+    }
 
     const child = spawn(pythonBin, args, {
       cwd: instance.basePath,
       stdio: ['ignore', 'pipe', 'pipe'],
       env: {
         ...process.env,
-        PYTHONUNBUFFERED: '1'
+        ...profile?.env,
+        PYTHONUNBUFFERED: '1',
+        // Odoo sources are not frozen modules, skip debugpy's warning about them
+        ...(debug ? { PYDEVD_DISABLE_FILE_VALIDATION: '1' } : {})
       }
     })
 
-    const managed: ManagedProcess = { child, instanceId, readyDetected: false }
+    const managed: ManagedProcess = {
+      child,
+      instanceId,
+      readyDetected: false,
+      logs: new LogRecordGrouper((record) => {
+        managed.recentLogs.push(record)
+        if (managed.recentLogs.length > CRASH_LOG_RECORDS) managed.recentLogs.shift()
+        this.broadcastLog(instanceId, record)
+      }),
+      recentLogs: [],
+      startedAt: Date.now(),
+      stopRequested: false,
+      debug,
+      profileId: profile?.id
+    }
     this.processes.set(instanceId, managed)
+    instanceStore.update(instanceId, { debugPort: debug?.port })
+
+    // Ready when the log says so or the HTTP probe first answers, whichever comes first
+    const markReady = (): void => {
+      if (managed.readyDetected || this.processes.get(instanceId) !== managed) return
+      managed.readyDetected = true
+      this.broadcastStatus(instanceId, 'running')
+      instanceStore.update(instanceId, { status: 'running' })
+      this.notify(`${instance.name} is running`, `Available on port ${instance.httpPort}`)
+      for (const listener of this.readyListeners) listener(instanceId)
+    }
+
+    healthMonitor.start(instance, {
+      onReady: markReady,
+      onHealthChange: (health) => this.handleHealthChange(instanceId, health)
+    })
+    if (child.pid) resourceMonitor.start(instanceId, child.pid)
 
     const handleData = (data: Buffer): void => {
-      const lines = data.toString().split('\n').filter(Boolean)
-      for (const line of lines) {
-        const parsed = this.parseLogLine(line)
-        this.broadcastLog(instanceId, line, parsed.level)
-
-        // Detect when Odoo is ready (only once)
-        if (
-          !managed.readyDetected &&
-          line.includes('HTTP service (werkzeug) running on')
-        ) {
-          managed.readyDetected = true
-          this.broadcastStatus(instanceId, 'running')
-          instanceStore.update(instanceId, { status: 'running' })
-          this.notify(`${instance.name} is running`, `Available on port ${instance.httpPort}`)
-        }
+      const text = data.toString()
+      managed.logs.write(text)
+
+      if (!managed.readyDetected && text.includes('HTTP service (werkzeug) running on')) {
+        markReady()
       }
     }
 
     child.stdout?.on('data', handleData)
     child.stderr?.on('data', handleData)
 
-    child.on('close', (code) => {
+    child.on('close', (code, signal) => {
+      managed.logs.flush()
       this.processes.delete(instanceId)
-      const status: InstanceStatus = code === 0 || code === null ? 'stopped' : 'error'
+      healthMonitor.stop(instanceId)
+      resourceMonitor.stop(instanceId)
+      // Killed by a signal it was not sent by stop() (OOM killer, segfault...) is a crash too
+      const crashed = !managed.stopRequested && code !== 0
+      const status: InstanceStatus = crashed ? 'error' : 'stopped'
       this.broadcastStatus(instanceId, status)
-      instanceStore.update(instanceId, { status })
-      if (code !== 0 && code !== null) {
-        this.broadcastLog(instanceId, `Process exited with code ${code}`, 'ERROR')
-        this.notify(`${instance.name} error`, `Process exited with code ${code}`)
+      instanceStore.update(instanceId, { status, debugPort: undefined, unhealthy: undefined })
+      if (crashed) {
+        const reason = code !== null ? `Process exited with code ${code}` : `Process killed by ${signal}`
+        this.broadcastLog(instanceId, createLogRecord(reason, 'ERROR'))
+        this.notify(`${instance.name} error`, reason)
+        this.handleCrash(instanceId, managed, code, signal)
       }
+      logFileManager.close(instanceId).catch(() => {})
     })
 
     child.on('error', (err) => {
       this.processes.delete(instanceId)
+      healthMonitor.stop(instanceId)
+      resourceMonitor.stop(instanceId)
       this.broadcastStatus(instanceId, 'error')
-      instanceStore.update(instanceId, { status: 'error' })
-      this.broadcastLog(instanceId, `Process error: ${err.message}`, 'ERROR')
+      instanceStore.update(instanceId, { status: 'error', debugPort: undefined, unhealthy: undefined })
+      this.broadcastLog(instanceId, createLogRecord(`Process error: ${err.message}`, 'ERROR'))
       this.notify(`${instance.name} error`, err.message)
+      logFileManager.close(instanceId).catch(() => {})
     })
   }
 
   async stop(instanceId: string): Promise<void> {
     const managed = this.processes.get(instanceId)
     if (!managed) {
+      // Stopping while waiting to restart after a crash cancels the restart
+      if (this.cancelScheduledRestart(instanceId)) {
+        this.broadcastStatus(instanceId, 'stopped')
+        instanceStore.update(instanceId, { status: 'stopped' })
+        return
+      }
       throw new Error('Instance is not running')
     }
 
+    managed.stopRequested = true
+    healthMonitor.stop(instanceId)
+
     this.broadcastStatus(instanceId, 'stopping')
     instanceStore.update(instanceId, { status: 'stopping' })
 
@@ -133,7 +271,7 @@ class OdooProcessManager {
       const safetyTimeout = setTimeout(() => {
         this.processes.delete(instanceId)
         this.broadcastStatus(instanceId, 'stopped')
-        instanceStore.update(instanceId, { status: 'stopped' })
+        instanceStore.update(instanceId, { status: 'stopped', debugPort: undefined, unhealthy: undefined })
         resolve()
       }, 15000)
 
@@ -155,24 +293,292 @@ class OdooProcessManager {
     })
   }
 
-  async restart(instanceId: string): Promise<void> {
-    if (this.processes.has(instanceId)) {
+  /** Start under debugpy and return where to attach */
+  async startDebug(instanceId: string, profileId?: string): Promise<DebugSession> {
+    await this.start(instanceId, { debug: true, profileId })
+    const debug = this.processes.get(instanceId)?.debug
+    if (!debug) throw new Error('The debug session ended right after starting')
+    return debug
+  }
+
+  /**
+   * Restart with the same mode: a debug session stays under the debugger.
+   * Without a profile, the one the server was started with is kept.
+   */
+  async restart(instanceId: string, profileId?: string): Promise<void> {
+    const mode = this.getStartMode(instanceId)
+    if (mode) {
       await this.stop(instanceId)
     }
-    await this.start(instanceId)
+    await this.start(instanceId, { debug: !!mode?.debug, profileId: profileId ?? mode?.profileId })
+  }
+
+  /** Called each time a server is up and serving requests */
+  onReady(listener: (instanceId: string) => void): void {
+    this.readyListeners.push(listener)
+  }
+
+  /** How the running server was started, to start it again the same way after stopping it */
+  getStartMode(instanceId: string): { debug: boolean; profileId: string } | undefined {
+    const managed = this.processes.get(instanceId)
+    if (!managed) return undefined
+    return { debug: !!managed.debug, profileId: managed.profileId ?? '' }
+  }
+
+  /** Validate and store the launch profiles of an instance */
+  saveLaunchProfiles(instanceId: string, profiles: LaunchProfile[], activeProfileId?: string): void {
+    if (!instanceStore.get(instanceId)) throw new Error('Instance not found')
+
+    const names = new Set<string>()
+    for (const profile of profiles) {
+      const name = profile.name.trim()
+      if (!name) throw new Error('Launch profiles need a name')
+      if (names.has(name)) throw new Error(`Duplicate launch profile name "${name}"`)
+      names.add(name)
+      if (profile.workers !== undefined && (!Number.isInteger(profile.workers) || profile.workers < 0)) {
+        throw new Error(`Profile "${name}": workers must be 0 or more`)
+      }
+      const badEnv = Object.keys(profile.env).find((key) => !ENV_NAME_PATTERN.test(key))
+      if (badEnv !== undefined) throw new Error(`Profile "${name}": invalid environment variable name "${badEnv}"`)
+    }
+
+    instanceStore.saveLaunchProfiles(
+      instanceId,
+      profiles.map((p) => ({ ...p, name: p.name.trim() })),
+      activeProfileId
+    )
+  }
+
+  setRestartPolicy(instanceId: string, policy: RestartPolicy): void {
+    if (!instanceStore.get(instanceId)) throw new Error('Instance not found')
+    if (!Number.isInteger(policy.maxRetries) || policy.maxRetries < 1 || policy.maxRetries > 20) {
+      throw new Error('Max retries must be between 1 and 20')
+    }
+    if (!(policy.backoffSeconds >= 1) || policy.backoffSeconds > MAX_BACKOFF_SECONDS) {
+      throw new Error(`Backoff must be between 1 and ${MAX_BACKOFF_SECONDS} seconds`)
+    }
+
+    instanceStore.update(instanceId, { restartPolicy: policy })
+    if (policy.mode === 'never') this.cancelScheduledRestart(instanceId)
+  }
+
+  clearCrashReports(instanceId: string): void {
+    instanceStore.update(instanceId, { crashReports: [] })
   }
 
   isRunning(instanceId: string): boolean {
     return this.processes.has(instanceId)
   }
 
+  /** Add a record to the instance log, stored and shown like Odoo's own output */
+  broadcastLog(instanceId: string, record: LogRecord): void {
+    logFileManager.append(instanceId, record)
+    for (const win of BrowserWindow.getAllWindows()) {
+      win.webContents.send('odoo:log-line', { instanceId, record })
+    }
+  }
+
   async stopAll(): Promise<void> {
+    for (const instanceId of [...this.restartTimers.keys()]) {
+      this.cancelScheduledRestart(instanceId)
+    }
     const stopPromises = Array.from(this.processes.keys()).map((id) =>
       this.stop(id).catch(() => {})
     )
     await Promise.all(stopPromises)
   }
 
+  private handleHealthChange(instanceId: string, health: InstanceHealth): void {
+    // A server paused on a breakpoint does not answer either, that is not a hang
+    if (this.processes.get(instanceId)?.debug) return
+
+    const wasUnhealthy = !!instanceStore.get(instanceId)?.unhealthy
+    if (health.healthy === !wasUnhealthy) return
+
+    instanceStore.update(instanceId, { unhealthy: health.healthy ? undefined : true })
+    for (const win of BrowserWindow.getAllWindows()) {
+      win.webContents.send('odoo:health-changed', { instanceId, health })
+    }
+    this.broadcastLog(
+      instanceId,
+      health.healthy
+        ? createLogRecord('The server answers its health check again')
+        : createLogRecord(`The server does not answer its health check: ${health.error}`, 'WARNING')
+    )
+  }
+
+  /** Record a crash report and schedule a restart if the policy allows one */
+  private handleCrash(
+    instanceId: string,
+    managed: ManagedProcess,
+    code: number | null,
+    signal: NodeJS.Signals | null
+  ): void {
+    const instance = instanceStore.get(instanceId)
+    if (!instance) return
+
+    const policy = instance.restartPolicy || DEFAULT_RESTART_POLICY
+    const uptimeMs = Date.now() - managed.startedAt
+    if (uptimeMs >= STABLE_UPTIME_MS) this.crashRetries.delete(instanceId)
+    const attempt = (this.crashRetries.get(instanceId) || 0) + 1
+    const willRestart = policy.mode === 'on-failure' && attempt <= policy.maxRetries
+
+    const report: CrashReport = {
+      id: randomUUID(),
+      crashedAt: new Date().toISOString(),
+      exitCode: code,
+      signal: signal || undefined,
+      uptimeSeconds: Math.round(uptimeMs / 1000),
+      logTail: managed.recentLogs,
+      restartAttempt: willRestart ? attempt : undefined
+    }
+    instanceStore.addCrashReport(instanceId, report)
+    for (const win of BrowserWindow.getAllWindows()) {
+      win.webContents.send('odoo:crashed', { instanceId, report })
+    }
+
+    if (!willRestart) {
+      if (policy.mode === 'on-failure') {
+        this.broadcastLog(
+          instanceId,
+          createLogRecord(`Not restarting: the server crashed ${policy.maxRetries} times in a row`, 'ERROR')
+        )
+      }
+      this.crashRetries.delete(instanceId)
+      return
+    }
+
+    this.crashRetries.set(instanceId, attempt)
+    const delaySeconds = Math.min(policy.backoffSeconds * 2 ** (attempt - 1), MAX_BACKOFF_SECONDS)
+    this.broadcastLog(
+      instanceId,
+      createLogRecord(`Restarting in ${delaySeconds}s (attempt ${attempt}/${policy.maxRetries})`, 'WARNING')
+    )
+
+    const timer = setTimeout(() => {
+      this.restartTimers.delete(instanceId)
+      this.start(instanceId, { debug: !!managed.debug, profileId: managed.profileId ?? '', afterCrash: true })
+        .catch((error) => {
+          this.broadcastLog(
+            instanceId,
+            createLogRecord(`Automatic restart failed: ${error instanceof Error ? error.message : error}`, 'ERROR')
+          )
+        })
+    }, delaySeconds * 1000)
+    this.restartTimers.set(instanceId, timer)
+  }
+
+  /** Returns whether a restart was pending */
+  private cancelScheduledRestart(instanceId: string): boolean {
+    const timer = this.restartTimers.get(instanceId)
+    if (!timer) return false
+
+    clearTimeout(timer)
+    this.restartTimers.delete(instanceId)
+    return true
+  }
+
+  /** odoo-bin options of a launch profile, with auto-reload left out under the debugger */
+  private profileArgs(profile: LaunchProfile | undefined, debug: boolean): string[] {
+    if (!profile) return []
+
+    const args: string[] = []
+    const modes = debug ? this.withoutReload(profile.devModes) : profile.devModes
+    if (modes.length > 0) args.push(`--dev=${modes.join(',')}`)
+    if (profile.logLevel) args.push(`--log-level=${profile.logLevel}`)
+    for (const handler of profile.logHandlers) args.push(`--log-handler=${handler}`)
+    if (profile.workers !== undefined && !debug) args.push(`--workers=${profile.workers}`)
+    args.push(...splitCommandLine(profile.extraArgs))
+    return args
+  }
+
+  /** Install debugpy in the venv if needed, pick its port and point launch.json at it */
+  private async prepareDebug(instance: OdooInstance): Promise<DebugSession> {
+    const installed = await pipManager.ensurePackage(instance.venvPath, 'debugpy', 'debugpy', (message) => {
+      this.broadcastLog(instance.id, createLogRecord(message))
+    })
+    if (installed) {
+      this.broadcastLog(instance.id, createLogRecord('debugpy installed in the virtual environment'))
+    }
+    const port = await this.findFreePort()
+    return { port, launchConfigPath: await this.writeLaunchConfig(instance, port) }
+  }
+
+  /** Override a dev_mode from the config file that enables auto-reload, keeping its other values */
+  private async debugDevModeArgs(instance: OdooInstance): Promise<string[]> {
+    const content = await readFile(instance.configPath, 'utf-8').catch(() => '')
+    const match = content.match(/^\s*dev_mode\s*=\s*(.*)$/m)
+    if (!match) return []
+
+    const modes = match[1].split(',').map((m) => m.trim()).filter(Boolean)
+    if (!modes.some((m) => RELOAD_DEV_MODES.includes(m))) return []
+    const kept = this.withoutReload(modes)
+    return [`--dev=${kept.length > 0 ? kept.join(',') : NO_DEV_MODE}`]
+  }
+
+  private withoutReload(modes: string[]): string[] {
+    // 'all' also enables qweb and xml, which stay useful while debugging
+    const kept = modes.flatMap((m) => (m === 'all' ? ['qweb', 'xml'] : RELOAD_DEV_MODES.includes(m) ? [] : [m]))
+    return [...new Set(kept)]
+  }
+
+  /**
+   * Add (or refresh) an attach configuration in <basePath>/.vscode/launch.json.
+   * Other configurations are kept, a file that is not plain JSON is left alone.
+   */
+  private async writeLaunchConfig(instance: OdooInstance, port: number): Promise<string | null> {
+    const dir = join(instance.basePath, '.vscode')
+    const path = join(dir, 'launch.json')
+    const name = `Attach to Odoo (${instance.name})`
+
+    let launch: { version: string; configurations: Array<Record<string, unknown>> } = {
+      version: '0.2.0',
+      configurations: []
+    }
+    if (existsSync(path)) {
+      try {
+        const existing = JSON.parse(await readFile(path, 'utf-8'))
+        launch = { ...existing, configurations: Array.isArray(existing.configurations) ? existing.configurations : [] }
+      } catch {
+        this.broadcastLog(
+          instance.id,
+          createLogRecord(`${path} is not plain JSON, attach to 127.0.0.1:${port} manually`, 'WARNING')
+        )
+        return null
+      }
+    }
+
+    launch.configurations = [
+      ...launch.configurations.filter((c) => c.name !== name),
+      {
+        name,
+        type: 'debugpy',
+        request: 'attach',
+        connect: { host: '127.0.0.1', port },
+        justMyCode: false
+      }
+    ]
+
+    try {
+      await mkdir(dir, { recursive: true })
+      await writeFile(path, JSON.stringify(launch, null, 2) + '\n', 'utf-8')
+      return path
+    } catch {
+      return null
+    }
+  }
+
+  private findFreePort(): Promise<number> {
+    return new Promise((resolve, reject) => {
+      const server = createServer()
+      server.once('error', reject)
+      server.listen(0, '127.0.0.1', () => {
+        const { port } = server.address() as AddressInfo
+        server.close(() => resolve(port))
+      })
+    })
+  }
+
   private isPortInUse(port: number): Promise<boolean> {
     return new Promise((resolve) => {
       const server = createServer()
@@ -184,29 +590,12 @@ class OdooProcessManager {
     })
   }
 
-  private parseLogLine(line: string): { level: string; module: string; message: string } {
-    // Odoo log format: 2024-01-01 12:00:00,000 PID INFO module: message
-    const match = line.match(
-      /\d{4}-\d{2}-\d{2}\s+\d{2}:\d{2}:\d{2},\d+\s+\d+\s+(INFO|WARNING|ERROR|CRITICAL|DEBUG)\s+(\S+?):\s*(.*)/
-    )
-    if (match) {
-      return { level: match[1], module: match[2], message: match[3] }
-    }
-    return { level: 'INFO', module: '', message: line }
-  }
-
   private broadcastStatus(instanceId: string, status: InstanceStatus): void {
     for (const win of BrowserWindow.getAllWindows()) {
       win.webContents.send('odoo:status-changed', { instanceId, status })
     }
   }
 
-  private broadcastLog(instanceId: string, line: string, level: string): void {
-    for (const win of BrowserWindow.getAllWindows()) {
-      win.webContents.send('odoo:log-line', { instanceId, line, level })
-    }
-  }
-
   /** Send a native OS notification only when the app is not focused */
   private notify(title: string, body: string): void {
     const focused = BrowserWindow.getAllWindows().some((w) => w.isFocused())
@@ -1,39 +1,323 @@
-import { spawn } from 'child_process'
+import { spawn, execFile } from 'child_process'
 import { existsSync } from 'fs'
-import type { BrowserWindow } from 'electron'
+import { mkdir, readdir } from 'fs/promises'
+import { dirname, join, resolve } from 'path'
+import { promisify } from 'util'
+import type { SourceCommit } from '@shared/types/odoo'
+import { settingsStore } from '../../store/SettingsStore'
+
+const execFileAsync = promisify(execFile)
 
 type ProgressCallback = (message: string, percent: number) => void
 
+/** Shared bare repos, one per upstream, under the workspace */
+const CACHE_DIR = '.odoo-cache'
+
+/** Revisions given as a date (2024-03-15, or an ISO timestamp) rather than a commit or tag */
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}/
+
+const FULL_SHA_PATTERN = /^[0-9a-f]{40}$/i
+
+const SHORT_SHA_PATTERN = /^[0-9a-f]{4,39}$/i
+
+/** How far back a short SHA is looked for: the full history of a branch is several GB */
+const SHORT_SHA_MAX_DEPTH = 4096
+
+/** git fetch errors of a ref or commit the remote does not have */
+const MISSING_REF_PATTERN = /couldn't find remote ref|not our ref|unadvertised object/i
+
 export class OdooRepository {
-  async clone(
+  /** Pending operations per cache repo: git locks refs, concurrent creations must take turns */
+  private cacheLocks = new Map<string, Promise<unknown>>()
+
+  /**
+   * Check out a branch through the shared source cache: the first instance of
+   * a branch downloads it into a bare repo under the workspace, the next ones
+   * only fetch new commits and add a git worktree, which costs the working
+   * files alone. The token, if any, is only used for the network operations.
+   */
+  async checkoutFromCache(
     repoUrl: string,
     branch: string,
     targetDir: string,
-    onProgress: ProgressCallback
+    onProgress: ProgressCallback,
+    githubToken?: string
   ): Promise<void> {
     if (existsSync(targetDir)) {
-      onProgress('Directory already exists, skipping clone', 100)
+      onProgress('Directory already exists, skipping checkout', 100)
       return
     }
 
-    return new Promise((resolve, reject) => {
-      onProgress(`Cloning ${branch}...`, 5)
+    const cachePath = this.getCachePath(repoUrl)
+    await this.withCacheLock(cachePath, async () => {
+      const fetchUrl = githubToken ? this.authenticatedUrl(repoUrl, githubToken) : repoUrl
+      await this.fetchIntoCache(cachePath, repoUrl, fetchUrl, branch, (msg, pct) =>
+        onProgress(msg, Math.round(pct * 0.9))
+      )
+
+      onProgress(`Checking out ${branch}...`, 90)
+      // Detached: several instances can check out the same branch
+      await execFileAsync('git', ['worktree', 'add', '--detach', targetDir, branch], { cwd: cachePath })
+    })
+    onProgress('Checkout complete', 100)
+  }
+
+  /** Forget the worktrees of deleted instances, so their branches can be checked out again */
+  async pruneCache(): Promise<void> {
+    const cacheRoot = join(settingsStore.getWorkspacePath(), CACHE_DIR)
+    const entries = await readdir(cacheRoot).catch(() => [])
+    for (const entry of entries) {
+      const cachePath = join(cacheRoot, entry)
+      await this.withCacheLock(cachePath, () =>
+        execFileAsync('git', ['worktree', 'prune'], { cwd: cachePath }).catch(() => {})
+      )
+    }
+  }
+
+  /**
+   * Remote URL and current branch of the git checkout containing dir, or null
+   * when it is not in a git repo. The URL is empty for repos without origin.
+   */
+  async describe(dir: string): Promise<{ url: string; branch: string } | null> {
+    try {
+      const { stdout: branch } = await execFileAsync('git', ['rev-parse', '--abbrev-ref', 'HEAD'], { cwd: dir })
+      const url = await execFileAsync('git', ['remote', 'get-url', 'origin'], { cwd: dir })
+        .then(({ stdout }) => stdout.trim())
+        .catch(() => '')
+      return { url, branch: branch.trim() }
+    } catch {
+      return null
+    }
+  }
+
+  /** Commit checked out in dir, null when it is not a git checkout */
+  async getHead(dir: string): Promise<SourceCommit | null> {
+    try {
+      const { stdout } = await execFileAsync('git', ['log', '-1', '--format=%H%x1f%cI%x1f%s'], { cwd: dir })
+      const [hash, date, subject] = stdout.trim().split('\x1f')
+      return { hash, date, subject }
+    } catch {
+      return null
+    }
+  }
+
+  /** Current branch of dir, null when HEAD is detached */
+  async getBranch(dir: string): Promise<string | null> {
+    const { stdout } = await execFileAsync('git', ['rev-parse', '--abbrev-ref', 'HEAD'], { cwd: dir })
+    const branch = stdout.trim()
+    return branch === 'HEAD' ? null : branch
+  }
+
+  /**
+   * Fetch a branch from origin and fast-forward dir to it. Local commits or
+   * conflicting changes make git refuse, they are never merged or discarded.
+   * Shallow checkouts only download the commits they miss. Worktrees fetch
+   * into the shared cache, under its lock.
+   */
+  async fastForward(
+    dir: string,
+    branch: string,
+    onProgress: ProgressCallback,
+    githubToken?: string
+  ): Promise<{ from: string; to: string; commits: number }> {
+    const { stdout: origin } = await execFileAsync('git', ['remote', 'get-url', 'origin'], { cwd: dir })
+    const fetchUrl = githubToken ? this.authenticatedUrl(origin.trim(), githubToken) : origin.trim()
+
+    return this.withCacheLock(await this.getCommonDir(dir), async () => {
+      const from = await this.revParse(dir, 'HEAD')
+      onProgress(`Fetching ${branch}...`, 5)
+      await this.runGit(['fetch', '--progress', fetchUrl, branch], onProgress, dir)
+      const to = await this.revParse(dir, 'FETCH_HEAD')
+
+      if (to !== from) {
+        onProgress(`Fast-forwarding to ${to.slice(0, 8)}...`, 95)
+        try {
+          await execFileAsync('git', ['merge', '--ff-only', to], { cwd: dir })
+        } catch (error) {
+          const stderr = (error as { stderr?: string }).stderr?.trim()
+          throw new Error(`Cannot fast-forward ${dir} to ${branch}: ${stderr || 'local commits or changes are in the way'}`)
+        }
+      }
+
+      const { stdout: count } = await execFileAsync('git', ['rev-list', '--count', `${from}..${to}`], { cwd: dir })
+      onProgress(to === from ? 'Already up to date' : 'Updated', 100)
+      return { from, to, commits: parseInt(count.trim(), 10) || 0 }
+    })
+  }
+
+  /**
+   * Check out a past revision of a branch, detached: a commit SHA, a tag, or
+   * a date for the last commit of the branch before it. Shallow checkouts
+   * fetch full SHAs and tags directly and the history since a date; only
+   * short SHAs deepen the history, up to SHORT_SHA_MAX_DEPTH commits.
+   * Returns the commit checked out.
+   */
+  async checkoutRevision(
+    dir: string,
+    branch: string,
+    revision: string,
+    onProgress: ProgressCallback,
+    githubToken?: string
+  ): Promise<string> {
+    const { stdout: origin } = await execFileAsync('git', ['remote', 'get-url', 'origin'], { cwd: dir })
+    const fetchUrl = githubToken ? this.authenticatedUrl(origin.trim(), githubToken) : origin.trim()
+    const isDate = DATE_PATTERN.test(revision)
+
+    return this.withCacheLock(await this.getCommonDir(dir), async () => {
+      onProgress(`Fetching ${branch}...`, 5)
+      await this.runGit(['fetch', '--progress', fetchUrl, branch], onProgress, dir)
+      const tip = await this.revParse(dir, 'FETCH_HEAD')
+
+      const resolveCommit = async (): Promise<string | null> => {
+        if (isDate) {
+          const { stdout } = await execFileAsync(
+            'git', ['rev-list', '-1', '--first-parent', `--before=${revision}`, tip], { cwd: dir }
+          )
+          return stdout.trim() || null
+        }
+        return this.revParse(dir, `${revision}^{commit}`).catch(() => null)
+      }
+
+      let commit = await resolveCommit()
+      if (!commit && isDate) {
+        if (await this.isShallow(dir)) {
+          onProgress(`Fetching ${branch} since ${revision}...`, 30)
+          // Everything since the date, plus the commit just before it
+          await this.runGit(['fetch', `--shallow-since=${revision}`, fetchUrl, branch], () => {}, dir)
+          await this.runGit(['fetch', '--deepen=1', fetchUrl, branch], () => {}, dir)
+          commit = await resolveCommit()
+        }
+      } else if (!commit && SHORT_SHA_PATTERN.test(revision)) {
+        for (let depth = 256, total = 0; !commit && total + depth <= SHORT_SHA_MAX_DEPTH; total += depth, depth *= 2) {
+          if (!(await this.isShallow(dir))) break
+          onProgress(`Fetching ${depth} more commits of ${branch} to find ${revision}...`, 30 + Math.log2(depth) * 4)
+          await this.runGit(['fetch', `--deepen=${depth}`, fetchUrl, branch], () => {}, dir)
+          commit = await resolveCommit()
+        }
+        if (!commit && await this.isShallow(dir)) {
+          throw new Error(
+            `Commit ${revision} not found in the recent history of ${branch}: give the full SHA to fetch it directly`
+          )
+        }
+      } else if (!commit) {
+        // Full SHAs, then tags and branches, fetched on their own instead of walking the history
+        const refs = FULL_SHA_PATTERN.test(revision)
+          ? [revision]
+          : [`refs/tags/${revision}`, `refs/heads/${revision}`]
+        onProgress(`Fetching ${revision}...`, 30)
+        for (const ref of refs) {
+          const fetched = await this.runGit(['fetch', '--depth', '1', fetchUrl, ref], () => {}, dir).then(
+            () => true,
+            (error: Error) => {
+              if (MISSING_REF_PATTERN.test(error.message)) return false
+              throw error
+            }
+          )
+          if (fetched) {
+            commit = await this.revParse(dir, 'FETCH_HEAD^{commit}')
+            break
+          }
+        }
+      }
+      if (!commit) throw new Error(`Revision ${revision} not found in ${branch}`)
+
+      onProgress(`Checking out ${commit.slice(0, 10)}...`, 95)
+      try {
+        await execFileAsync('git', ['checkout', '--detach', commit], { cwd: dir })
+      } catch (error) {
+        const stderr = (error as { stderr?: string }).stderr?.trim()
+        throw new Error(`Cannot check out ${revision} in ${dir}: ${stderr || 'local changes are in the way'}`)
+      }
+      onProgress(`Checked out ${commit.slice(0, 10)}`, 100)
+      return commit
+    })
+  }
+
+  private async isShallow(dir: string): Promise<boolean> {
+    const { stdout } = await execFileAsync('git', ['rev-parse', '--is-shallow-repository'], { cwd: dir })
+    return stdout.trim() === 'true'
+  }
+
+  /** Repo holding the objects of dir: the shared cache of a worktree, and the key of its lock */
+  private async getCommonDir(dir: string): Promise<string> {
+    const { stdout } = await execFileAsync('git', ['rev-parse', '--git-common-dir'], { cwd: dir })
+    return resolve(dir, stdout.trim())
+  }
+
+  private async revParse(dir: string, ref: string): Promise<string> {
+    const { stdout } = await execFileAsync('git', ['rev-parse', ref], { cwd: dir })
+    return stdout.trim()
+  }
+
+  private getCachePath(repoUrl: string): string {
+    // https://github.com/odoo/enterprise.git -> odoo-enterprise.git
+    const [owner, repo] = repoUrl.replace(/\.git$/, '').split('/').slice(-2)
+    return join(settingsStore.getWorkspacePath(), CACHE_DIR, `${owner}-${repo}.git`)
+  }
+
+  private async fetchIntoCache(
+    cachePath: string,
+    repoUrl: string,
+    fetchUrl: string,
+    branch: string,
+    onProgress: ProgressCallback
+  ): Promise<void> {
+    if (!existsSync(cachePath)) {
+      onProgress(`Downloading ${branch} into the source cache...`, 5)
+      await mkdir(dirname(cachePath), { recursive: true })
+      await this.runGit(
+        ['clone', '--bare', '--depth', '1', '--single-branch', '--branch', branch, fetchUrl, cachePath, '--progress'],
+        onProgress
+      )
+      // Keep the token out of the shared config, worktrees inherit it
+      await execFileAsync('git', ['remote', 'set-url', 'origin', repoUrl], { cwd: cachePath })
+      return
+    }
+
+    const cached = await execFileAsync('git', ['rev-parse', '--verify', '--quiet', `refs/heads/${branch}`], { cwd: cachePath })
+      .then(() => true)
+      .catch(() => false)
 
-      const args = ['clone', '--depth', '1', '--branch', branch, repoUrl, targetDir, '--progress']
+    if (cached) {
+      // New commits connect to the cached ones: only they are downloaded. Offline, use the cached commit.
+      onProgress(`Updating ${branch} in the source cache...`, 5)
+      await this.runGit(['fetch', '--progress', fetchUrl, `+${branch}:${branch}`], onProgress, cachePath)
+        .catch(() => onProgress(`Could not update ${branch}, using the cached version`, 95))
+    } else {
+      onProgress(`Downloading ${branch} into the source cache...`, 5)
+      await this.runGit(['fetch', '--depth', '1', '--progress', fetchUrl, `+${branch}:${branch}`], onProgress, cachePath)
+    }
+  }
+
+  private async withCacheLock<T>(cachePath: string, task: () => Promise<T>): Promise<T> {
+    const previous = this.cacheLocks.get(cachePath) || Promise.resolve()
+    const current = previous.catch(() => {}).then(task)
+    this.cacheLocks.set(cachePath, current)
+    try {
+      return await current
+    } finally {
+      if (this.cacheLocks.get(cachePath) === current) this.cacheLocks.delete(cachePath)
+    }
+  }
+
+  private authenticatedUrl(repoUrl: string, githubToken: string): string {
+    // Inject token into URL: https://TOKEN@github.com/odoo/enterprise.git
+    return repoUrl.replace('https://github.com/', `https://${githubToken}@github.com/`)
+  }
+
+  private runGit(args: string[], onProgress: ProgressCallback, cwd?: string): Promise<void> {
+    return new Promise((resolve, reject) => {
       const child = spawn('git', args, {
+        cwd,
         stdio: ['ignore', 'pipe', 'pipe']
       })
 
-      let lastPercent = 5
-
       const parseProgress = (data: string): void => {
-        // Git clone progress: "Receiving objects: 42% (1234/2938)"
+        // Git progress: "Receiving objects: 42% (1234/2938)"
         const match = data.match(/(\d+)%/)
         if (match) {
-          const gitPercent = parseInt(match[1], 10)
           // Map git's 0-100 to our 5-95 range
-          lastPercent = 5 + Math.round(gitPercent * 0.9)
-          onProgress(data.trim(), lastPercent)
+          onProgress(data.trim(), 5 + Math.round(parseInt(match[1], 10) * 0.9))
         }
       }
 
@@ -41,40 +325,30 @@ export class OdooRepository {
         parseProgress(data.toString())
       })
 
+      // Tail of the output, for the reason of a failure
+      let stderr = ''
+
       child.stderr?.on('data', (data: Buffer) => {
         // Git sends progress to stderr
-        parseProgress(data.toString())
+        const text = data.toString()
+        stderr = (stderr + text).slice(-4096)
+        parseProgress(text)
       })
 
       child.on('close', (code) => {
         if (code === 0) {
-          onProgress('Clone complete', 100)
           resolve()
         } else {
-          reject(new Error(`git clone exited with code ${code}`))
+          const reason = stderr.split(/\r?\n/).reverse().find((line) => /^(fatal|error):/.test(line))
+          reject(new Error(`git ${args[0]} exited with code ${code}${reason ? `: ${reason}` : ''}`))
         }
       })
 
       child.on('error', (err) => {
-        reject(new Error(`git clone failed: ${err.message}`))
+        reject(new Error(`git ${args[0]} failed: ${err.message}`))
       })
     })
   }
-
-  async cloneWithToken(
-    repoUrl: string,
-    branch: string,
-    targetDir: string,
-    githubToken: string,
-    onProgress: ProgressCallback
-  ): Promise<void> {
-    // Inject token into URL: https://TOKEN@github.com/odoo/enterprise.git
-    const authenticatedUrl = repoUrl.replace(
-      'https://github.com/',
-      `https://${githubToken}@github.com/`
-    )
-    return this.clone(authenticatedUrl, branch, targetDir, onProgress)
-  }
 }
 
 export const odooRepository = new OdooRepository()
@@ -9,7 +9,8 @@ import type { IPty } from 'node-pty'
 export class OdooShellManager {
   private shells: Map<string, IPty> = new Map()
 
-  async start(instanceId: string): Promise<void> {
+  /** Open an Odoo shell on dbName, or on the active database of the instance */
+  async start(instanceId: string, dbName?: string): Promise<void> {
     if (this.shells.has(instanceId)) {
       throw new Error('Shell already running for this instance')
     }
@@ -17,6 +18,11 @@ export class OdooShellManager {
     const instance = instanceStore.get(instanceId)
     if (!instance) throw new Error('Instance not found')
 
+    const database = dbName || instance.dbName
+    if (!instanceStore.getDatabases(instanceId).includes(database)) {
+      throw new Error(`Database "${database}" does not belong to this instance`)
+    }
+
     const pythonBin = venvManager.getPythonBin(instance.venvPath)
     const odooBin = join(instance.odooPath, 'odoo-bin')
 
@@ -32,7 +38,7 @@ export class OdooShellManager {
 
     const pty = await import('node-pty')
 
-    const shell = pty.spawn(pythonBin, [odooBin, 'shell', '-c', instance.configPath, '-d', instance.dbName], {
+    const shell = pty.spawn(pythonBin, [odooBin, 'shell', '-c', instance.configPath, '-d', database], {
       name: 'xterm-256color',
       cols: 80,
       rows: 24,
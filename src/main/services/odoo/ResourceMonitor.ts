@@ -0,0 +1,92 @@
+import { BrowserWindow } from 'electron'
+import type { ResourceSample } from '@shared/types/resource'
+import { sampleProcessTree } from '../platform/ProcessStats'
+
+const SAMPLE_INTERVAL_MS = 5000
+
+/** Five minutes of history at one sample every 5 seconds */
+const MAX_SAMPLES = 60
+
+interface Monitor {
+  pid: number
+  timer: ReturnType<typeof setInterval>
+  samples: ResourceSample[]
+  /** Cumulative CPU time and wall time of the previous sample, for the CPU percentage */
+  lastCpuTimeMs: number | null
+  lastTime: number
+  sampling: boolean
+}
+
+/**
+ * Samples CPU, memory and connections of running servers and their workers,
+ * keeping a short history for the sparklines of the Overview and dashboard.
+ */
+class ResourceMonitor {
+  private monitors = new Map<string, Monitor>()
+
+  start(instanceId: string, pid: number): void {
+    this.stop(instanceId)
+
+    const monitor: Monitor = {
+      pid,
+      timer: setInterval(() => {
+        this.sample(instanceId, monitor).catch(() => {})
+      }, SAMPLE_INTERVAL_MS),
+      samples: [],
+      lastCpuTimeMs: null,
+      lastTime: Date.now(),
+      sampling: false
+    }
+    this.monitors.set(instanceId, monitor)
+    this.sample(instanceId, monitor).catch(() => {})
+  }
+
+  stop(instanceId: string): void {
+    const monitor = this.monitors.get(instanceId)
+    if (!monitor) return
+
+    this.monitors.delete(instanceId)
+    clearInterval(monitor.timer)
+  }
+
+  getHistory(instanceId: string): ResourceSample[] {
+    return this.monitors.get(instanceId)?.samples || []
+  }
+
+  private async sample(instanceId: string, monitor: Monitor): Promise<void> {
+    // Sampling through ps or PowerShell can take longer than the interval on a busy machine
+    if (monitor.sampling) return
+    monitor.sampling = true
+    try {
+      const stats = await sampleProcessTree(monitor.pid)
+      if (!stats || this.monitors.get(instanceId) !== monitor) return
+
+      const time = Date.now()
+      // The first sample has no reference: report 0 rather than the average since startup
+      const cpuPercent =
+        monitor.lastCpuTimeMs === null || time <= monitor.lastTime
+          ? 0
+          : Math.max(0, ((stats.cpuTimeMs - monitor.lastCpuTimeMs) / (time - monitor.lastTime)) * 100)
+      monitor.lastCpuTimeMs = stats.cpuTimeMs
+      monitor.lastTime = time
+
+      const sample: ResourceSample = {
+        time,
+        cpuPercent: Math.round(cpuPercent * 10) / 10,
+        rssBytes: stats.rssBytes,
+        connections: stats.connections,
+        processes: stats.processes
+      }
+      monitor.samples.push(sample)
+      if (monitor.samples.length > MAX_SAMPLES) monitor.samples.shift()
+
+      for (const win of BrowserWindow.getAllWindows()) {
+        win.webContents.send('odoo:resource-sample', { instanceId, sample })
+      }
+    } finally {
+      monitor.sampling = false
+    }
+  }
+}
+
+export const resourceMonitor = new ResourceMonitor()
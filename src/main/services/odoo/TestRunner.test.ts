@@ -0,0 +1,249 @@
+import { EventEmitter } from 'events'
+import { join } from 'path'
+import { tmpdir } from 'os'
+import type { ChildProcess } from 'child_process'
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import type { OdooInstance } from '@shared/types/odoo'
+import type { TestRun, TestRunArgs } from '@shared/types/test'
+import { testRunner } from './TestRunner'
+
+const { spawn, runs } = vi.hoisted(() => ({ spawn: vi.fn(), runs: new Map<string, unknown>() }))
+
+vi.mock('child_process', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('child_process')>()),
+  spawn
+}))
+vi.mock('electron', () => ({ BrowserWindow: { getAllWindows: () => [] } }))
+vi.mock('../../store/InstanceStore', () => ({
+  instanceStore: {
+    get: (id: string) =>
+      id === 'i1'
+        ? ({
+            id: 'i1',
+            dbName: 'main',
+            dbUser: 'odoo',
+            venvPath: '/venv',
+            odooPath: '/opt/odoo',
+            basePath: '/opt',
+            configPath: '/opt/odoo.conf'
+          } as OdooInstance)
+        : undefined
+  }
+}))
+vi.mock('../../store/TestRunStore', () => ({
+  testRunStore: {
+    saveRun: (run: { id: string }) => runs.set(run.id, run),
+    getRun: (_instanceId: string, runId: string) => runs.get(runId)
+  }
+}))
+// Any file that exists, odoo-bin itself is never started
+vi.mock('../python/VenvManager', () => ({ venvManager: { getPythonBin: () => process.execPath } }))
+vi.mock('../postgres/DatabaseManager', () => ({
+  databaseManager: {
+    getFilestorePath: () => join(tmpdir(), 'odoo-test-filestore-missing'),
+    createDatabase: async () => {},
+    cloneDatabase: async () => {},
+    dropDatabase: async () => {}
+  }
+}))
+vi.mock('./OdooProcessManager', () => ({ odooProcessManager: { isRunning: () => false } }))
+
+/** odoo-bin stand-in writing the given output, then exiting */
+function fakeOdooBin(output: string, exitCode: number): ChildProcess {
+  const child = Object.assign(new EventEmitter(), {
+    stdout: new EventEmitter(),
+    stderr: new EventEmitter(),
+    kill: vi.fn()
+  })
+  setImmediate(() => {
+    child.stdout.emit('data', Buffer.from(output))
+    child.emit('close', exitCode)
+  })
+  return child as unknown as ChildProcess
+}
+
+/** Run tests of the sale module with odoo-bin printing the given output */
+async function runTests(output: string, exitCode = 0, args: Partial<TestRunArgs> = {}): Promise<TestRun> {
+  spawn.mockImplementation(() => fakeOdooBin(output, exitCode))
+  const run = await testRunner.run('i1', { modules: ['sale'], mode: 'fresh', ...args })
+  await vi.waitFor(() => expect(testRunner.isRunning('i1')).toBe(false))
+  return runs.get(run.id) as TestRun
+}
+
+beforeEach(() => {
+  spawn.mockReset()
+  runs.clear()
+})
+
+// Odoo 16+: tests are described as Class.method
+const MODERN_OUTPUT = `2024-05-14 09:12:33,101 4121 INFO test_db odoo.addons.sale.tests.test_sale_order: Starting TestSaleOrder.test_sale_order ...
+2024-05-14 09:12:33,456 4121 INFO test_db odoo.addons.sale.tests.test_sale_order: Starting TestSaleOrder.test_confirm ...
+2024-05-14 09:12:33,789 4121 ERROR test_db odoo.addons.sale.tests.test_sale_order: FAIL: TestSaleOrder.test_confirm
+Traceback (most recent call last):
+  File "/opt/odoo/17.0/addons/sale/tests/test_sale_order.py", line 88, in test_confirm
+    self.assertEqual(order.state, 'sale')
+AssertionError: 'draft' != 'sale'
+- draft
++ sale
+
+2024-05-14 09:12:34,012 4121 INFO test_db odoo.addons.sale.tests.test_sale_order: Starting TestSaleOrder.test_cancel ...
+2024-05-14 09:12:34,100 4121 ERROR test_db odoo.addons.sale.tests.test_sale_order: ERROR: TestSaleOrder.test_cancel
+Traceback (most recent call last):
+  File "/opt/odoo/17.0/addons/sale/tests/test_sale_order.py", line 102, in test_cancel
+    order._action_cancel()
+  File "/opt/odoo/17.0/addons/sale/models/sale_order.py", line 950, in _action_cancel
+    raise UserError(_("The order cannot be cancelled"))
+odoo.exceptions.UserError: The order cannot be cancelled
+2024-05-14 09:12:34,150 4121 INFO test_db odoo.addons.sale.tests.test_sale_order: Starting TestSaleOrder.test_print ...
+2024-05-14 09:12:34,151 4121 INFO test_db odoo.addons.sale.tests.test_sale_order: skipped TestSaleOrder.test_print : wkhtmltopdf is not installed
+2024-05-14 09:12:35,420 4121 INFO test_db odoo.tests.stats: sale: 12 tests 1.32s 2204 queries
+2024-05-14 09:12:35,421 4121 ERROR test_db odoo.service.server: 1 failed, 1 error(s) of 4 tests when loading database 'test_db'
+`
+
+// Odoo 14 and 15: unittest's default description, "method (python.module.Class)"
+const LEGACY_OUTPUT = `2021-11-02 15:40:12,310 812 INFO test_db odoo.modules.module: odoo.addons.sale.tests.test_sale_order running tests.
+2021-11-02 15:40:12,902 812 ERROR test_db odoo.addons.sale.tests.test_sale_order: FAIL: test_confirm (odoo.addons.sale.tests.test_sale_order.TestSaleOrder)
+Traceback (most recent call last):
+  File "/opt/odoo/14.0/addons/sale/tests/test_sale_order.py", line 88, in test_confirm
+    self.assertEqual(order.state, 'sale')
+AssertionError: 'draft' != 'sale'
+2021-11-02 15:40:13,050 812 INFO test_db odoo.addons.sale.tests.test_sale_order: skipped test_print (odoo.addons.sale.tests.test_sale_order.TestSaleOrder) : wkhtmltopdf is not installed
+`
+
+describe('TestRunner', () => {
+  it('runs the tests of the selected modules on a new database', async () => {
+    await runTests('')
+
+    const [, args] = spawn.mock.calls[0]
+    expect(args).toEqual(
+      expect.arrayContaining(['-i', 'sale', '--test-enable', '--test-tags=/sale', '--stop-after-init'])
+    )
+    expect(args[args.indexOf('-d') + 1]).toMatch(/^main_test_[0-9a-f]{8}$/)
+  })
+
+  it('upgrades the modules on a copy of the database', async () => {
+    await runTests('', 0, { mode: 'copy', testTags: '/sale:TestSaleOrder' })
+
+    const [, args] = spawn.mock.calls[0]
+    expect(args).toEqual(expect.arrayContaining(['-u', 'sale', '--test-tags=/sale:TestSaleOrder']))
+  })
+
+  it('rejects invalid module names and test tags', async () => {
+    await expect(testRunner.run('i1', { modules: ['sale; rm -rf /'], mode: 'fresh' })).rejects.toThrow(
+      'Invalid module name'
+    )
+    await expect(testRunner.run('i1', { modules: ['sale'], testTags: '$(id)', mode: 'fresh' })).rejects.toThrow(
+      'Invalid test tags'
+    )
+    expect(spawn).not.toHaveBeenCalled()
+  })
+
+  it('parses the outcomes of Odoo 16+ output', async () => {
+    const run = await runTests(MODERN_OUTPUT, 1)
+
+    expect(run.status).toBe('failed')
+    expect(run.results.map((r) => [r.id, r.outcome])).toEqual([
+      ['sale:TestSaleOrder.test_sale_order', 'passed'],
+      ['sale:TestSaleOrder.test_confirm', 'failed'],
+      ['sale:TestSaleOrder.test_cancel', 'error'],
+      ['sale:TestSaleOrder.test_print', 'skipped']
+    ])
+    expect(run.results[0]).toEqual({
+      id: 'sale:TestSaleOrder.test_sale_order',
+      module: 'sale',
+      testClass: 'TestSaleOrder',
+      method: 'test_sale_order',
+      pythonModule: 'odoo.addons.sale.tests.test_sale_order',
+      outcome: 'passed'
+    })
+  })
+
+  it('parses the outcomes of Odoo 14 and 15 output', async () => {
+    const run = await runTests(LEGACY_OUTPUT, 1)
+
+    expect(run.results).toHaveLength(2)
+    expect(run.results[0]).toMatchObject({
+      id: 'sale:TestSaleOrder.test_confirm',
+      pythonModule: 'odoo.addons.sale.tests.test_sale_order',
+      outcome: 'failed',
+      filePath: '/opt/odoo/14.0/addons/sale/tests/test_sale_order.py',
+      line: 88
+    })
+    expect(run.results[1]).toMatchObject({ id: 'sale:TestSaleOrder.test_print', outcome: 'skipped' })
+  })
+
+  it('keeps the traceback of a failure', async () => {
+    const run = await runTests(MODERN_OUTPUT, 1)
+
+    const failed = run.results.find((r) => r.method === 'test_confirm')!
+    expect(failed.traceback).toBe(`Traceback (most recent call last):
+  File "/opt/odoo/17.0/addons/sale/tests/test_sale_order.py", line 88, in test_confirm
+    self.assertEqual(order.state, 'sale')
+AssertionError: 'draft' != 'sale'
+- draft
++ sale`)
+  })
+
+  it('locates a failure in the test file rather than the innermost frame', async () => {
+    const run = await runTests(MODERN_OUTPUT, 1)
+
+    const errored = run.results.find((r) => r.method === 'test_cancel')!
+    expect(errored.filePath).toBe('/opt/odoo/17.0/addons/sale/tests/test_sale_order.py')
+    expect(errored.line).toBe(102)
+  })
+
+  it('locates a failure in a test file with Windows paths', async () => {
+    const run = await runTests(`2024-05-14 09:12:33,789 4121 ERROR test_db odoo.addons.sale.tests.test_sale_order: FAIL: TestSaleOrder.test_confirm
+Traceback (most recent call last):
+  File "C:\\odoo\\addons\\sale\\tests\\test_sale_order.py", line 88, in test_confirm
+    self.assertEqual(order.state, 'sale')
+  File "C:\\odoo\\python\\lib\\unittest\\case.py", line 873, in assertEqual
+    assertion_func(first, second, msg=msg)
+AssertionError: 'draft' != 'sale'
+`)
+
+    expect(run.results[0].filePath).toBe('C:\\odoo\\addons\\sale\\tests\\test_sale_order.py')
+    expect(run.results[0].line).toBe(88)
+  })
+
+  it('collects the failures of all subtests of a test', async () => {
+    const run = await runTests(`2024-05-14 09:12:33,456 4121 INFO test_db odoo.addons.sale.tests.test_sale_order: Starting TestSaleOrder.test_prices ...
+2024-05-14 09:12:33,500 4121 ERROR test_db odoo.addons.sale.tests.test_sale_order: FAIL: TestSaleOrder.test_prices (price=10)
+Traceback (most recent call last):
+  File "/opt/odoo/17.0/addons/sale/tests/test_sale_order.py", line 120, in test_prices
+AssertionError: 10.0 != 11.0
+2024-05-14 09:12:33,510 4121 ERROR test_db odoo.addons.sale.tests.test_sale_order: FAIL: TestSaleOrder.test_prices (price=20)
+Traceback (most recent call last):
+  File "/opt/odoo/17.0/addons/sale/tests/test_sale_order.py", line 120, in test_prices
+AssertionError: 20.0 != 22.0
+`)
+
+    expect(run.results).toHaveLength(1)
+    expect(run.results[0].outcome).toBe('failed')
+    expect(run.results[0].traceback).toContain('10.0 != 11.0')
+    expect(run.results[0].traceback).toContain('20.0 != 22.0')
+  })
+
+  it('reports errors outside of tests separately', async () => {
+    const run = await runTests(MODERN_OUTPUT, 1)
+
+    expect(run.errors).toEqual([
+      "odoo.service.server: 1 failed, 1 error(s) of 4 tests when loading database 'test_db'"
+    ])
+  })
+
+  it('ignores output that is not an Odoo log record', async () => {
+    const run = await runTests('FAIL: TestSaleOrder.test_confirm\nsome plain print\n')
+
+    expect(run.results).toEqual([])
+    expect(run.errors).toEqual([])
+    expect(run.status).toBe('passed')
+  })
+
+  it('reports a failing exit code without failed tests as an error', async () => {
+    const run = await runTests('', 255)
+
+    expect(run.status).toBe('error')
+    expect(run.error).toBe('odoo-bin exited with code 255')
+  })
+})
@@ -0,0 +1,375 @@
+import { spawn, type ChildProcess } from 'child_process'
+import { existsSync } from 'fs'
+import { rm } from 'fs/promises'
+import { createServer, type AddressInfo } from 'net'
+import { join } from 'path'
+import { randomUUID } from 'crypto'
+import { BrowserWindow } from 'electron'
+import type { OdooInstance } from '@shared/types/odoo'
+import type { TestResult, TestRun, TestRunArgs, TestOutcome } from '@shared/types/test'
+import { instanceStore } from '../../store/InstanceStore'
+import { testRunStore } from '../../store/TestRunStore'
+import { venvManager } from '../python/VenvManager'
+import { databaseManager } from '../postgres/DatabaseManager'
+import { odooProcessManager } from './OdooProcessManager'
+import type { LogRecord } from '@shared/types/log'
+import { LogRecordGrouper } from './OdooLogParser'
+
+/** Same rule as module directory names on the addons path */
+const MODULE_NAME_PATTERN = /^\w+$/
+
+/** Characters accepted by odoo.tests.tag_selector: [-][tag][/module][:class][.method], comma separated */
+const TEST_TAGS_PATTERN = /^[\w/:.,*+-]+$/
+
+/** "Starting TestSaleOrder.test_confirm ..." (13+) */
+const STARTING_PATTERN = /^Starting (\w+)\.(\w+)/
+
+/** "FAIL: TestSaleOrder.test_confirm" (16+) or "FAIL: test_confirm (odoo.addons.sale.tests.test_sale.TestSaleOrder)" */
+const OUTCOME_PATTERN = /^(FAIL|ERROR): (.+)$/
+
+/** "skipped TestSaleOrder.test_confirm : reason" or "skipped test_confirm (...) : reason" */
+const SKIPPED_PATTERN = /^skipped (.+?)(?: : .*)?$/i
+
+/** Traceback frame: File "/path/to/file.py", line 42, in test_confirm */
+const FRAME_PATTERN = /File "([^"]+)", line (\d+)/g
+
+interface ActiveRun {
+  run: TestRun
+  child: ChildProcess | null
+  cancelled: boolean
+  done: Promise<void>
+}
+
+interface TestIdentity {
+  module: string
+  testClass: string
+  method: string
+  pythonModule: string
+}
+
+class TestRunner {
+  private active = new Map<string, ActiveRun>()
+
+  /**
+   * Run the tests of some modules against a throw-away database, dropped once
+   * the run is over. Results are saved in the instance's run history.
+   */
+  async run(instanceId: string, args: TestRunArgs): Promise<TestRun> {
+    const instance = instanceStore.get(instanceId)
+    if (!instance) throw new Error('Instance not found')
+
+    const modules = args.modules.map((m) => m.trim()).filter(Boolean)
+    if (modules.length === 0) throw new Error('No modules selected')
+    const invalid = modules.find((m) => !MODULE_NAME_PATTERN.test(m))
+    if (invalid) throw new Error(`Invalid module name "${invalid}"`)
+
+    const testTags = args.testTags?.replace(/\s+/g, '') || undefined
+    if (testTags && !TEST_TAGS_PATTERN.test(testTags)) {
+      throw new Error(`Invalid test tags "${testTags}"`)
+    }
+
+    if (this.active.has(instanceId)) {
+      throw new Error('Tests are already running for this instance')
+    }
+    if (args.mode === 'copy' && odooProcessManager.isRunning(instanceId)) {
+      // createdb -T needs exclusive access to the source database
+      throw new Error('Stop the instance before testing against a copy of its database')
+    }
+
+    const id = randomUUID()
+    const run: TestRun = {
+      id,
+      instanceId,
+      modules,
+      testTags,
+      mode: args.mode,
+      dbName: `${instance.dbName}_test_${id.slice(0, 8)}`,
+      status: 'running',
+      startedAt: new Date().toISOString(),
+      results: [],
+      errors: []
+    }
+
+    const active: ActiveRun = { run, child: null, cancelled: false, done: Promise.resolve() }
+    this.active.set(instanceId, active)
+    this.save(run)
+
+    // Resolves as soon as the run is registered, progress goes through broadcasts
+    active.done = this.execute(instance, active).finally(() => this.active.delete(instanceId))
+    return run
+  }
+
+  /** Resolves with the run once it is over */
+  async waitForRun(instanceId: string, runId: string): Promise<TestRun> {
+    const active = this.active.get(instanceId)
+    if (active?.run.id === runId) await active.done
+
+    const run = testRunStore.getRun(instanceId, runId)
+    if (!run) throw new Error('Test run not found')
+    return run
+  }
+
+  getRuns(instanceId: string): TestRun[] {
+    // Runs interrupted by closing the app are still marked as running
+    return testRunStore.getRuns(instanceId).map((run) =>
+      run.status === 'running' && this.active.get(instanceId)?.run.id !== run.id
+        ? { ...run, status: 'cancelled', currentTest: undefined }
+        : run
+    )
+  }
+
+  cancel(instanceId: string): void {
+    const active = this.active.get(instanceId)
+    if (!active) throw new Error('No test run in progress')
+
+    active.cancelled = true
+    active.child?.kill('SIGTERM')
+  }
+
+  deleteRun(instanceId: string, runId: string): void {
+    if (this.active.get(instanceId)?.run.id === runId) {
+      throw new Error('Cannot delete a test run in progress')
+    }
+    testRunStore.removeRun(instanceId, runId)
+  }
+
+  isRunning(instanceId: string): boolean {
+    return this.active.has(instanceId)
+  }
+
+  private async execute(instance: OdooInstance, active: ActiveRun): Promise<void> {
+    const { run } = active
+    const filestorePath = databaseManager.getFilestorePath(instance, run.dbName)
+
+    try {
+      if (run.mode === 'copy') {
+        await databaseManager.cloneDatabase(
+          instance.dbName,
+          run.dbName,
+          instance.dbUser,
+          databaseManager.getFilestorePath(instance),
+          filestorePath
+        )
+      } else {
+        await databaseManager.createDatabase(run.dbName, instance.dbUser)
+      }
+
+      if (active.cancelled) {
+        run.status = 'cancelled'
+        return
+      }
+
+      const exitCode = await this.spawnTests(instance, active)
+
+      if (active.cancelled) {
+        run.status = 'cancelled'
+      } else {
+        if (exitCode !== 0) run.error = `odoo-bin exited with code ${exitCode}`
+        const failed = run.results.some((r) => r.outcome === 'failed' || r.outcome === 'error')
+        if (failed) run.status = 'failed'
+        else if (run.errors.length > 0 || exitCode !== 0) run.status = 'error'
+        else run.status = 'passed'
+      }
+    } catch (error) {
+      run.status = 'error'
+      run.error = error instanceof Error ? error.message : String(error)
+    } finally {
+      run.currentTest = undefined
+      run.finishedAt = new Date().toISOString()
+      this.save(run)
+
+      await databaseManager.dropDatabase(run.dbName, instance.dbUser).catch(() => {})
+      await rm(filestorePath, { recursive: true, force: true }).catch(() => {})
+    }
+  }
+
+  /** odoo-bin --test-enable --stop-after-init, resolves with the exit code */
+  private async spawnTests(instance: OdooInstance, active: ActiveRun): Promise<number | null> {
+    const { run } = active
+    const pythonBin = venvManager.getPythonBin(instance.venvPath)
+    const odooBin = join(instance.odooPath, 'odoo-bin')
+
+    if (!existsSync(pythonBin)) {
+      throw new Error(`Python not found at ${pythonBin}. The virtual environment may be corrupted.`)
+    }
+
+    // Without tags, -i would also run the tests of every dependency being installed
+    const testTags = run.testTags || run.modules.map((m) => `/${m}`).join(',')
+    // HttpCase tests need the HTTP server, keep it off the instance's own port
+    const httpPort = await this.findFreePort()
+
+    const args = [
+      odooBin,
+      '-c', instance.configPath,
+      '-d', run.dbName,
+      run.mode === 'copy' ? '-u' : '-i', run.modules.join(','),
+      '--test-enable',
+      `--test-tags=${testTags}`,
+      '--stop-after-init',
+      `--http-port=${httpPort}`,
+      '--workers=0',
+      '--max-cron-threads=0'
+    ]
+
+    return new Promise((resolve, reject) => {
+      const child = spawn(pythonBin, args, {
+        cwd: instance.basePath,
+        stdio: ['ignore', 'pipe', 'pipe'],
+        env: {
+          ...process.env,
+          PYTHONUNBUFFERED: '1'
+        }
+      })
+      active.child = child
+
+      // Log records can span several lines (tracebacks)
+      const logs = new LogRecordGrouper((record) => this.handleRecord(run, record))
+      let lastSave = 0
+
+      const handleData = (data: Buffer): void => {
+        logs.write(data.toString())
+
+        // Throttle the broadcasts, a test suite logs a lot
+        const now = Date.now()
+        if (now - lastSave > 500) {
+          lastSave = now
+          this.save(run)
+        }
+      }
+
+      child.stdout?.on('data', handleData)
+      child.stderr?.on('data', handleData)
+
+      child.on('close', (code) => {
+        logs.flush()
+        resolve(code)
+      })
+
+      child.on('error', (err) => {
+        reject(new Error(`Failed to start odoo-bin: ${err.message}`))
+      })
+    })
+  }
+
+  private handleRecord(run: TestRun, record: LogRecord): void {
+    // Only Odoo log records matter, not plain output
+    const logger = record.logger
+    if (!logger) return
+    const firstLine = record.message
+
+    const starting = firstLine.match(STARTING_PATTERN)
+    if (starting) {
+      const identity = this.identify(logger, `${starting[1]}.${starting[2]}`)
+      if (identity) {
+        run.currentTest = `${identity.module}:${identity.testClass}.${identity.method}`
+        this.setOutcome(run, identity, 'passed')
+      }
+      return
+    }
+
+    const outcome = record.level === 'ERROR' ? firstLine.match(OUTCOME_PATTERN) : null
+    if (outcome) {
+      const identity = this.identify(logger, outcome[2])
+      if (identity) {
+        const traceback = record.traceback?.trim()
+        this.setOutcome(run, identity, outcome[1] === 'FAIL' ? 'failed' : 'error', traceback)
+        return
+      }
+    }
+
+    const skipped = record.level === 'INFO' ? firstLine.match(SKIPPED_PATTERN) : null
+    if (skipped) {
+      const identity = this.identify(logger, skipped[1])
+      if (identity) this.setOutcome(run, identity, 'skipped')
+      return
+    }
+
+    // Anything else going wrong (install errors, failing setUpClass without a test, ...)
+    if (record.level === 'ERROR' || record.level === 'CRITICAL') {
+      run.errors.push(`${logger}: ${record.message}${record.traceback ? `\n${record.traceback}` : ''}`)
+    }
+  }
+
+  /**
+   * Split a test description into module, class and method. The logger of a
+   * test record is the Python module of the test (odoo.addons.<module>.tests...).
+   */
+  private identify(logger: string, description: string): TestIdentity | null {
+    // "test_confirm (odoo.addons.sale.tests.test_sale.TestSaleOrder)", optionally followed by a subtest
+    const legacy = description.match(/^(\w+) \(([\w.]+)\.(\w+)\)/)
+    // "TestSaleOrder.test_confirm", optionally followed by a subtest
+    const modern = description.match(/^(\w+)\.(\w+)/)
+
+    let pythonModule: string
+    let testClass: string
+    let method: string
+    if (legacy) {
+      ;[, method, pythonModule, testClass] = legacy
+    } else if (modern) {
+      ;[, testClass, method] = modern
+      pythonModule = logger
+    } else {
+      return null
+    }
+
+    const module = pythonModule.match(/^odoo\.addons\.(\w+)\./)?.[1]
+    if (!module) return null
+    return { module, testClass, method, pythonModule }
+  }
+
+  private setOutcome(
+    run: TestRun,
+    identity: TestIdentity,
+    outcome: TestOutcome,
+    traceback?: string
+  ): void {
+    const id = `${identity.module}:${identity.testClass}.${identity.method}`
+    let result = run.results.find((r) => r.id === id)
+    if (!result) {
+      result = { id, ...identity, outcome }
+      run.results.push(result)
+    }
+
+    // Subtests report several failures for the same test, keep them all
+    if (outcome !== 'passed') {
+      if (result.outcome !== 'error') result.outcome = outcome
+      if (traceback) {
+        result.traceback = result.traceback ? `${result.traceback}\n\n${traceback}` : traceback
+        Object.assign(result, this.locate(traceback, identity))
+      }
+    }
+  }
+
+  /** Innermost traceback frame inside the test's module, falling back to the innermost frame */
+  private locate(traceback: string, identity: TestIdentity): Pick<TestResult, 'filePath' | 'line'> {
+    const frames = [...traceback.matchAll(FRAME_PATTERN)].map((m) => ({
+      filePath: m[1],
+      line: parseInt(m[2], 10)
+    }))
+    if (frames.length === 0) return {}
+
+    const testFile = `${identity.pythonModule.split('.').slice(2).join('/')}.py`
+    const inTest = frames.filter((f) => f.filePath.replace(/\\/g, '/').endsWith(testFile))
+    return inTest[inTest.length - 1] || frames[frames.length - 1]
+  }
+
+  private findFreePort(): Promise<number> {
+    return new Promise((resolve, reject) => {
+      const server = createServer()
+      server.once('error', reject)
+      server.listen(0, '127.0.0.1', () => {
+        const { port } = server.address() as AddressInfo
+        server.close(() => resolve(port))
+      })
+    })
+  }
+
+  private save(run: TestRun): void {
+    testRunStore.saveRun(run)
+    for (const win of BrowserWindow.getAllWindows()) {
+      win.webContents.send('odoo:test-run-updated', run)
+    }
+  }
+}
+
+export const testRunner = new TestRunner()
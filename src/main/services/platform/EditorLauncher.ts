@@ -0,0 +1,35 @@
+import { existsSync } from 'fs'
+import { isAbsolute } from 'path'
+import { shell } from 'electron'
+import { settingsStore } from '../../store/SettingsStore'
+import { spawnDetached, splitCommandLine } from './ShellExecutor'
+
+class EditorLauncher {
+  /**
+   * Open a file at a line with AppSettings.editorCommand, a command line where
+   * {file} and {line} are replaced (e.g. `code --goto {file}:{line}`).
+   * Without a configured editor the file is only shown in its folder: the default
+   * application of a .py file may be the Python launcher, which would run it.
+   */
+  async open(filePath: string, line?: number): Promise<void> {
+    if (!isAbsolute(filePath) || !existsSync(filePath)) {
+      throw new Error(`File not found: ${filePath}`)
+    }
+
+    const template = settingsStore.get().editorCommand?.trim()
+    if (!template) {
+      shell.showItemInFolder(filePath)
+      return
+    }
+
+    const [command, ...rawArgs] = splitCommandLine(template)
+    const hasFile = rawArgs.some((arg) => arg.includes('{file}'))
+    const args = rawArgs.map((arg) =>
+      arg.replace(/\{file\}/g, filePath).replace(/\{line\}/g, String(line || 1))
+    )
+
+    await spawnDetached(command, hasFile ? args : [...args, filePath])
+  }
+}
+
+export const editorLauncher = new EditorLauncher()
@@ -26,6 +26,15 @@ class PlatformDetector {
     return join(this.homeDir, 'OdooProjects')
   }
 
+  /** Where Odoo keeps filestores and sessions when the config has no data_dir */
+  get odooDataDir(): string {
+    if (this.isWindows) {
+      return join(process.env.LOCALAPPDATA || join(this.homeDir, 'AppData', 'Local'), 'OpenERP S.A.', 'Odoo')
+    }
+    if (this.isMac) return join(this.homeDir, 'Library', 'Application Support', 'Odoo')
+    return join(process.env.XDG_DATA_HOME || join(this.homeDir, '.local', 'share'), 'Odoo')
+  }
+
   get pathSeparator(): string {
     return this.isWindows ? ';' : ':'
   }
@@ -0,0 +1,192 @@
+import { execFile } from 'child_process'
+import { readdir, readFile, readlink } from 'fs/promises'
+import { promisify } from 'util'
+import { platformDetector } from './PlatformDetector'
+
+const execFileAsync = promisify(execFile)
+
+/** Cumulative figures of a process and all its descendants */
+export interface ProcessTreeStats {
+  /** CPU time used so far, user and system */
+  cpuTimeMs: number
+  rssBytes: number
+  /** Established TCP connections */
+  connections: number
+  processes: number
+}
+
+interface ProcessInfo {
+  pid: number
+  ppid: number
+  cpuTimeMs: number
+  rssBytes: number
+}
+
+/** Linux clock ticks per second for /proc CPU times, 100 on every common kernel */
+const CLOCK_TICKS = 100
+
+/** TCP state code of established connections in /proc/net/tcp */
+const TCP_ESTABLISHED = '01'
+
+/**
+ * Sample a process tree (Odoo and its prefork workers) with what each
+ * platform offers without native modules: /proc on Linux, ps and lsof on
+ * macOS, CIM through PowerShell on Windows. Returns null once the root
+ * process is gone.
+ */
+export async function sampleProcessTree(rootPid: number): Promise<ProcessTreeStats | null> {
+  if (platformDetector.isLinux) return sampleLinux(rootPid)
+  if (platformDetector.isWindows) return sampleWindows(rootPid)
+  return sampleMac(rootPid)
+}
+
+function descendants(rootPid: number, processes: ProcessInfo[]): ProcessInfo[] {
+  const children = new Map<number, ProcessInfo[]>()
+  for (const proc of processes) {
+    children.set(proc.ppid, [...(children.get(proc.ppid) || []), proc])
+  }
+
+  const root = processes.find((p) => p.pid === rootPid)
+  if (!root) return []
+
+  // Reused pids on Windows can make a parent look like its own descendant
+  const seen = new Set([root.pid])
+  const tree = [root]
+  for (let i = 0; i < tree.length; i++) {
+    for (const child of children.get(tree[i].pid) || []) {
+      if (seen.has(child.pid)) continue
+      seen.add(child.pid)
+      tree.push(child)
+    }
+  }
+  return tree
+}
+
+function sum(tree: ProcessInfo[], connections: number): ProcessTreeStats {
+  return {
+    cpuTimeMs: tree.reduce((total, p) => total + p.cpuTimeMs, 0),
+    rssBytes: tree.reduce((total, p) => total + p.rssBytes, 0),
+    connections,
+    processes: tree.length
+  }
+}
+
+async function sampleLinux(rootPid: number): Promise<ProcessTreeStats | null> {
+  const processes: ProcessInfo[] = []
+  for (const entry of await readdir('/proc')) {
+    if (!/^\d+$/.test(entry)) continue
+    const stat = await readFile(`/proc/${entry}/stat`, 'utf-8').catch(() => null)
+    if (!stat) continue
+
+    // Fields after the command name, which may itself contain spaces and parentheses
+    const fields = stat.slice(stat.lastIndexOf(')') + 2).split(' ')
+    processes.push({
+      pid: parseInt(entry, 10),
+      ppid: parseInt(fields[1], 10),
+      cpuTimeMs: ((parseInt(fields[11], 10) + parseInt(fields[12], 10)) * 1000) / CLOCK_TICKS,
+      rssBytes: 0
+    })
+  }
+
+  const tree = descendants(rootPid, processes)
+  if (tree.length === 0) return null
+
+  for (const proc of tree) {
+    const status = await readFile(`/proc/${proc.pid}/status`, 'utf-8').catch(() => '')
+    const match = status.match(/^VmRSS:\s+(\d+) kB/m)
+    proc.rssBytes = match ? parseInt(match[1], 10) * 1024 : 0
+  }
+
+  // Socket inodes of established connections, matched against the open file descriptors
+  const established = new Set<string>()
+  for (const table of ['tcp', 'tcp6']) {
+    const content = await readFile(`/proc/${rootPid}/net/${table}`, 'utf-8').catch(() => '')
+    for (const line of content.split('\n').slice(1)) {
+      const columns = line.trim().split(/\s+/)
+      if (columns[3] === TCP_ESTABLISHED) established.add(columns[9])
+    }
+  }
+
+  let connections = 0
+  for (const proc of tree) {
+    const fds = await readdir(`/proc/${proc.pid}/fd`).catch(() => [])
+    for (const fd of fds) {
+      const target = await readlink(`/proc/${proc.pid}/fd/${fd}`).catch(() => '')
+      const inode = target.match(/^socket:\[(\d+)\]$/)?.[1]
+      if (inode && established.has(inode)) connections++
+    }
+  }
+
+  return sum(tree, connections)
+}
+
+/** ps TIME column: [[dd-]hh:]mm:ss[.cc] */
+function parseCpuTime(value: string): number {
+  const [days, rest] = value.includes('-') ? value.split('-') : ['0', value]
+  const parts = rest.split(':').map(parseFloat).reverse()
+  const seconds = (parts[0] || 0) + (parts[1] || 0) * 60 + (parts[2] || 0) * 3600 + parseInt(days, 10) * 86400
+  return seconds * 1000
+}
+
+async function sampleMac(rootPid: number): Promise<ProcessTreeStats | null> {
+  const { stdout } = await execFileAsync('ps', ['-A', '-o', 'pid=,ppid=,rss=,time='])
+  const processes: ProcessInfo[] = stdout
+    .split('\n')
+    .map((line) => line.trim().split(/\s+/))
+    .filter((columns) => columns.length >= 4)
+    .map(([pid, ppid, rss, time]) => ({
+      pid: parseInt(pid, 10),
+      ppid: parseInt(ppid, 10),
+      cpuTimeMs: parseCpuTime(time),
+      rssBytes: parseInt(rss, 10) * 1024
+    }))
+
+  const tree = descendants(rootPid, processes)
+  if (tree.length === 0) return null
+
+  // lsof exits with 1 when nothing matches
+  const lsof = await execFileAsync('lsof', [
+    '-a', '-iTCP', '-sTCP:ESTABLISHED', '-n', '-P', '-p', tree.map((p) => p.pid).join(',')
+  ]).catch((error: { stdout?: string }) => ({ stdout: error.stdout || '' }))
+  const connections = Math.max(0, lsof.stdout.trim().split('\n').filter(Boolean).length - 1)
+
+  return sum(tree, connections)
+}
+
+const WINDOWS_SCRIPT = [
+  '$procs = Get-CimInstance Win32_Process | Select-Object ProcessId,ParentProcessId,WorkingSetSize,KernelModeTime,UserModeTime',
+  '$conns = Get-NetTCPConnection -State Established -ErrorAction SilentlyContinue | Select-Object OwningProcess',
+  '@{ procs = @($procs); conns = @($conns) } | ConvertTo-Json -Compress -Depth 3'
+].join('; ')
+
+async function sampleWindows(rootPid: number): Promise<ProcessTreeStats | null> {
+  const { stdout } = await execFileAsync('powershell.exe', ['-NoProfile', '-NonInteractive', '-Command', WINDOWS_SCRIPT], {
+    maxBuffer: 16 * 1024 * 1024,
+    windowsHide: true
+  })
+  const data = JSON.parse(stdout) as {
+    procs: Array<{
+      ProcessId: number
+      ParentProcessId: number
+      WorkingSetSize: number
+      KernelModeTime: number
+      UserModeTime: number
+    }>
+    conns: Array<{ OwningProcess: number }>
+  }
+
+  // CIM times are in 100 ns units
+  const processes: ProcessInfo[] = data.procs.map((p) => ({
+    pid: p.ProcessId,
+    ppid: p.ParentProcessId,
+    cpuTimeMs: ((p.KernelModeTime || 0) + (p.UserModeTime || 0)) / 10000,
+    rssBytes: p.WorkingSetSize || 0
+  }))
+
+  const tree = descendants(rootPid, processes)
+  if (tree.length === 0) return null
+
+  const pids = new Set(tree.map((p) => p.pid))
+  const connections = data.conns.filter((c) => pids.has(c.OwningProcess)).length
+  return sum(tree, connections)
+}
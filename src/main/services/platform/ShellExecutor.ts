@@ -1,9 +1,10 @@
-import { exec, spawn, type ChildProcess } from 'child_process'
+import { exec, execFile, spawn, type ChildProcess } from 'child_process'
 import { existsSync } from 'fs'
 import { promisify } from 'util'
 import { platformDetector } from './PlatformDetector'
 
 const execAsync = promisify(exec)
+const execFileAsync = promisify(execFile)
 
 /** Extra bin directories that may not be in Electron's default PATH on macOS */
 const EXTRA_MAC_PATHS = [
@@ -67,6 +68,20 @@ export async function execCommandSafe(
   }
 }
 
+/** Run a program without a shell: arguments reach it as they are, whatever they contain */
+export async function execFileSafe(
+  file: string,
+  args: string[],
+  timeout = 15000
+): Promise<ExecResult | null> {
+  try {
+    const { stdout, stderr } = await execFileAsync(file, args, { timeout, env: getEnhancedEnv() })
+    return { stdout: stdout.trim(), stderr: stderr.trim() }
+  } catch {
+    return null
+  }
+}
+
 export function spawnWithProgress(
   command: string,
   args: string[],
@@ -91,3 +106,27 @@ export function spawnWithProgress(
 
   return child
 }
+
+/** Split a command line into arguments, double quotes group words: code --goto "{file}:{line}" */
+export function splitCommandLine(text: string): string[] {
+  return [...text.matchAll(/"([^"]*)"|(\S+)/g)].map((m) => m[1] ?? m[2])
+}
+
+/**
+ * Launch a GUI program without waiting for it. Resolves once it started,
+ * rejects if it could not be found.
+ */
+export function spawnDetached(command: string, args: string[]): Promise<void> {
+  return new Promise((resolve, reject) => {
+    // .cmd launchers (code.cmd, ...) need a shell on Windows, quote the arguments for it
+    const child = platformDetector.isWindows
+      ? spawn(command, args.map((arg) => `"${arg}"`), { shell: true, detached: true, stdio: 'ignore', env: getEnhancedEnv() })
+      : spawn(command, args, { detached: true, stdio: 'ignore', env: getEnhancedEnv() })
+
+    child.once('error', (err) => reject(new Error(`Failed to start ${command}: ${err.message}`)))
+    child.once('spawn', () => {
+      child.unref()
+      resolve()
+    })
+  })
+}
@@ -1,4 +1,28 @@
-import { execCommandSafe, execCommand } from '../platform/ShellExecutor'
+import { mkdir, rm, rename, stat, cp, readFile, writeFile } from 'fs/promises'
+import { existsSync } from 'fs'
+import { basename, extname, join } from 'path'
+import { spawn } from 'child_process'
+import { randomUUID } from 'crypto'
+import type { OdooInstance } from '@shared/types/odoo'
+import type { DatabaseSnapshot, OdooBackupManifest } from '@shared/types/database'
+import { execCommandSafe, execCommand, execFileSafe } from '../platform/ShellExecutor'
+import { platformDetector } from '../platform/PlatformDetector'
+import { instanceStore } from '../../store/InstanceStore'
+import { venvManager } from '../python/VenvManager'
+import { odooProcessManager } from '../odoo/OdooProcessManager'
+import { neutralizeManager } from '../odoo/NeutralizeManager'
+
+type ProgressCallback = (message: string, percent: number) => void
+type StepProgressCallback = (step: string, message: string, percent: number) => void
+
+/** pg_dump / pg_restore / tar on a real customer database can take a while */
+const DUMP_TIMEOUT = 30 * 60 * 1000
+
+/** Same rule as Odoo's database manager (odoo.service.db.DBNAME_PATTERN) */
+const DBNAME_PATTERN = /^[a-zA-Z0-9][a-zA-Z0-9_.-]+$/
+
+/** What odoo-bin needs to initialize a database */
+type InitializeTarget = Pick<OdooInstance, 'venvPath' | 'odooPath' | 'configPath' | 'basePath'>
 
 export class DatabaseManager {
   async createDatabase(dbName: string, dbUser: string): Promise<void> {
@@ -21,16 +45,15 @@ export class DatabaseManager {
   }
 
   async databaseExists(dbName: string): Promise<boolean> {
-    const result = await execCommandSafe(
-      `psql -U postgres -lqt | grep -w ${dbName}`
-    )
-    if (result && result.stdout.includes(dbName)) return true
+    // psql has no bound parameters: the name goes in as an SQL literal, and no shell sees it
+    const query = `SELECT 1 FROM pg_database WHERE datname = '${dbName.replace(/'/g, "''")}'`
 
-    // Try without specifying user
-    const result2 = await execCommandSafe(
-      `psql -lqt | grep -w ${dbName}`
-    )
-    return !!(result2 && result2.stdout.includes(dbName))
+    // Try with postgres user first, then without
+    for (const userArgs of [['-U', 'postgres'], []]) {
+      const result = await execFileSafe('psql', [...userArgs, '-d', 'postgres', '-tAc', query])
+      if (result) return result.stdout === '1'
+    }
+    return false
   }
 
   async listDatabases(): Promise<string[]> {
@@ -49,6 +72,632 @@ export class DatabaseManager {
       .filter((name) => name && !['', 'template0', 'template1', 'postgres'].includes(name))
   }
 
+  listInstanceDatabases(instanceId: string): string[] {
+    if (!instanceStore.exists(instanceId)) throw new Error('Instance not found')
+    return instanceStore.getDatabases(instanceId)
+  }
+
+  /** Create a new database for the instance with the base module installed */
+  async createInstanceDatabase(
+    instanceId: string,
+    dbName: string,
+    onProgress: ProgressCallback
+  ): Promise<void> {
+    const instance = instanceStore.get(instanceId)
+    if (!instance) throw new Error('Instance not found')
+
+    await this.validateNewDatabaseName(dbName)
+
+    try {
+      onProgress(`Creating database ${dbName}...`, 5)
+      await this.createDatabase(dbName, instance.dbUser)
+
+      await this.initializeDatabase(instance, dbName, (message, percent) =>
+        onProgress(message, 10 + Math.round(percent * 0.85))
+      )
+    } catch (error) {
+      await this.dropDatabase(dbName, instance.dbUser).catch(() => {})
+      throw error
+    }
+
+    instanceStore.addDatabase(instanceId, dbName)
+    onProgress('Database created', 100)
+  }
+
+  /** Copy one of the instance databases (createdb -T) along with its filestore */
+  async duplicateInstanceDatabase(
+    instanceId: string,
+    sourceDb: string,
+    targetDb: string,
+    onProgress: ProgressCallback
+  ): Promise<void> {
+    const instance = instanceStore.get(instanceId)
+    if (!instance) throw new Error('Instance not found')
+
+    if (!instanceStore.getDatabases(instanceId).includes(sourceDb)) {
+      throw new Error(`Database "${sourceDb}" does not belong to this instance`)
+    }
+    if (sourceDb === instance.dbName && odooProcessManager.isRunning(instanceId)) {
+      throw new Error('Stop the instance before duplicating its active database')
+    }
+    await this.validateNewDatabaseName(targetDb)
+
+    onProgress(`Copying ${sourceDb} to ${targetDb}...`, 10)
+    await this.cloneDatabase(
+      sourceDb,
+      targetDb,
+      instance.dbUser,
+      this.getFilestorePath(instance, sourceDb),
+      this.getFilestorePath(instance, targetDb)
+    )
+
+    instanceStore.addDatabase(instanceId, targetDb)
+    instanceStore.setNeutralized(instanceId, targetDb, instance.neutralizedDatabases?.[sourceDb])
+    onProgress('Database duplicated', 100)
+  }
+
+  /** Drop one of the instance databases and its filestore. The active database cannot be dropped. */
+  async dropInstanceDatabase(instanceId: string, dbName: string): Promise<void> {
+    const instance = instanceStore.get(instanceId)
+    if (!instance) throw new Error('Instance not found')
+
+    if (dbName === instance.dbName) {
+      throw new Error('Switch to another database before dropping the active one')
+    }
+    if (!instanceStore.getDatabases(instanceId).includes(dbName)) {
+      throw new Error(`Database "${dbName}" does not belong to this instance`)
+    }
+
+    await this.dropDatabase(dbName, instance.dbUser)
+    await rm(this.getFilestorePath(instance, dbName), { recursive: true, force: true })
+    instanceStore.removeDatabase(instanceId, dbName)
+    instanceStore.setNeutralized(instanceId, dbName, undefined)
+  }
+
+  /** Make dbName the database used by the server and the shell */
+  async setActiveDatabase(instanceId: string, dbName: string): Promise<void> {
+    const instance = instanceStore.get(instanceId)
+    if (!instance) throw new Error('Instance not found')
+    if (instance.dbName === dbName) return
+
+    if (!instanceStore.getDatabases(instanceId).includes(dbName)) {
+      throw new Error(`Database "${dbName}" does not belong to this instance`)
+    }
+    if (odooProcessManager.isRunning(instanceId)) {
+      throw new Error('Stop the instance before switching databases')
+    }
+
+    // Keep db_name in odoo.conf in sync, odoo:write-config reads it back
+    const configContent = await readFile(instance.configPath, 'utf-8')
+    const lines = configContent.split('\n')
+    const index = lines.findIndex((l) => l.trim().startsWith('db_name'))
+    if (index >= 0) {
+      lines[index] = `db_name = ${dbName}`
+    } else {
+      const optionsIdx = lines.findIndex((l) => l.trim() === '[options]')
+      if (optionsIdx >= 0) lines.splice(optionsIdx + 1, 0, `db_name = ${dbName}`)
+    }
+    await writeFile(instance.configPath, lines.join('\n'), 'utf-8')
+
+    instanceStore.update(instanceId, { dbName })
+  }
+
+  /** Install the base module in dbName (odoo-bin -i base --stop-after-init) */
+  initializeDatabase(
+    target: InitializeTarget,
+    dbName: string,
+    onProgress: ProgressCallback
+  ): Promise<void> {
+    const pythonBin = venvManager.getPythonBin(target.venvPath)
+    const odooBin = join(target.odooPath, 'odoo-bin')
+
+    return new Promise<void>((resolve, reject) => {
+      onProgress('Starting database initialization...', 0)
+
+      const child = spawn(
+        pythonBin,
+        [odooBin, '-c', target.configPath, '-d', dbName, '-i', 'base', '--stop-after-init'],
+        {
+          cwd: target.basePath,
+          stdio: ['ignore', 'pipe', 'pipe'],
+          env: {
+            ...process.env,
+            PYTHONUNBUFFERED: '1'
+          }
+        }
+      )
+
+      let lastModule = ''
+      let hasError = false
+      let errorOutput = ''
+
+      const handleData = (data: Buffer): void => {
+        const text = data.toString()
+        const lines = text.split('\n').filter(Boolean)
+
+        for (const line of lines) {
+          // Track module loading progress
+          const moduleMatch = line.match(/Loading module (\w+)/)
+          if (moduleMatch && moduleMatch[1] !== lastModule) {
+            lastModule = moduleMatch[1]
+            onProgress(`Loading module: ${lastModule}...`, 30)
+          }
+
+          // Track specific phases
+          if (line.includes('loading base module')) {
+            onProgress('Loading base module...', 10)
+          } else if (line.includes('updating modules list')) {
+            onProgress('Updating modules list...', 50)
+          } else if (line.includes('Modules loaded')) {
+            onProgress('Modules loaded, finalizing...', 80)
+          } else if (line.includes('odoo.modules.loading: Modules loaded')) {
+            onProgress('Database initialized successfully', 95)
+          }
+
+          // Detect critical errors
+          if (line.includes('CRITICAL') || (line.includes('ERROR') && line.includes('odoo.modules'))) {
+            hasError = true
+            errorOutput += line + '\n'
+          }
+        }
+      }
+
+      child.stdout?.on('data', handleData)
+      child.stderr?.on('data', handleData)
+
+      child.on('close', (code) => {
+        if (code === 0) {
+          onProgress('Database initialized', 100)
+          resolve()
+        } else if (hasError) {
+          reject(new Error(`Database initialization failed:\n${errorOutput.slice(0, 500)}`))
+        } else {
+          reject(new Error(`Database initialization failed with exit code ${code}`))
+        }
+      })
+
+      child.on('error', (err) => {
+        reject(new Error(`Failed to start database initialization: ${err.message}`))
+      })
+    })
+  }
+
+  /** Filestore of a database, inside the data_dir generated by createInstance or the imported one */
+  getFilestorePath(instance: OdooInstance, dbName = instance.dbName): string {
+    return join(instance.dataDir || join(instance.basePath, 'data'), 'filestore', dbName)
+  }
+
+  listSnapshots(instanceId: string): DatabaseSnapshot[] {
+    if (!instanceStore.exists(instanceId)) throw new Error('Instance not found')
+    return instanceStore.getSnapshots(instanceId)
+  }
+
+  async createSnapshot(
+    instanceId: string,
+    name: string | undefined,
+    onProgress: ProgressCallback
+  ): Promise<DatabaseSnapshot> {
+    const instance = instanceStore.get(instanceId)
+    if (!instance) throw new Error('Instance not found')
+
+    if (!(await this.databaseExists(instance.dbName))) {
+      throw new Error(`Database "${instance.dbName}" does not exist`)
+    }
+
+    const id = randomUUID()
+    const createdAt = new Date().toISOString()
+    const snapshotDir = join(instance.basePath, 'snapshots', id)
+    const dumpPath = join(snapshotDir, 'dump.pgdump')
+    const filestoreArchive = join(snapshotDir, 'filestore.tar.gz')
+    const filestorePath = this.getFilestorePath(instance)
+
+    try {
+      await mkdir(snapshotDir, { recursive: true })
+
+      // Step 1: Dump the database in custom format (compressed, pg_restore-able)
+      onProgress(`Dumping database ${instance.dbName}...`, 10)
+      await execCommand(
+        `pg_dump -U ${instance.dbUser} -Fc -f "${dumpPath}" ${instance.dbName}`,
+        DUMP_TIMEOUT
+      )
+
+      // Step 2: Archive the filestore (attachments), if any
+      const hasFilestore = existsSync(filestorePath)
+      if (hasFilestore) {
+        onProgress('Archiving filestore...', 60)
+        await execCommand(
+          `tar -czf "${filestoreArchive}" -C "${join(filestorePath, '..')}" ${instance.dbName}`,
+          DUMP_TIMEOUT
+        )
+      }
+
+      onProgress('Saving snapshot...', 95)
+      const snapshot: DatabaseSnapshot = {
+        id,
+        name: name?.trim() || `${instance.dbName} ${createdAt.slice(0, 16).replace('T', ' ')}`,
+        dbName: instance.dbName,
+        path: snapshotDir,
+        size: (await this.fileSize(dumpPath)) + (await this.fileSize(filestoreArchive)),
+        hasFilestore,
+        createdAt
+      }
+      instanceStore.addSnapshot(instanceId, snapshot)
+
+      onProgress('Snapshot created', 100)
+      return snapshot
+    } catch (error) {
+      // Don't leave half-written snapshots around
+      await rm(snapshotDir, { recursive: true, force: true }).catch(() => {})
+      throw error
+    }
+  }
+
+  async restoreSnapshot(
+    instanceId: string,
+    snapshotId: string,
+    onProgress: ProgressCallback
+  ): Promise<void> {
+    const instance = instanceStore.get(instanceId)
+    if (!instance) throw new Error('Instance not found')
+
+    const snapshot = instanceStore.getSnapshots(instanceId).find((s) => s.id === snapshotId)
+    if (!snapshot) throw new Error('Snapshot not found')
+
+    const dumpPath = join(snapshot.path, 'dump.pgdump')
+    if (!existsSync(dumpPath)) {
+      throw new Error(`Snapshot dump not found at ${dumpPath}`)
+    }
+
+    if (odooProcessManager.isRunning(instanceId)) {
+      throw new Error('Stop the instance before restoring a snapshot')
+    }
+    // A snapshot only replaces the database it was taken from
+    if (snapshot.dbName !== instance.dbName) {
+      throw new Error(`This snapshot was taken from "${snapshot.dbName}": switch to that database to restore it`)
+    }
+
+    // Step 1: Recreate the database from the dump
+    onProgress(`Dropping database ${instance.dbName}...`, 5)
+    await this.dropDatabase(instance.dbName, instance.dbUser)
+    await this.createDatabase(instance.dbName, instance.dbUser)
+
+    onProgress('Restoring database...', 15)
+    await this.pgRestore(instance.dbName, instance.dbUser, dumpPath)
+
+    // Step 2: Replace the filestore with the archived one
+    const filestorePath = this.getFilestorePath(instance)
+    onProgress('Restoring filestore...', 75)
+    await rm(filestorePath, { recursive: true, force: true })
+    if (snapshot.hasFilestore) {
+      // Extract next to the filestores rather than among them, then move it in place
+      const staging = join(filestorePath, '..', `.restore-${snapshot.id}`)
+      await rm(staging, { recursive: true, force: true })
+      await mkdir(staging, { recursive: true })
+      try {
+        await execCommand(
+          `tar -xzf "${join(snapshot.path, 'filestore.tar.gz')}" -C "${staging}"`,
+          DUMP_TIMEOUT
+        )
+        await rename(join(staging, snapshot.dbName), filestorePath)
+      } finally {
+        await rm(staging, { recursive: true, force: true })
+      }
+    }
+
+    onProgress('Snapshot restored', 100)
+  }
+
+  async deleteSnapshot(instanceId: string, snapshotId: string): Promise<void> {
+    const snapshot = instanceStore.getSnapshots(instanceId).find((s) => s.id === snapshotId)
+    if (!snapshot) throw new Error('Snapshot not found')
+
+    if (existsSync(snapshot.path)) {
+      await rm(snapshot.path, { recursive: true, force: true })
+    }
+    instanceStore.removeSnapshot(instanceId, snapshotId)
+  }
+
+  /**
+   * Export the instance database in the format produced by Odoo's database manager
+   * (/web/database/backup): a zip with dump.sql, filestore/ and manifest.json.
+   */
+  async exportBackup(
+    instanceId: string,
+    targetPath: string,
+    onProgress: StepProgressCallback
+  ): Promise<void> {
+    const instance = instanceStore.get(instanceId)
+    if (!instance) throw new Error('Instance not found')
+
+    if (!(await this.databaseExists(instance.dbName))) {
+      throw new Error(`Database "${instance.dbName}" does not exist`)
+    }
+
+    const stagingDir = join(instance.basePath, 'tmp', randomUUID())
+
+    try {
+      await mkdir(stagingDir, { recursive: true })
+
+      onProgress('dump', `Dumping database ${instance.dbName}...`, 5)
+      await execCommand(
+        `pg_dump -U ${instance.dbUser} --no-owner -f "${join(stagingDir, 'dump.sql')}" ${instance.dbName}`,
+        DUMP_TIMEOUT
+      )
+
+      onProgress('filestore', 'Copying filestore...', 50)
+      const filestorePath = this.getFilestorePath(instance)
+      if (existsSync(filestorePath)) {
+        await cp(filestorePath, join(stagingDir, 'filestore'), { recursive: true })
+      } else {
+        await mkdir(join(stagingDir, 'filestore'))
+      }
+
+      onProgress('manifest', 'Writing manifest...', 70)
+      const manifest = await this.buildManifest(instance)
+      await writeFile(join(stagingDir, 'manifest.json'), JSON.stringify(manifest, null, 4), 'utf-8')
+
+      onProgress('archive', 'Creating zip archive...', 75)
+      await rm(targetPath, { force: true })
+      await this.zipDirectory(stagingDir, targetPath)
+
+      onProgress('done', 'Backup exported', 100)
+    } finally {
+      await rm(stagingDir, { recursive: true, force: true }).catch(() => {})
+    }
+  }
+
+  /**
+   * Import a backup into the instance database, replacing the current database
+   * and, when the backup has one, the filestore. Accepts the same formats as
+   * restoreFromFile.
+   */
+  async importBackup(
+    instanceId: string,
+    filePath: string,
+    neutralize: boolean,
+    onProgress: StepProgressCallback
+  ): Promise<OdooBackupManifest | null> {
+    const instance = instanceStore.get(instanceId)
+    if (!instance) throw new Error('Instance not found')
+
+    if (odooProcessManager.isRunning(instanceId)) {
+      throw new Error('Stop the instance before importing a backup')
+    }
+
+    const manifest = await this.restoreFromFile(
+      {
+        dbName: instance.dbName,
+        dbUser: instance.dbUser,
+        filePath,
+        filestorePath: this.getFilestorePath(instance),
+        workDir: join(instance.basePath, 'tmp'),
+        expectedVersion: instance.version
+      },
+      onProgress
+    )
+
+    let neutralizedAt: string | undefined
+    if (neutralize) {
+      await neutralizeManager.neutralizeDatabase(instance, (message, percent) =>
+        onProgress('neutralize', message, 95 + Math.round(percent * 0.04))
+      )
+      neutralizedAt = new Date().toISOString()
+    }
+    instanceStore.setNeutralized(instanceId, instance.dbName, neutralizedAt)
+
+    onProgress('done', 'Backup imported', 100)
+    return manifest
+  }
+
+  /**
+   * (Re)create dbName from a backup file: an Odoo database manager zip
+   * (dump.sql + filestore/ + manifest.json), a pg_dump custom-format dump
+   * or a plain SQL dump. The filestore at filestorePath is replaced by the
+   * one of the backup; dumps without one leave it as it is.
+   */
+  async restoreFromFile(
+    options: {
+      dbName: string
+      dbUser: string
+      filePath: string
+      filestorePath: string
+      workDir: string
+      expectedVersion?: string
+    },
+    onProgress: StepProgressCallback
+  ): Promise<OdooBackupManifest | null> {
+    const { dbName, dbUser, filePath, filestorePath, workDir, expectedVersion } = options
+
+    if (!existsSync(filePath)) throw new Error(`Backup not found at ${filePath}`)
+
+    const extension = extname(filePath).toLowerCase()
+    const stagingDir = join(workDir, randomUUID())
+    let manifest: OdooBackupManifest | null = null
+
+    try {
+      let dumpPath = filePath
+      if (extension === '.zip') {
+        await mkdir(stagingDir, { recursive: true })
+
+        onProgress('extract', 'Extracting backup...', 5)
+        await this.unzipArchive(filePath, stagingDir)
+
+        dumpPath = join(stagingDir, 'dump.sql')
+        if (!existsSync(dumpPath)) {
+          throw new Error('Invalid backup: dump.sql not found in archive')
+        }
+
+        manifest = await this.readManifest(stagingDir)
+        if (expectedVersion && manifest?.major_version && manifest.major_version !== expectedVersion) {
+          throw new Error(
+            `Backup was made with Odoo ${manifest.major_version}, but this instance runs Odoo ${expectedVersion}`
+          )
+        }
+      }
+
+      onProgress('database', `Recreating database ${dbName}...`, 20)
+      await this.dropDatabase(dbName, dbUser)
+      await this.createDatabase(dbName, dbUser)
+
+      onProgress('restore', `Restoring ${basename(dumpPath)}...`, 25)
+      if (extension === '.zip' || extension === '.sql') {
+        // All or nothing: a truncated or broken dump must fail the restore, not leave half a database
+        await execCommand(
+          `psql -U ${dbUser} -q -v ON_ERROR_STOP=1 --single-transaction -d ${dbName} -f "${dumpPath}"`,
+          DUMP_TIMEOUT
+        )
+      } else {
+        await this.pgRestore(dbName, dbUser, dumpPath)
+      }
+
+      if (existsSync(join(stagingDir, 'filestore'))) {
+        onProgress('filestore', 'Restoring filestore...', 85)
+        await rm(filestorePath, { recursive: true, force: true })
+        await mkdir(join(filestorePath, '..'), { recursive: true })
+        await this.moveDirectory(join(stagingDir, 'filestore'), filestorePath)
+      } else {
+        onProgress('filestore', 'No filestore in the backup, keeping the current one', 85)
+      }
+
+      onProgress('restore', 'Database restored', 95)
+      return manifest
+    } finally {
+      await rm(stagingDir, { recursive: true, force: true }).catch(() => {})
+    }
+  }
+
+  /** Create targetDb as a copy of sourceDb (createdb -T), including its filestore */
+  async cloneDatabase(
+    sourceDb: string,
+    targetDb: string,
+    dbUser: string,
+    sourceFilestorePath: string | undefined,
+    targetFilestorePath: string
+  ): Promise<void> {
+    if (!(await this.databaseExists(sourceDb))) {
+      throw new Error(`Database "${sourceDb}" does not exist`)
+    }
+    if (await this.databaseExists(targetDb)) {
+      throw new Error(`Database "${targetDb}" already exists`)
+    }
+
+    await this.ensureUser(dbUser)
+    // Fails if anything is connected to the source: createdb needs exclusive access to the template
+    await execCommand(`createdb -U ${dbUser} -T ${sourceDb} ${targetDb}`, DUMP_TIMEOUT)
+
+    if (sourceFilestorePath && existsSync(sourceFilestorePath)) {
+      await rm(targetFilestorePath, { recursive: true, force: true })
+      await cp(sourceFilestorePath, targetFilestorePath, { recursive: true })
+    }
+  }
+
+  /** State and installed version of every module known to a database, empty if it is not initialized */
+  async listModuleStates(
+    dbName: string,
+    dbUser: string
+  ): Promise<Record<string, { state: string; version: string }>> {
+    const rows = await this.query(dbName, dbUser, 'SELECT name, state, latest_version FROM ir_module_module')
+    return Object.fromEntries(
+      rows.map(([name, state, version]) => [name, { state, version: version || '' }])
+    )
+  }
+
+  /** Reject names Odoo would refuse and names already taken: they end up in shell commands and paths */
+  async validateNewDatabaseName(dbName: string): Promise<void> {
+    if (!DBNAME_PATTERN.test(dbName)) {
+      throw new Error(
+        `Invalid database name "${dbName}": use letters, digits, "_", "." or "-", starting with a letter or digit`
+      )
+    }
+    if (await this.databaseExists(dbName)) {
+      throw new Error(`Database "${dbName}" already exists`)
+    }
+  }
+
+  private async buildManifest(instance: OdooInstance): Promise<OdooBackupManifest> {
+    const major = parseInt(instance.version, 10)
+
+    const pgVersion = await this.query(instance.dbName, instance.dbUser, 'SHOW server_version')
+    const modules = await this.query(
+      instance.dbName,
+      instance.dbUser,
+      "SELECT name, latest_version FROM ir_module_module WHERE state = 'installed'"
+    )
+
+    return {
+      odoo_dump: '1',
+      db_name: instance.dbName,
+      version: instance.version,
+      version_info: [major, 0, 0, 'final', 0, ''],
+      major_version: instance.version,
+      pg_version: pgVersion[0]?.[0]?.split(' ')[0] || '',
+      modules: Object.fromEntries(modules.map(([name, version]) => [name, version || '']))
+    }
+  }
+
+  private async readManifest(dir: string): Promise<OdooBackupManifest | null> {
+    const manifestPath = join(dir, 'manifest.json')
+    if (!existsSync(manifestPath)) return null
+    try {
+      return JSON.parse(await readFile(manifestPath, 'utf-8')) as OdooBackupManifest
+    } catch {
+      return null
+    }
+  }
+
+  /** Run a read-only query and return rows as arrays of column values */
+  private async query(dbName: string, dbUser: string, sql: string): Promise<string[][]> {
+    const result = await execCommandSafe(`psql -U ${dbUser} -d ${dbName} -tA -F "|" -c "${sql}"`)
+    if (!result || !result.stdout) return []
+    return result.stdout.split('\n').filter(Boolean).map((line) => line.split('|'))
+  }
+
+  private async zipDirectory(sourceDir: string, zipPath: string): Promise<void> {
+    if (platformDetector.isWindows) {
+      // bsdtar ships with Windows 10+ and picks the zip format from the extension
+      await execCommand(`tar -a -c -f "${zipPath}" -C "${sourceDir}" .`, DUMP_TIMEOUT)
+    } else {
+      await execCommand(`cd "${sourceDir}" && zip -q -r "${zipPath}" .`, DUMP_TIMEOUT)
+    }
+  }
+
+  private async unzipArchive(zipPath: string, targetDir: string): Promise<void> {
+    if (platformDetector.isWindows) {
+      await execCommand(`tar -x -f "${zipPath}" -C "${targetDir}"`, DUMP_TIMEOUT)
+    } else {
+      await execCommand(`unzip -q -o "${zipPath}" -d "${targetDir}"`, DUMP_TIMEOUT)
+    }
+  }
+
+  private async pgRestore(dbName: string, dbUser: string, dumpPath: string): Promise<void> {
+    try {
+      await execCommand(
+        `pg_restore -U ${dbUser} --no-owner --no-acl -d ${dbName} "${dumpPath}"`,
+        DUMP_TIMEOUT
+      )
+    } catch (error) {
+      // pg_restore exits non-zero for harmless warnings (e.g. missing roles, extension comments)
+      const message = error instanceof Error ? error.message : ''
+      if (!message.includes('errors ignored on restore')) throw error
+    }
+  }
+
+  /** rename, or copy and delete when the work dir and the data dir are on different filesystems */
+  private async moveDirectory(source: string, target: string): Promise<void> {
+    try {
+      await rename(source, target)
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'EXDEV') throw error
+      await cp(source, target, { recursive: true })
+      await rm(source, { recursive: true, force: true })
+    }
+  }
+
+  private async fileSize(path: string): Promise<number> {
+    if (!existsSync(path)) return 0
+    return (await stat(path)).size
+  }
+
   private async ensureUser(dbUser: string): Promise<void> {
     // Check if user exists
     const result = await execCommandSafe(
@@ -4,6 +4,31 @@ import { venvManager } from './VenvManager'
 
 type ProgressCallback = (message: string, percent: number) => void
 
+/**
+ * external_dependencies.python lists import names before Odoo 16 (distribution
+ * names since). Map the common ones whose import name is not installable as is.
+ */
+const IMPORT_TO_PIP_NAME: Record<string, string> = {
+  barcode: 'python-barcode',
+  bs4: 'beautifulsoup4',
+  Crypto: 'pycryptodome',
+  cv2: 'opencv-python-headless',
+  dateutil: 'python-dateutil',
+  docx: 'python-docx',
+  git: 'GitPython',
+  jwt: 'PyJWT',
+  ldap: 'python-ldap',
+  magic: 'python-magic',
+  OpenSSL: 'pyOpenSSL',
+  PIL: 'Pillow',
+  pptx: 'python-pptx',
+  serial: 'pyserial',
+  sklearn: 'scikit-learn',
+  slugify: 'python-slugify',
+  stdnum: 'python-stdnum',
+  yaml: 'PyYAML'
+}
+
 export class PipManager {
   async installRequirements(
     venvPath: string,
@@ -22,11 +47,80 @@ export class PipManager {
     await this.runCommand(pythonBin, ['-m', 'pip', 'install', '--upgrade', 'pip', 'setuptools', 'wheel'], (msg) => onProgress(msg, 10))
 
     // Install requirements (prefer binary wheels to avoid C compilation)
-    return new Promise((resolve, reject) => {
-      onProgress('Installing Python dependencies...', 15)
+    onProgress('Installing Python dependencies...', 15)
+    await this.pipInstall(pipBin, ['-r', requirementsPath], onProgress, 15, 95)
+    onProgress('Dependencies installed', 100)
+  }
+
+  /**
+   * Install what an addon repo needs on top of Odoo: its requirements.txt and
+   * the external_dependencies.python of its manifests. Already satisfied
+   * requirements make this a quick no-op.
+   */
+  async installAddonRequirements(
+    venvPath: string,
+    requirementsPath: string | null,
+    packages: string[],
+    onProgress: ProgressCallback
+  ): Promise<void> {
+    const pipBin = venvManager.getPipBin(venvPath)
+
+    if (requirementsPath && existsSync(requirementsPath)) {
+      onProgress('Installing requirements.txt...', 10)
+      await this.pipInstall(pipBin, ['-r', requirementsPath], onProgress, 10, 60)
+    }
+
+    const pipNames = [...new Set(packages.map((p) => IMPORT_TO_PIP_NAME[p] || p))]
+    if (pipNames.length > 0) {
+      onProgress(`Installing ${pipNames.join(', ')}...`, 60)
+      try {
+        await this.pipInstall(pipBin, pipNames, onProgress, 60, 95)
+      } catch {
+        // One unknown package fails the whole batch: retry one by one to install the rest
+        const failed: string[] = []
+        for (const name of pipNames) {
+          await this.pipInstall(pipBin, [name], onProgress, 60, 95).catch(() => failed.push(name))
+        }
+        if (failed.length > 0) {
+          throw new Error(`Could not install Python packages: ${failed.join(', ')}`)
+        }
+      }
+    }
+
+    onProgress('Python requirements installed', 100)
+  }
+
+  /**
+   * Install a package unless the venv can already import it.
+   * Returns whether anything was installed.
+   */
+  async ensurePackage(
+    venvPath: string,
+    importName: string,
+    pipName: string,
+    onProgress: ProgressCallback
+  ): Promise<boolean> {
+    const pythonBin = venvManager.getPythonBin(venvPath)
+    const installed = await this.runCommand(pythonBin, ['-c', `import ${importName}`], () => {})
+      .then(() => true)
+      .catch(() => false)
+    if (installed) return false
+
+    onProgress(`Installing ${pipName}...`, 10)
+    await this.pipInstall(venvManager.getPipBin(venvPath), [pipName], onProgress, 10, 95)
+    onProgress(`${pipName} installed`, 100)
+    return true
+  }
 
-      const args = ['install', '-r', requirementsPath, '--prefer-binary']
-      const child = spawn(pipBin, args, {
+  private pipInstall(
+    pipBin: string,
+    args: string[],
+    onProgress: ProgressCallback,
+    fromPercent: number,
+    toPercent: number
+  ): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const child = spawn(pipBin, ['install', ...args, '--prefer-binary'], {
         stdio: ['ignore', 'pipe', 'pipe']
       })
 
@@ -38,8 +132,8 @@ export class PipManager {
           if (line.includes('Successfully installed') || line.includes('Requirement already satisfied')) {
             installedCount++
           }
-          // Estimate progress between 15-95
-          const progress = Math.min(15 + installedCount * 2, 95)
+          // Estimate progress within the given range
+          const progress = Math.min(fromPercent + installedCount * 2, toPercent)
           onProgress(line.trim().substring(0, 100), progress)
         }
       })
@@ -47,13 +141,12 @@ export class PipManager {
       child.stderr?.on('data', (data: Buffer) => {
         const text = data.toString().trim()
         if (text) {
-          onProgress(text.substring(0, 100), 50)
+          onProgress(text.substring(0, 100), Math.round((fromPercent + toPercent) / 2))
         }
       })
 
       child.on('close', (code) => {
         if (code === 0) {
-          onProgress('Dependencies installed', 100)
           resolve()
         } else {
           reject(new Error(`pip install exited with code ${code}`))
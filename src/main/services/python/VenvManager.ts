@@ -1,5 +1,6 @@
 import { spawn } from 'child_process'
 import { existsSync } from 'fs'
+import { cp, readdir } from 'fs/promises'
 import { join } from 'path'
 import { platformDetector } from '../platform/PlatformDetector'
 
@@ -55,6 +56,32 @@ export class VenvManager {
       })
     })
   }
+
+  /**
+   * Copy the installed packages of another venv created from the same Python,
+   * instead of installing the requirements again. Scripts in bin are not
+   * copied: their shebangs point to the other venv.
+   */
+  async copyPackages(sourceVenvPath: string, venvPath: string): Promise<void> {
+    const source = await this.getSitePackages(sourceVenvPath)
+    const target = await this.getSitePackages(venvPath)
+    if (!source || !target) {
+      throw new Error(`No site-packages found in ${source ? venvPath : sourceVenvPath}`)
+    }
+    await cp(source, target, { recursive: true, force: true })
+  }
+
+  private async getSitePackages(venvPath: string): Promise<string | null> {
+    if (platformDetector.isWindows) {
+      const path = join(venvPath, 'Lib', 'site-packages')
+      return existsSync(path) ? path : null
+    }
+
+    // lib/python3.X/site-packages
+    const entries = await readdir(join(venvPath, 'lib')).catch(() => [])
+    const python = entries.find((entry) => entry.startsWith('python'))
+    return python ? join(venvPath, 'lib', python, 'site-packages') : null
+  }
 }
 
 export const venvManager = new VenvManager()
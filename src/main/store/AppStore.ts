@@ -2,12 +2,14 @@ import Store from 'electron-store'
 import type { OdooInstance } from '@shared/types/odoo'
 import type { AppSettings } from '@shared/types/settings'
 import type { SessionRecord } from '@shared/types/claude'
+import type { TestRun } from '@shared/types/test'
 import { DEFAULT_SETTINGS } from '@shared/constants/defaults'
 
 interface AppStoreSchema {
   instances: Record<string, OdooInstance>
   settings: AppSettings
   recentSessions: Record<string, SessionRecord[]>
+  testRuns: Record<string, TestRun[]>
 }
 
 const store = new Store<AppStoreSchema>({
@@ -15,7 +17,8 @@ const store = new Store<AppStoreSchema>({
   defaults: {
     instances: {},
     settings: DEFAULT_SETTINGS,
-    recentSessions: {}
+    recentSessions: {},
+    testRuns: {}
   }
 })
 
@@ -1,5 +1,8 @@
 import { store } from './AppStore'
-import type { OdooInstance } from '@shared/types/odoo'
+import type { CrashReport, LaunchProfile, OdooInstance } from '@shared/types/odoo'
+import type { DatabaseSnapshot } from '@shared/types/database'
+
+const MAX_CRASH_REPORTS = 20
 
 class InstanceStore {
   getAll(): OdooInstance[] {
@@ -40,6 +43,81 @@ class InstanceStore {
     return this.getAll().find((i) => i.httpPort === port || i.longpollingPort === port)
   }
 
+  /** Databases of an instance; instances created before multi-database support only have dbName */
+  getDatabases(id: string): string[] {
+    const instance = this.get(id)
+    if (!instance) return []
+    const databases = instance.databases || []
+    return databases.includes(instance.dbName) ? databases : [instance.dbName, ...databases]
+  }
+
+  /**
+   * Databases the app created, restored or cloned for the instance, the ones
+   * dropped along with it. A db_name typed in the config is not among them.
+   */
+  getOwnedDatabases(id: string): string[] {
+    const instance = this.get(id)
+    if (!instance) return []
+    return instance.databases || [instance.dbName]
+  }
+
+  addDatabase(id: string, dbName: string): void {
+    const databases = this.getOwnedDatabases(id)
+    if (databases.includes(dbName)) return
+    this.update(id, { databases: [...databases, dbName] })
+  }
+
+  removeDatabase(id: string, dbName: string): void {
+    const databases = this.getOwnedDatabases(id).filter((d) => d !== dbName)
+    this.update(id, { databases })
+  }
+
+  /** Record when dbName was neutralized, or forget it once its data is replaced or dropped */
+  setNeutralized(id: string, dbName: string, neutralizedAt: string | undefined): void {
+    const { [dbName]: _previous, ...others } = this.get(id)?.neutralizedDatabases || {}
+    this.update(id, {
+      neutralizedDatabases: neutralizedAt ? { ...others, [dbName]: neutralizedAt } : others
+    })
+  }
+
+  getSnapshots(id: string): DatabaseSnapshot[] {
+    return this.get(id)?.snapshots || []
+  }
+
+  addSnapshot(id: string, snapshot: DatabaseSnapshot): void {
+    const snapshots = this.getSnapshots(id).filter((s) => s.id !== snapshot.id)
+    // Most recent first
+    snapshots.unshift(snapshot)
+    this.update(id, { snapshots })
+  }
+
+  removeSnapshot(id: string, snapshotId: string): void {
+    const snapshots = this.getSnapshots(id).filter((s) => s.id !== snapshotId)
+    this.update(id, { snapshots })
+  }
+
+  getCrashReports(id: string): CrashReport[] {
+    return this.get(id)?.crashReports || []
+  }
+
+  addCrashReport(id: string, report: CrashReport): void {
+    // Most recent first, keep the store small: each report holds log records
+    const crashReports = [report, ...this.getCrashReports(id)].slice(0, MAX_CRASH_REPORTS)
+    this.update(id, { crashReports })
+  }
+
+  getLaunchProfile(id: string, profileId?: string): LaunchProfile | undefined {
+    const instance = this.get(id)
+    const wanted = profileId ?? instance?.activeLaunchProfileId
+    if (!wanted) return undefined
+    return instance?.launchProfiles?.find((p) => p.id === wanted)
+  }
+
+  saveLaunchProfiles(id: string, profiles: LaunchProfile[], activeProfileId?: string): void {
+    const active = profiles.some((p) => p.id === activeProfileId) ? activeProfileId : undefined
+    this.update(id, { launchProfiles: profiles, activeLaunchProfileId: active })
+  }
+
   /**
    * Reset stale statuses on app startup.
    * Instances left as 'running'/'starting'/'stopping' from a previous session
@@ -49,7 +127,7 @@ class InstanceStore {
     const staleStatuses = ['running', 'starting', 'stopping']
     for (const instance of this.getAll()) {
       if (staleStatuses.includes(instance.status)) {
-        this.update(instance.id, { status: 'stopped' })
+        this.update(instance.id, { status: 'stopped', debugPort: undefined, unhealthy: undefined })
       }
     }
   }
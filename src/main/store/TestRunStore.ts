@@ -0,0 +1,45 @@
+import { store } from './AppStore'
+import type { TestRun } from '@shared/types/test'
+
+const MAX_RUNS_PER_INSTANCE = 30
+
+class TestRunStore {
+  getRuns(instanceId: string): TestRun[] {
+    const all = store.get('testRuns') || {}
+    return all[instanceId] || []
+  }
+
+  getRun(instanceId: string, runId: string): TestRun | undefined {
+    return this.getRuns(instanceId).find((r) => r.id === runId)
+  }
+
+  /** Insert or replace a run, most recent first */
+  saveRun(run: TestRun): void {
+    const list = this.getRuns(run.instanceId)
+    const index = list.findIndex((r) => r.id === run.id)
+
+    if (index >= 0) {
+      list[index] = run
+    } else {
+      list.unshift(run)
+      if (list.length > MAX_RUNS_PER_INSTANCE) {
+        list.length = MAX_RUNS_PER_INSTANCE
+      }
+    }
+
+    store.set(`testRuns.${run.instanceId}`, list)
+  }
+
+  removeRun(instanceId: string, runId: string): void {
+    const filtered = this.getRuns(instanceId).filter((r) => r.id !== runId)
+    store.set(`testRuns.${instanceId}`, filtered)
+  }
+
+  removeAll(instanceId: string): void {
+    const all = store.get('testRuns') || {}
+    delete all[instanceId]
+    store.set('testRuns', all)
+  }
+}
+
+export const testRunStore = new TestRunStore()
@@ -1,10 +1,29 @@
 import { contextBridge, ipcRenderer } from 'electron'
 import type { AppSettings } from '@shared/types/settings'
-import type { OdooInstance, CreateInstanceArgs } from '@shared/types/odoo'
+import type {
+  OdooInstance,
+  CreateInstanceArgs,
+  DetectedInstance,
+  ImportInstanceArgs,
+  DuplicateInstanceArgs,
+  SourceState,
+  SourceUpdate,
+  PinnedRevision,
+  DebugSession,
+  LaunchProfile,
+  AddonWatchSettings,
+  RestartPolicy,
+  CrashReport,
+  InstanceHealth
+} from '@shared/types/odoo'
 import type { DependencyStatus, InstallResult } from '@shared/types/dependency'
 import type { ClaudeAuthStatus, SessionRecord } from '@shared/types/claude'
-import type { AddonRepo } from '@shared/types/addon'
+import type { AddonModule, AddonRepo, ModuleGraph, ModuleOperation } from '@shared/types/addon'
+import type { DatabaseSnapshot, OdooBackupManifest } from '@shared/types/database'
 import type { UpdateInfo, UpdateProgress } from '@shared/types/update'
+import type { FixLoopStatus, TestRun, TestRunArgs } from '@shared/types/test'
+import type { LogQuery, LogQueryResult, LogRecord } from '@shared/types/log'
+import type { ResourceSample } from '@shared/types/resource'
 
 const api = {
   window: {
@@ -50,20 +69,48 @@ const api = {
       ipcRenderer.invoke('odoo:get', { instanceId }),
     create: (args: CreateInstanceArgs): Promise<OdooInstance> =>
       ipcRenderer.invoke('odoo:create', args),
+    detectExisting: (path: string): Promise<DetectedInstance> =>
+      ipcRenderer.invoke('odoo:detect-existing', { path }),
+    import: (args: ImportInstanceArgs): Promise<OdooInstance> =>
+      ipcRenderer.invoke('odoo:import', args),
+    duplicate: (args: DuplicateInstanceArgs): Promise<OdooInstance> =>
+      ipcRenderer.invoke('odoo:duplicate', args),
+    sources: (instanceId: string): Promise<SourceState[]> =>
+      ipcRenderer.invoke('odoo:sources', { instanceId }),
+    updateSources: (instanceId: string, reinstallRequirements: boolean): Promise<SourceUpdate[]> =>
+      ipcRenderer.invoke('odoo:update-sources', { instanceId, reinstallRequirements }),
+    pinRevision: (instanceId: string, revision: string | null): Promise<PinnedRevision | null> =>
+      ipcRenderer.invoke('odoo:pin-revision', { instanceId, revision }),
     delete: (instanceId: string): Promise<void> =>
       ipcRenderer.invoke('odoo:delete', { instanceId }),
-    start: (instanceId: string): Promise<void> =>
-      ipcRenderer.invoke('odoo:start', { instanceId }),
+    start: (instanceId: string, dbName?: string, profileId?: string): Promise<void> =>
+      ipcRenderer.invoke('odoo:start', { instanceId, dbName, profileId }),
+    startDebug: (instanceId: string, profileId?: string): Promise<DebugSession> =>
+      ipcRenderer.invoke('odoo:start-debug', { instanceId, profileId }),
     stop: (instanceId: string): Promise<void> =>
       ipcRenderer.invoke('odoo:stop', { instanceId }),
-    restart: (instanceId: string): Promise<void> =>
-      ipcRenderer.invoke('odoo:restart', { instanceId }),
+    restart: (instanceId: string, profileId?: string): Promise<void> =>
+      ipcRenderer.invoke('odoo:restart', { instanceId, profileId }),
+    setRestartPolicy: (instanceId: string, policy: RestartPolicy): Promise<void> =>
+      ipcRenderer.invoke('odoo:set-restart-policy', { instanceId, policy }),
+    clearCrashReports: (instanceId: string): Promise<void> =>
+      ipcRenderer.invoke('odoo:clear-crash-reports', { instanceId }),
+    resourceHistory: (instanceId: string): Promise<ResourceSample[]> =>
+      ipcRenderer.invoke('odoo:resource-history', { instanceId }),
+    setAddonWatch: (instanceId: string, settings: AddonWatchSettings): Promise<void> =>
+      ipcRenderer.invoke('odoo:set-addon-watch', { instanceId, settings }),
+    saveLaunchProfiles: (instanceId: string, profiles: LaunchProfile[], activeProfileId?: string): Promise<void> =>
+      ipcRenderer.invoke('odoo:save-launch-profiles', { instanceId, profiles, activeProfileId }),
+    neutralize: (instanceId: string): Promise<string> =>
+      ipcRenderer.invoke('odoo:neutralize', { instanceId }),
     readConfig: (instanceId: string): Promise<string> =>
       ipcRenderer.invoke('odoo:read-config', { instanceId }),
     writeConfig: (instanceId: string, content: string): Promise<void> =>
       ipcRenderer.invoke('odoo:write-config', { instanceId, content }),
-    shellStart: (instanceId: string): Promise<void> =>
-      ipcRenderer.invoke('odoo:shell-start', { instanceId }),
+    runModules: (instanceId: string, operation: ModuleOperation, modules: string[]): Promise<void> =>
+      ipcRenderer.invoke('odoo:modules-run', { instanceId, operation, modules }),
+    shellStart: (instanceId: string, dbName?: string): Promise<void> =>
+      ipcRenderer.invoke('odoo:shell-start', { instanceId, dbName }),
     shellWrite: (instanceId: string, data: string): Promise<void> =>
       ipcRenderer.invoke('odoo:shell-write', { instanceId, data }),
     shellResize: (instanceId: string, cols: number, rows: number): Promise<void> =>
@@ -72,6 +119,32 @@ const api = {
       ipcRenderer.invoke('odoo:shell-stop', { instanceId })
   },
 
+  postgres: {
+    listDatabases: (): Promise<string[]> => ipcRenderer.invoke('postgres:list-databases'),
+    listInstanceDatabases: (instanceId: string): Promise<string[]> =>
+      ipcRenderer.invoke('postgres:instance-databases', { instanceId }),
+    createDatabase: (instanceId: string, dbName: string): Promise<void> =>
+      ipcRenderer.invoke('postgres:database-create', { instanceId, dbName }),
+    duplicateDatabase: (instanceId: string, sourceDb: string, targetDb: string): Promise<void> =>
+      ipcRenderer.invoke('postgres:database-duplicate', { instanceId, sourceDb, targetDb }),
+    dropDatabase: (instanceId: string, dbName: string): Promise<void> =>
+      ipcRenderer.invoke('postgres:database-drop', { instanceId, dbName }),
+    setActiveDatabase: (instanceId: string, dbName: string): Promise<void> =>
+      ipcRenderer.invoke('postgres:database-activate', { instanceId, dbName }),
+    listSnapshots: (instanceId: string): Promise<DatabaseSnapshot[]> =>
+      ipcRenderer.invoke('postgres:snapshot-list', { instanceId }),
+    createSnapshot: (instanceId: string, name?: string): Promise<DatabaseSnapshot> =>
+      ipcRenderer.invoke('postgres:snapshot-create', { instanceId, name }),
+    restoreSnapshot: (instanceId: string, snapshotId: string): Promise<void> =>
+      ipcRenderer.invoke('postgres:snapshot-restore', { instanceId, snapshotId }),
+    deleteSnapshot: (instanceId: string, snapshotId: string): Promise<void> =>
+      ipcRenderer.invoke('postgres:snapshot-delete', { instanceId, snapshotId }),
+    exportBackup: (instanceId: string, targetPath: string): Promise<void> =>
+      ipcRenderer.invoke('postgres:backup-export', { instanceId, targetPath }),
+    importBackup: (instanceId: string, zipPath: string, neutralize: boolean): Promise<OdooBackupManifest | null> =>
+      ipcRenderer.invoke('postgres:backup-import', { instanceId, zipPath, neutralize })
+  },
+
   dependency: {
     checkAll: (): Promise<DependencyStatus[]> =>
       ipcRenderer.invoke('dependency:check-all'),
@@ -81,12 +154,18 @@ const api = {
 
   shell: {
     openPath: (path: string): Promise<void> =>
-      ipcRenderer.invoke('shell:open-path', { path })
+      ipcRenderer.invoke('shell:open-path', { path }),
+    openInEditor: (filePath: string, line?: number): Promise<void> =>
+      ipcRenderer.invoke('shell:open-in-editor', { filePath, line })
   },
 
   dialog: {
     openFiles: (): Promise<string[]> => ipcRenderer.invoke('dialog:open-files'),
-    selectDirectory: (): Promise<string | null> => ipcRenderer.invoke('dialog:select-directory')
+    selectDirectory: (): Promise<string | null> => ipcRenderer.invoke('dialog:select-directory'),
+    selectConfig: (): Promise<string | null> => ipcRenderer.invoke('dialog:select-config'),
+    selectBackup: (): Promise<string | null> => ipcRenderer.invoke('dialog:select-backup'),
+    saveBackup: (defaultName: string): Promise<string | null> =>
+      ipcRenderer.invoke('dialog:save-backup', { defaultName })
   },
 
   addons: {
@@ -103,7 +182,27 @@ const api = {
     listBranches: (instanceId: string, repoId: string): Promise<{ local: string[]; remote: string[]; current: string }> =>
       ipcRenderer.invoke('addons:list-branches', { instanceId, repoId }),
     refreshBranch: (instanceId: string, repoId: string): Promise<string> =>
-      ipcRenderer.invoke('addons:refresh-branch', { instanceId, repoId })
+      ipcRenderer.invoke('addons:refresh-branch', { instanceId, repoId }),
+    listModules: (instanceId: string): Promise<AddonModule[]> =>
+      ipcRenderer.invoke('addons:list-modules', { instanceId }),
+    dependencyGraph: (instanceId: string): Promise<ModuleGraph> =>
+      ipcRenderer.invoke('addons:dependency-graph', { instanceId })
+  },
+
+  logs: {
+    query: (instanceId: string, query: LogQuery): Promise<LogQueryResult> =>
+      ipcRenderer.invoke('logs:query', { instanceId, query })
+  },
+
+  tests: {
+    run: (instanceId: string, args: TestRunArgs): Promise<TestRun> =>
+      ipcRenderer.invoke('tests:run', { instanceId, args }),
+    listRuns: (instanceId: string): Promise<TestRun[]> =>
+      ipcRenderer.invoke('tests:list-runs', { instanceId }),
+    cancel: (instanceId: string): Promise<void> =>
+      ipcRenderer.invoke('tests:cancel', { instanceId }),
+    deleteRun: (instanceId: string, runId: string): Promise<void> =>
+      ipcRenderer.invoke('tests:delete-run', { instanceId, runId })
   },
 
   update: {
@@ -149,7 +248,17 @@ const api = {
     loginWithToken: (token: string): Promise<{ success: boolean; error?: string }> =>
       ipcRenderer.invoke('claude:login-with-token', { token }),
     logout: (): Promise<void> =>
-      ipcRenderer.invoke('claude:logout')
+      ipcRenderer.invoke('claude:logout'),
+    sendTestFailures: (instanceId: string, runId: string): Promise<void> =>
+      ipcRenderer.invoke('claude:send-test-failures', { instanceId, runId }),
+    sendLogBlock: (instanceId: string, text: string): Promise<void> =>
+      ipcRenderer.invoke('claude:send-log-block', { instanceId, text }),
+    startFixLoop: (instanceId: string, runId: string, maxAttempts?: number): Promise<FixLoopStatus> =>
+      ipcRenderer.invoke('claude:fix-loop-start', { instanceId, runId, maxAttempts }),
+    stopFixLoop: (instanceId: string): Promise<void> =>
+      ipcRenderer.invoke('claude:fix-loop-stop', { instanceId }),
+    fixLoopStatus: (instanceId: string): Promise<FixLoopStatus | null> =>
+      ipcRenderer.invoke('claude:fix-loop-status', { instanceId })
   },
 
   // Event listeners for streaming data
@@ -165,15 +274,65 @@ const api = {
       return () => ipcRenderer.removeListener('odoo:status-changed', handler)
     },
     odooLogLine: (
-      callback: (data: { instanceId: string; line: string; level: string }) => void
+      callback: (data: { instanceId: string; record: LogRecord }) => void
     ): (() => void) => {
       const handler = (
         _event: Electron.IpcRendererEvent,
-        data: { instanceId: string; line: string; level: string }
+        data: { instanceId: string; record: LogRecord }
       ): void => callback(data)
       ipcRenderer.on('odoo:log-line', handler)
       return () => ipcRenderer.removeListener('odoo:log-line', handler)
     },
+    odooHealthChanged: (
+      callback: (data: { instanceId: string; health: InstanceHealth }) => void
+    ): (() => void) => {
+      const handler = (
+        _event: Electron.IpcRendererEvent,
+        data: { instanceId: string; health: InstanceHealth }
+      ): void => callback(data)
+      ipcRenderer.on('odoo:health-changed', handler)
+      return () => ipcRenderer.removeListener('odoo:health-changed', handler)
+    },
+    odooCrashed: (
+      callback: (data: { instanceId: string; report: CrashReport }) => void
+    ): (() => void) => {
+      const handler = (
+        _event: Electron.IpcRendererEvent,
+        data: { instanceId: string; report: CrashReport }
+      ): void => callback(data)
+      ipcRenderer.on('odoo:crashed', handler)
+      return () => ipcRenderer.removeListener('odoo:crashed', handler)
+    },
+    odooUpdateSourcesProgress: (
+      callback: (data: { instanceId: string; step: string; message: string; percent: number }) => void
+    ): (() => void) => {
+      const handler = (
+        _event: Electron.IpcRendererEvent,
+        data: { instanceId: string; step: string; message: string; percent: number }
+      ): void => callback(data)
+      ipcRenderer.on('odoo:update-sources-progress', handler)
+      return () => ipcRenderer.removeListener('odoo:update-sources-progress', handler)
+    },
+    odooDuplicateProgress: (
+      callback: (data: { instanceId: string; step: string; message: string; percent: number }) => void
+    ): (() => void) => {
+      const handler = (
+        _event: Electron.IpcRendererEvent,
+        data: { instanceId: string; step: string; message: string; percent: number }
+      ): void => callback(data)
+      ipcRenderer.on('odoo:duplicate-progress', handler)
+      return () => ipcRenderer.removeListener('odoo:duplicate-progress', handler)
+    },
+    odooResourceSample: (
+      callback: (data: { instanceId: string; sample: ResourceSample }) => void
+    ): (() => void) => {
+      const handler = (
+        _event: Electron.IpcRendererEvent,
+        data: { instanceId: string; sample: ResourceSample }
+      ): void => callback(data)
+      ipcRenderer.on('odoo:resource-sample', handler)
+      return () => ipcRenderer.removeListener('odoo:resource-sample', handler)
+    },
     odooCreationProgress: (
       callback: (data: { step: string; message: string; percent: number }) => void
     ): (() => void) => {
@@ -209,6 +368,27 @@ const api = {
       ipcRenderer.on('odoo:shell-exit', handler)
       return () => ipcRenderer.removeListener('odoo:shell-exit', handler)
     },
+    odooModulesProgress: (
+      callback: (data: {
+        instanceId: string
+        operation: ModuleOperation
+        modules: string[]
+        message: string
+        percent: number
+      }) => void
+    ): (() => void) => {
+      const handler = (
+        _event: Electron.IpcRendererEvent,
+        data: { instanceId: string; operation: ModuleOperation; modules: string[]; message: string; percent: number }
+      ): void => callback(data)
+      ipcRenderer.on('odoo:modules-progress', handler)
+      return () => ipcRenderer.removeListener('odoo:modules-progress', handler)
+    },
+    testRunUpdated: (callback: (run: TestRun) => void): (() => void) => {
+      const handler = (_event: Electron.IpcRendererEvent, run: TestRun): void => callback(run)
+      ipcRenderer.on('odoo:test-run-updated', handler)
+      return () => ipcRenderer.removeListener('odoo:test-run-updated', handler)
+    },
     dependencyInstallProgress: (
       callback: (data: { dependencyId: string; message: string; percent: number }) => void
     ): (() => void) => {
@@ -222,11 +402,11 @@ const api = {
 
     // Addons events
     addonsCloneProgress: (
-      callback: (data: { instanceId: string; message: string; percent: number }) => void
+      callback: (data: { instanceId: string; repoId?: string; message: string; percent: number }) => void
     ): (() => void) => {
       const handler = (
         _event: Electron.IpcRendererEvent,
-        data: { instanceId: string; message: string; percent: number }
+        data: { instanceId: string; repoId?: string; message: string; percent: number }
       ): void => callback(data)
       ipcRenderer.on('addons:clone-progress', handler)
       return () => ipcRenderer.removeListener('addons:clone-progress', handler)
@@ -242,6 +422,38 @@ const api = {
       return () => ipcRenderer.removeListener('addons:pull-progress', handler)
     },
 
+    // PostgreSQL events
+    postgresDatabaseProgress: (
+      callback: (data: { instanceId: string; message: string; percent: number }) => void
+    ): (() => void) => {
+      const handler = (
+        _event: Electron.IpcRendererEvent,
+        data: { instanceId: string; message: string; percent: number }
+      ): void => callback(data)
+      ipcRenderer.on('postgres:database-progress', handler)
+      return () => ipcRenderer.removeListener('postgres:database-progress', handler)
+    },
+    postgresSnapshotProgress: (
+      callback: (data: { instanceId: string; message: string; percent: number }) => void
+    ): (() => void) => {
+      const handler = (
+        _event: Electron.IpcRendererEvent,
+        data: { instanceId: string; message: string; percent: number }
+      ): void => callback(data)
+      ipcRenderer.on('postgres:snapshot-progress', handler)
+      return () => ipcRenderer.removeListener('postgres:snapshot-progress', handler)
+    },
+    postgresBackupProgress: (
+      callback: (data: { instanceId: string; step: string; message: string; percent: number }) => void
+    ): (() => void) => {
+      const handler = (
+        _event: Electron.IpcRendererEvent,
+        data: { instanceId: string; step: string; message: string; percent: number }
+      ): void => callback(data)
+      ipcRenderer.on('postgres:backup-progress', handler)
+      return () => ipcRenderer.removeListener('postgres:backup-progress', handler)
+    },
+
     // Claude events
     claudeSessionStarted: (
       callback: (data: { instanceId: string; model: string }) => void
@@ -292,6 +504,20 @@ const api = {
       ipcRenderer.on('claude:permission-request', handler)
       return () => ipcRenderer.removeListener('claude:permission-request', handler)
     },
+    claudeUserMessage: (
+      callback: (data: { instanceId: string; text: string }) => void
+    ): (() => void) => {
+      const handler = (_e: Electron.IpcRendererEvent, data: any): void => callback(data)
+      ipcRenderer.on('claude:user-message', handler)
+      return () => ipcRenderer.removeListener('claude:user-message', handler)
+    },
+    claudeFixLoopUpdated: (
+      callback: (status: FixLoopStatus) => void
+    ): (() => void) => {
+      const handler = (_e: Electron.IpcRendererEvent, status: FixLoopStatus): void => callback(status)
+      ipcRenderer.on('claude:fix-loop-updated', handler)
+      return () => ipcRenderer.removeListener('claude:fix-loop-updated', handler)
+    },
     claudeError: (
       callback: (data: { instanceId: string; error: string }) => void
     ): (() => void) => {
@@ -5,6 +5,8 @@ import { Dashboard } from './components/dashboard/Dashboard'
 import { SettingsPage } from './components/settings/SettingsPage'
 import { SetupWizard } from './components/setup/SetupWizard'
 import { CreateInstanceDialog } from './components/instance/CreateInstanceDialog'
+import { ImportInstanceDialog } from './components/instance/ImportInstanceDialog'
+import { DuplicateInstanceDialog } from './components/instance/DuplicateInstanceDialog'
 import { InstanceDetail } from './components/instance/InstanceDetail'
 
 function applyTheme(theme: string): void {
@@ -84,7 +86,9 @@ export default function App() {
         <Route element={<AppLayout />}>
           <Route path="/" element={<Dashboard />} />
           <Route path="/new-instance" element={<CreateInstanceDialog />} />
+          <Route path="/import-instance" element={<ImportInstanceDialog />} />
           <Route path="/instance/:id" element={<InstanceDetail />} />
+          <Route path="/instance/:id/duplicate" element={<DuplicateInstanceDialog />} />
           <Route path="/settings" element={<SettingsPage />} />
         </Route>
         <Route path="*" element={<Navigate to="/" replace />} />
@@ -326,6 +326,20 @@ export function ClaudePanel({ instanceId }: Props) {
           })
         }
       }),
+      // Messages sent on the user's behalf (test failures, log errors, fix loop)
+      window.api.on.claudeUserMessage((data) => {
+        if (data.instanceId !== instanceId) return
+        setMessages((prev) => [
+          ...prev,
+          {
+            id: `user_${Date.now()}`,
+            role: 'user',
+            content: data.text,
+            timestamp: Date.now()
+          }
+        ])
+        setIsStreaming(true)
+      }),
       window.api.on.claudeError((data) => {
         if (data.instanceId === instanceId) {
           setSessionError(data.error)
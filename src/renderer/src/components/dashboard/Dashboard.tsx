@@ -5,6 +5,7 @@ import type { OdooInstance, InstanceStatus } from '@shared/types/odoo'
 import { InstanceCard } from '../instance/InstanceCard'
 import { SectionCards } from './SectionCards'
 import { InstanceTable } from './InstanceTable'
+import { useResourceSamples } from '@/hooks/useResourceSamples'
 import { Skeleton } from '../ui/skeleton'
 import { ToggleGroup, ToggleGroupItem } from '../ui/toggle-group'
 
@@ -24,6 +25,9 @@ export function Dashboard() {
   const [loading, setLoading] = useState(true)
   const [deleting, setDeleting] = useState<string | null>(null)
   const [viewMode, setViewMode] = useState<ViewMode>(getStoredViewMode)
+  const resources = useResourceSamples(
+    instances.filter((i) => i.status === 'running').map((i) => i.id)
+  )
 
   const handleViewModeChange = (value: string): void => {
     const mode = value as ViewMode
@@ -69,6 +73,17 @@ export function Dashboard() {
     return unsub
   }, [])
 
+  useEffect(() => {
+    const unsub = window.api.on.odooHealthChanged((data) => {
+      setInstances((prev) =>
+        prev.map((inst) =>
+          inst.id === data.instanceId ? { ...inst, unhealthy: !data.health.healthy } : inst
+        )
+      )
+    })
+    return unsub
+  }, [])
+
   const handleStart = async (id: string): Promise<void> => {
     try {
       await window.api.odoo.start(id)
@@ -90,7 +105,9 @@ export function Dashboard() {
     if (!instance) return
 
     const confirmed = window.confirm(
-      `Delete "${instance.name}"? This will remove all files and the database.`
+      instance.importedAt
+        ? `Remove "${instance.name}" from the app? Its files and databases are left untouched.`
+        : `Delete "${instance.name}"? This will remove all files and the database.`
     )
     if (!confirmed) return
 
@@ -104,6 +121,10 @@ export function Dashboard() {
     setDeleting(null)
   }
 
+  const handleDuplicate = (id: string): void => {
+    navigate(`/instance/${id}/duplicate`)
+  }
+
   const handleClick = (id: string): void => {
     navigate(`/instance/${id}`)
   }
@@ -144,7 +165,7 @@ export function Dashboard() {
 
   return (
     <div className="flex flex-col gap-4">
-      <SectionCards instances={instances} />
+      <SectionCards instances={instances} resources={resources} />
 
       {instances.length === 0 ? (
         <div className="flex flex-col items-center justify-center py-20 text-center">
@@ -183,6 +204,7 @@ export function Dashboard() {
                   <InstanceCard
                     instance={instance}
                     onDelete={handleDelete}
+                    onDuplicate={handleDuplicate}
                     onClick={handleClick}
                   />
                 </div>
@@ -192,6 +214,7 @@ export function Dashboard() {
             <InstanceTable
               instances={instances}
               onDelete={handleDelete}
+              onDuplicate={handleDuplicate}
               onStart={handleStart}
               onStop={handleStop}
               deleting={deleting}
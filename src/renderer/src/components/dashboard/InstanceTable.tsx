@@ -1,5 +1,5 @@
 import { useNavigate } from 'react-router-dom'
-import { Play, Square, Trash2 } from 'lucide-react'
+import { Play, Square, Copy, Trash2 } from 'lucide-react'
 import { cn } from '@/lib/utils'
 import { Badge } from '@/components/ui/badge'
 import { Button } from '@/components/ui/button'
@@ -21,6 +21,11 @@ const statusLabels: Record<InstanceStatus, string> = {
   error: 'Error'
 }
 
+/** Running but not answering its health check */
+function isUnhealthy(instance: OdooInstance): boolean {
+  return instance.status === 'running' && !!instance.unhealthy
+}
+
 const editionColors = {
   community: 'bg-slate-medium/15 text-slate-medium dark:text-[#94a3b8]',
   enterprise: 'bg-coral/15 text-coral dark:text-peach'
@@ -29,6 +34,7 @@ const editionColors = {
 interface InstanceTableProps {
   instances: OdooInstance[]
   onDelete: (id: string) => void
+  onDuplicate: (id: string) => void
   onStart: (id: string) => void
   onStop: (id: string) => void
   deleting: string | null
@@ -37,6 +43,7 @@ interface InstanceTableProps {
 export function InstanceTable({
   instances,
   onDelete,
+  onDuplicate,
   onStart,
   onStop,
   deleting
@@ -69,8 +76,15 @@ export function InstanceTable({
           >
             {/* Status dot + label */}
             <div className="flex items-center gap-2 w-24 shrink-0">
-              <span className={cn('size-2 rounded-full shrink-0', statusDotColors[inst.status])} />
-              <span className="text-xs text-muted-foreground">{statusLabels[inst.status]}</span>
+              <span
+                className={cn(
+                  'size-2 rounded-full shrink-0',
+                  isUnhealthy(inst) ? 'bg-orange-500 animate-pulse' : statusDotColors[inst.status]
+                )}
+              />
+              <span className={cn('text-xs', isUnhealthy(inst) ? 'text-orange-500' : 'text-muted-foreground')}>
+                {isUnhealthy(inst) ? 'Unhealthy' : statusLabels[inst.status]}
+              </span>
             </div>
 
             {/* Name */}
@@ -113,6 +127,15 @@ export function InstanceTable({
                   <Square size={14} />
                 </Button>
               )}
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-8 w-8 text-muted-foreground"
+                title="Duplicate"
+                onClick={() => onDuplicate(inst.id)}
+              >
+                <Copy size={14} />
+              </Button>
               <Button
                 variant="ghost"
                 size="icon"
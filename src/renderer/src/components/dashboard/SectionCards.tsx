@@ -1,18 +1,42 @@
 import { TrendingUp, TrendingDown } from 'lucide-react'
 import { Badge } from '@/components/ui/badge'
-import { Card, CardHeader, CardTitle, CardDescription, CardContent, CardAction } from '@/components/ui/card'
+import { Card, CardHeader, CardTitle, CardDescription, CardContent, CardAction, CardFooter } from '@/components/ui/card'
+import { Sparkline } from '@/components/ui/sparkline'
+import { formatBytes } from '@/lib/utils'
 import type { OdooInstance } from '@shared/types/odoo'
+import type { ResourceSample } from '@shared/types/resource'
 
 interface SectionCardsProps {
   instances: OdooInstance[]
+  /** Resource history of running instances, by instance id */
+  resources: Record<string, ResourceSample[]>
 }
 
-export function SectionCards({ instances }: SectionCardsProps) {
+/**
+ * Sum the series of all running instances. Every instance is sampled at the
+ * same rate, so samples are aligned on the most recent one.
+ */
+function aggregate(series: ResourceSample[][], pick: (sample: ResourceSample) => number): number[] {
+  const length = Math.max(0, ...series.map((s) => s.length))
+  return Array.from({ length }, (_, i) =>
+    series.reduce((total, s) => {
+      const sample = s[s.length - length + i]
+      return total + (sample ? pick(sample) : 0)
+    }, 0)
+  )
+}
+
+export function SectionCards({ instances, resources }: SectionCardsProps) {
   const total = instances.length
-  const running = instances.filter((i) => i.status === 'running').length
+  const runningInstances = instances.filter((i) => i.status === 'running')
+  const running = runningInstances.length
   const stopped = instances.filter((i) => i.status === 'stopped').length
   const errors = instances.filter((i) => i.status === 'error').length
 
+  const series = runningInstances.map((i) => resources[i.id] || [])
+  const cpu = aggregate(series, (s) => s.cpuPercent)
+  const memory = aggregate(series, (s) => s.rssBytes)
+
   return (
     <div className="grid grid-cols-1 @sm/main:grid-cols-2 @xl/main:grid-cols-4 gap-4">
       <Card>
@@ -40,6 +64,18 @@ export function SectionCards({ instances }: SectionCardsProps) {
             )}
           </CardAction>
         </CardHeader>
+        {cpu.length > 0 && (
+          <CardFooter className="gap-4 text-xs text-muted-foreground">
+            <div className="flex items-center gap-2">
+              <span className="tabular-nums">CPU {cpu[cpu.length - 1].toFixed(0)} %</span>
+              <Sparkline values={cpu} width={56} height={20} className="text-primary" />
+            </div>
+            <div className="flex items-center gap-2">
+              <span className="tabular-nums">RAM {formatBytes(memory[memory.length - 1])}</span>
+              <Sparkline values={memory} width={56} height={20} className="text-primary" />
+            </div>
+          </CardFooter>
+        )}
       </Card>
 
       <Card>
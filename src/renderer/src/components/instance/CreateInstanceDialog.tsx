@@ -9,10 +9,11 @@ import {
   Server,
   Lock,
   Circle,
-  Check
+  Check,
+  FolderOpen
 } from 'lucide-react'
 import { cn } from '@/lib/utils'
-import type { OdooVersion, OdooEdition, CreateInstanceArgs } from '@shared/types/odoo'
+import type { OdooVersion, OdooEdition, CreateInstanceArgs, DatabaseSource } from '@shared/types/odoo'
 import { SUPPORTED_VERSIONS } from '@shared/constants/odooVersions'
 import {
   DEFAULT_HTTP_PORT,
@@ -35,6 +36,11 @@ interface FormData {
   dbPort: number
   httpPort: number
   longpollingPort: number
+  dbSource: DatabaseSource
+  dbSourcePath: string
+  dbTemplate: string
+  neutralize: boolean
+  revision: string
 }
 
 type CreationState = 'idle' | 'creating' | 'success' | 'error'
@@ -50,15 +56,24 @@ interface CreationStep {
   percentEnd: number
 }
 
+const DB_SOURCE_OPTIONS: Array<{ value: DatabaseSource; label: string; description: string }> = [
+  { value: 'init', label: 'New database', description: 'Empty database with the base module installed' },
+  { value: 'restore', label: 'Restore backup', description: 'Odoo backup .zip, pg_dump file or .sql dump' },
+  { value: 'clone', label: 'Clone local database', description: 'Copy an existing PostgreSQL database' }
+]
+
 const CREATION_STEPS: Array<{ key: string; label: string; percentStart: number; percentEnd: number }> = [
   { key: 'directory', label: 'Creating project directory', percentStart: 0, percentEnd: 5 },
-  { key: 'clone', label: 'Cloning Odoo Community', percentStart: 5, percentEnd: 30 },
-  { key: 'clone-enterprise', label: 'Cloning Odoo Enterprise', percentStart: 30, percentEnd: 40 },
+  { key: 'clone', label: 'Checking out Odoo Community', percentStart: 5, percentEnd: 30 },
+  { key: 'clone-enterprise', label: 'Checking out Odoo Enterprise', percentStart: 30, percentEnd: 38 },
+  { key: 'revision', label: 'Checking out the pinned revision', percentStart: 38, percentEnd: 40 },
   { key: 'venv', label: 'Creating virtual environment', percentStart: 40, percentEnd: 45 },
   { key: 'pip', label: 'Installing Python dependencies', percentStart: 45, percentEnd: 60 },
   { key: 'database', label: 'Creating database', percentStart: 60, percentEnd: 62 },
   { key: 'config', label: 'Generating configuration', percentStart: 62, percentEnd: 65 },
   { key: 'init-db', label: 'Initializing database', percentStart: 65, percentEnd: 96 },
+  { key: 'restore-db', label: 'Restoring database', percentStart: 65, percentEnd: 90 },
+  { key: 'neutralize', label: 'Neutralizing database', percentStart: 90, percentEnd: 96 },
   { key: 'saving', label: 'Saving instance', percentStart: 96, percentEnd: 100 },
   { key: 'done', label: 'Done', percentStart: 100, percentEnd: 100 }
 ]
@@ -84,7 +99,12 @@ export function CreateInstanceDialog() {
     dbHost: DEFAULT_DB_HOST,
     dbPort: DEFAULT_DB_PORT,
     httpPort: DEFAULT_HTTP_PORT,
-    longpollingPort: DEFAULT_LONGPOLLING_PORT
+    longpollingPort: DEFAULT_LONGPOLLING_PORT,
+    dbSource: 'init',
+    dbSourcePath: '',
+    dbTemplate: '',
+    neutralize: true,
+    revision: ''
   })
 
   // Check if GitHub token is configured
@@ -142,6 +162,8 @@ export function CreateInstanceDialog() {
       case 'Project':
         return form.name.trim().length > 0
       case 'Database':
+        if (form.dbSource === 'restore' && !form.dbSourcePath) return false
+        if (form.dbSource === 'clone' && (!form.dbTemplate || form.dbTemplate === form.dbName.trim())) return false
         return form.dbName.trim().length > 0 && form.dbUser.trim().length > 0
       case 'Server':
         return form.httpPort > 0 && form.longpollingPort > 0
@@ -157,10 +179,21 @@ export function CreateInstanceDialog() {
     setCreationMessage('Starting...')
     setCreationPercent(0)
 
-    // Initialize steps based on edition
-    const steps = CREATION_STEPS.filter(
-      (s) => s.key !== 'clone-enterprise' || form.edition === 'enterprise'
-    ).map((s) => ({ ...s, status: 'pending' as StepStatus, message: '' }))
+    // Initialize steps based on edition and database source
+    const isInit = form.dbSource === 'init'
+    const steps = CREATION_STEPS.filter((s) => {
+      if (s.key === 'clone-enterprise') return form.edition === 'enterprise'
+      if (s.key === 'revision') return form.revision.trim().length > 0
+      if (s.key === 'init-db') return isInit
+      if (s.key === 'restore-db') return !isInit
+      if (s.key === 'neutralize') return !isInit && form.neutralize
+      return true
+    }).map((s) => ({
+      ...s,
+      label: s.key === 'restore-db' && form.dbSource === 'clone' ? 'Copying database' : s.label,
+      status: 'pending' as StepStatus,
+      message: ''
+    }))
     setCreationSteps(steps)
     setStepPercent(0)
 
@@ -175,7 +208,12 @@ export function CreateInstanceDialog() {
         dbUser: form.dbUser.trim(),
         dbPassword: form.dbPassword,
         dbHost: form.dbHost,
-        dbPort: form.dbPort
+        dbPort: form.dbPort,
+        dbSource: form.dbSource,
+        dbSourcePath: form.dbSource === 'restore' ? form.dbSourcePath : undefined,
+        dbTemplate: form.dbSource === 'clone' ? form.dbTemplate : undefined,
+        neutralize: form.neutralize,
+        revision: form.revision.trim() || undefined
       }
 
       await window.api.odoo.create(args)
@@ -468,6 +506,21 @@ function StepProject({
           </p>
         )}
       </div>
+
+      <div>
+        <label className="block text-sm font-medium mb-1.5">Revision</label>
+        <input
+          type="text"
+          value={form.revision}
+          onChange={(e) => onChange({ revision: e.target.value })}
+          placeholder="Latest commit of the branch"
+          className="w-full h-9 rounded-md border border-input bg-transparent px-3 text-sm font-mono focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring"
+        />
+        <p className="text-xs text-muted-foreground mt-1.5">
+          Commit SHA, tag or date (YYYY-MM-DD) to reproduce the exact core a customer runs.
+          Enterprise follows the date of that commit.
+        </p>
+      </div>
     </div>
   )
 }
@@ -479,8 +532,108 @@ function StepDatabase({
   form: FormData
   onChange: (u: Partial<FormData>) => void
 }) {
+  const [databases, setDatabases] = useState<string[]>([])
+
+  useEffect(() => {
+    if (form.dbSource !== 'clone') return
+    window.api.postgres.listDatabases().then(setDatabases).catch(() => setDatabases([]))
+  }, [form.dbSource])
+
+  const handleSelectBackup = async (): Promise<void> => {
+    const path = await window.api.dialog.selectBackup()
+    if (path) onChange({ dbSourcePath: path })
+  }
+
   return (
     <div className="space-y-4">
+      <div>
+        <label className="block text-sm font-medium mb-1.5">Database Source</label>
+        <div className="grid grid-cols-3 gap-2">
+          {DB_SOURCE_OPTIONS.map((option) => (
+            <button
+              key={option.value}
+              onClick={() => onChange({ dbSource: option.value })}
+              className={cn(
+                'py-2.5 px-3 rounded-md border text-left transition-colors',
+                form.dbSource === option.value
+                  ? 'border-primary bg-primary/10'
+                  : 'border-input hover:bg-accent'
+              )}
+            >
+              <span
+                className={cn(
+                  'block text-sm font-medium',
+                  form.dbSource === option.value && 'text-primary'
+                )}
+              >
+                {option.label}
+              </span>
+              <span className="block text-xs text-muted-foreground mt-0.5">{option.description}</span>
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {form.dbSource === 'restore' && (
+        <div>
+          <label className="block text-sm font-medium mb-1.5">Backup File</label>
+          <div className="flex items-center gap-2">
+            <input
+              type="text"
+              value={form.dbSourcePath}
+              readOnly
+              placeholder="Select a backup..."
+              className="flex-1 h-9 rounded-md border border-input bg-transparent px-3 text-sm font-mono focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring"
+            />
+            <button
+              onClick={handleSelectBackup}
+              className="flex items-center gap-1.5 h-9 px-3 rounded-md border text-sm font-medium hover:bg-accent transition-colors"
+            >
+              <FolderOpen size={14} />
+              Browse
+            </button>
+          </div>
+        </div>
+      )}
+
+      {form.dbSource === 'clone' && (
+        <div>
+          <label className="block text-sm font-medium mb-1.5">Database to Clone</label>
+          <select
+            value={form.dbTemplate}
+            onChange={(e) => onChange({ dbTemplate: e.target.value })}
+            className="w-full h-9 rounded-md border border-input bg-transparent px-3 text-sm focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring"
+          >
+            <option value="">Select a database...</option>
+            {databases.map((db) => (
+              <option key={db} value={db}>
+                {db}
+              </option>
+            ))}
+          </select>
+          <p className="text-xs text-muted-foreground mt-1">
+            The source database must not be in use while it is copied.
+          </p>
+        </div>
+      )}
+
+      {form.dbSource !== 'init' && (
+        <label className="flex items-start gap-2 text-sm cursor-pointer select-none">
+          <input
+            type="checkbox"
+            checked={form.neutralize}
+            onChange={(e) => onChange({ neutralize: e.target.checked })}
+            className="mt-0.5"
+          />
+          <span>
+            Neutralize after restore
+            <span className="block text-xs text-muted-foreground">
+              Disables outgoing mail servers, scheduled actions and payment providers.
+            </span>
+          </span>
+        </label>
+      )}
+
       <div>
         <label className="block text-sm font-medium mb-1.5">Database Name</label>
         <input
@@ -581,8 +734,13 @@ function StepReview({ form }: { form: FormData }) {
         <ReviewRow label="Name" value={form.name} />
         <ReviewRow label="Version" value={`Odoo ${form.version}`} />
         <ReviewRow label="Edition" value={form.edition} />
+        <ReviewRow label="Revision" value={form.revision.trim() || 'Latest commit of the branch'} />
       </ReviewSection>
       <ReviewSection title="Database">
+        <ReviewRow label="Source" value={DB_SOURCE_OPTIONS.find((o) => o.value === form.dbSource)?.label || ''} />
+        {form.dbSource === 'restore' && <ReviewRow label="Backup" value={form.dbSourcePath} />}
+        {form.dbSource === 'clone' && <ReviewRow label="Clone of" value={form.dbTemplate} />}
+        {form.dbSource !== 'init' && <ReviewRow label="Neutralize" value={form.neutralize ? 'Yes' : 'No'} />}
         <ReviewRow label="Name" value={form.dbName} />
         <ReviewRow label="User" value={form.dbUser} />
         <ReviewRow label="Password" value={form.dbPassword || '(none)'} />
@@ -0,0 +1,352 @@
+import { useState, useEffect, useCallback, useMemo } from 'react'
+import { Loader2, RefreshCw, AlertCircle, AlertTriangle, Plus, Network, CheckCircle2 } from 'lucide-react'
+import { cn } from '@/lib/utils'
+import type { ModuleGraph, ModuleGraphNode, RepoSuggestion } from '@shared/types/addon'
+
+const NODE_WIDTH = 170
+const NODE_HEIGHT = 24
+const COLUMN_GAP = 70
+const ROW_GAP = 8
+const PADDING = 16
+
+interface PositionedNode extends ModuleGraphNode {
+  x: number
+  y: number
+}
+
+export function DependencyGraphTab({ instanceId }: { instanceId: string }) {
+  const [graph, setGraph] = useState<ModuleGraph | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [selected, setSelected] = useState<string | null>(null)
+  const [addingUrl, setAddingUrl] = useState<string | null>(null)
+
+  const loadGraph = useCallback(async () => {
+    setLoading(true)
+    setError(null)
+    try {
+      setGraph(await window.api.addons.dependencyGraph(instanceId))
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to resolve dependencies')
+    } finally {
+      setLoading(false)
+    }
+  }, [instanceId])
+
+  useEffect(() => {
+    loadGraph()
+  }, [loadGraph])
+
+  const handleAddRepo = async (suggestion: RepoSuggestion): Promise<void> => {
+    setAddingUrl(suggestion.url)
+    setError(null)
+    try {
+      await window.api.addons.add(instanceId, suggestion.url, suggestion.branch)
+      await loadGraph()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to add repository')
+    } finally {
+      setAddingUrl(null)
+    }
+  }
+
+  const layout = useMemo(() => (graph ? layoutGraph(graph) : null), [graph])
+
+  if (loading && !graph) {
+    return (
+      <div className="flex items-center gap-2 py-12 justify-center text-sm text-muted-foreground">
+        <Loader2 size={14} className="animate-spin" />
+        Resolving module dependencies...
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <div>
+          <h3 className="text-sm font-semibold">Module Dependencies</h3>
+          <p className="text-xs text-muted-foreground mt-0.5">
+            Custom addon modules and everything they depend on, resolved over the addons path
+          </p>
+        </div>
+        <button
+          onClick={loadGraph}
+          disabled={loading}
+          className="flex items-center gap-1.5 px-3 py-1.5 rounded-md text-xs font-medium border hover:bg-accent transition-colors disabled:opacity-50"
+        >
+          <RefreshCw size={12} className={cn(loading && 'animate-spin')} />
+          Refresh
+        </button>
+      </div>
+
+      {error && (
+        <div className="flex items-center gap-2 px-3 py-2 rounded-md bg-destructive/10 border border-destructive/30 text-sm text-destructive">
+          <AlertCircle size={14} />
+          <span className="flex-1">{error}</span>
+          <button onClick={() => setError(null)} className="text-xs hover:underline">
+            Dismiss
+          </button>
+        </div>
+      )}
+
+      {graph && (
+        <>
+          {graph.missing.length === 0 && graph.cycles.length === 0 && (
+            <div className="flex items-center gap-2 px-3 py-2 rounded-md bg-green-500/10 text-sm text-green-600">
+              <CheckCircle2 size={14} />
+              All dependencies are available on the addons path.
+            </div>
+          )}
+
+          {graph.missing.length > 0 && (
+            <div className="border rounded-xl overflow-hidden">
+              <div className="px-4 py-2 bg-muted/30">
+                <h3 className="text-xs font-semibold uppercase tracking-wide text-destructive">
+                  Missing modules ({graph.missing.length})
+                </h3>
+              </div>
+              <div className="divide-y divide-border/50">
+                {graph.missing.map((missing) => (
+                  <div key={missing.name} className="px-4 py-2 space-y-1.5">
+                    <div className="flex items-center gap-2 text-sm">
+                      <span className="font-mono text-xs font-medium">{missing.name}</span>
+                      <span className="text-xs text-muted-foreground truncate">
+                        required by {missing.requiredBy.join(', ')}
+                      </span>
+                    </div>
+                    {missing.suggestions.length === 0 ? (
+                      <p className="text-xs text-muted-foreground">No known repository provides this module.</p>
+                    ) : (
+                      missing.suggestions.map((suggestion) => (
+                        <div key={suggestion.url} className="flex items-center gap-2 text-xs">
+                          <span className="font-mono truncate">{suggestion.url}</span>
+                          <span className="text-muted-foreground shrink-0">@ {suggestion.branch}</span>
+                          <span
+                            className={cn(
+                              'text-[10px] px-1.5 py-0.5 rounded shrink-0',
+                              suggestion.confirmed
+                                ? 'bg-green-500/10 text-green-600'
+                                : 'bg-muted text-muted-foreground'
+                            )}
+                            title={suggestion.reason}
+                          >
+                            {suggestion.confirmed ? 'found' : 'guess'}
+                          </span>
+                          <button
+                            onClick={() => handleAddRepo(suggestion)}
+                            disabled={addingUrl !== null}
+                            className="ml-auto flex items-center gap-1 px-2 py-0.5 rounded-md font-medium border hover:bg-accent transition-colors disabled:opacity-50 shrink-0"
+                          >
+                            {addingUrl === suggestion.url ? (
+                              <Loader2 size={10} className="animate-spin" />
+                            ) : (
+                              <Plus size={10} />
+                            )}
+                            Add repo
+                          </button>
+                        </div>
+                      ))
+                    )}
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {graph.cycles.length > 0 && (
+            <div className="border rounded-xl px-4 py-3 space-y-1">
+              <h3 className="flex items-center gap-1.5 text-xs font-semibold uppercase tracking-wide text-yellow-600">
+                <AlertTriangle size={12} />
+                Circular dependencies
+              </h3>
+              {graph.cycles.map((cycle) => (
+                <p key={cycle.join(',')} className="text-xs font-mono">
+                  {cycle.join(' ↔ ')}
+                </p>
+              ))}
+            </div>
+          )}
+
+          {graph.shadowed.length > 0 && (
+            <div className="border rounded-xl px-4 py-3 space-y-1">
+              <h3 className="text-xs font-semibold uppercase tracking-wide text-muted-foreground">
+                Modules found more than once (the first one is loaded)
+              </h3>
+              {graph.shadowed.map((entry) => (
+                <p key={entry.name} className="text-xs">
+                  <span className="font-mono font-medium">{entry.name}</span>
+                  <span className="text-muted-foreground"> &middot; {entry.paths.join(', ')}</span>
+                </p>
+              ))}
+            </div>
+          )}
+
+          {layout && layout.nodes.length > 0 ? (
+            <div className="border rounded-xl overflow-auto max-h-[60vh] bg-muted/10">
+              <svg width={layout.width} height={layout.height} className="block">
+                {graph.edges.map((edge) => {
+                  const from = layout.byName.get(edge.from)
+                  const to = layout.byName.get(edge.to)
+                  if (!from || !to) return null
+                  const highlighted = selected === edge.from || selected === edge.to
+                  const x1 = from.x
+                  const y1 = from.y + NODE_HEIGHT / 2
+                  const x2 = to.x + NODE_WIDTH
+                  const y2 = to.y + NODE_HEIGHT / 2
+                  const mid = (x1 + x2) / 2
+                  return (
+                    <path
+                      key={`${edge.from}->${edge.to}`}
+                      d={`M ${x1} ${y1} C ${mid} ${y1}, ${mid} ${y2}, ${x2} ${y2}`}
+                      fill="none"
+                      className={cn(
+                        highlighted ? 'stroke-primary' : 'stroke-border',
+                        !to.source && 'stroke-destructive'
+                      )}
+                      strokeWidth={highlighted ? 1.5 : 1}
+                      strokeDasharray={to.source ? undefined : '4 3'}
+                    />
+                  )
+                })}
+                {layout.nodes.map((node) => (
+                  <g
+                    key={node.name}
+                    transform={`translate(${node.x}, ${node.y})`}
+                    onClick={() => setSelected(selected === node.name ? null : node.name)}
+                    className="cursor-pointer"
+                  >
+                    <rect
+                      width={NODE_WIDTH}
+                      height={NODE_HEIGHT}
+                      rx={5}
+                      className={cn(
+                        'stroke-1',
+                        nodeClass(node),
+                        selected === node.name && 'stroke-primary stroke-2'
+                      )}
+                      strokeDasharray={node.source ? undefined : '4 3'}
+                    />
+                    <text
+                      x={8}
+                      y={NODE_HEIGHT / 2}
+                      dominantBaseline="central"
+                      className={cn('text-[11px] font-mono', node.source ? 'fill-foreground' : 'fill-destructive')}
+                    >
+                      {node.state === 'installed' ? '● ' : ''}
+                      {node.name.length > 22 ? `${node.name.slice(0, 21)}…` : node.name}
+                    </text>
+                    <title>
+                      {node.name}
+                      {node.source ? ` (${node.source}${node.state ? `, ${node.state}` : ''})` : ' (missing)'}
+                    </title>
+                  </g>
+                ))}
+              </svg>
+            </div>
+          ) : (
+            <div className="flex flex-col items-center justify-center py-12 text-center text-muted-foreground">
+              <Network size={32} className="mb-3 opacity-40" />
+              <p className="text-sm font-medium">No custom modules</p>
+              <p className="text-xs mt-1 max-w-xs">
+                Add addon repositories in the Addons tab to see their dependency graph.
+              </p>
+            </div>
+          )}
+
+          {layout && layout.nodes.length > 0 && (
+            <div className="flex items-center gap-4 text-xs text-muted-foreground">
+              <LegendItem className="fill-primary/15 stroke-primary" label="Custom addon" />
+              <LegendItem className="fill-coral/15 stroke-coral" label="Enterprise" />
+              <LegendItem className="fill-muted stroke-border" label="Odoo core" />
+              <LegendItem className="fill-destructive/10 stroke-destructive" label="Missing" dashed />
+              <span>&#9679; installed</span>
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  )
+}
+
+function LegendItem({ className, label, dashed }: { className: string; label: string; dashed?: boolean }) {
+  return (
+    <span className="flex items-center gap-1.5">
+      <svg width={14} height={10}>
+        <rect x={0.5} y={0.5} width={13} height={9} rx={2} className={className} strokeDasharray={dashed ? '3 2' : undefined} />
+      </svg>
+      {label}
+    </span>
+  )
+}
+
+function nodeClass(node: ModuleGraphNode): string {
+  switch (node.source) {
+    case 'repo':
+      return 'fill-primary/15 stroke-primary'
+    case 'enterprise':
+      return 'fill-coral/15 stroke-coral'
+    case 'core':
+      return 'fill-muted stroke-border'
+    default:
+      return 'fill-destructive/10 stroke-destructive'
+  }
+}
+
+/**
+ * Layered layout: modules without dependencies on the left, each module one
+ * column to the right of its deepest dependency.
+ */
+function layoutGraph(graph: ModuleGraph): {
+  nodes: PositionedNode[]
+  byName: Map<string, PositionedNode>
+  width: number
+  height: number
+} {
+  const depsByName = new Map<string, string[]>()
+  for (const edge of graph.edges) {
+    depsByName.set(edge.from, [...(depsByName.get(edge.from) || []), edge.to])
+  }
+
+  const depths = new Map<string, number>()
+  const visiting = new Set<string>()
+  const depthOf = (name: string): number => {
+    const known = depths.get(name)
+    if (known !== undefined) return known
+    // Break cycles: a module currently being resolved counts as a leaf
+    if (visiting.has(name)) return 0
+    visiting.add(name)
+    const deps = depsByName.get(name) || []
+    const depth = deps.length === 0 ? 0 : 1 + Math.max(...deps.map(depthOf))
+    visiting.delete(name)
+    depths.set(name, depth)
+    return depth
+  }
+
+  const columns: ModuleGraphNode[][] = []
+  for (const node of graph.nodes) {
+    const depth = depthOf(node.name)
+    columns[depth] = [...(columns[depth] || []), node]
+  }
+
+  const nodes: PositionedNode[] = []
+  let maxRows = 0
+  columns.forEach((column = [], depth) => {
+    column.sort((a, b) => a.name.localeCompare(b.name))
+    maxRows = Math.max(maxRows, column.length)
+    column.forEach((node, row) => {
+      nodes.push({
+        ...node,
+        x: PADDING + depth * (NODE_WIDTH + COLUMN_GAP),
+        y: PADDING + row * (NODE_HEIGHT + ROW_GAP)
+      })
+    })
+  })
+
+  return {
+    nodes,
+    byName: new Map(nodes.map((n) => [n.name, n])),
+    width: PADDING * 2 + columns.length * (NODE_WIDTH + COLUMN_GAP) - COLUMN_GAP,
+    height: PADDING * 2 + maxRows * (NODE_HEIGHT + ROW_GAP) - ROW_GAP
+  }
+}
@@ -0,0 +1,187 @@
+import { useState, useEffect } from 'react'
+import { useNavigate, useParams } from 'react-router-dom'
+import { ArrowLeft, Loader2, AlertCircle, Copy } from 'lucide-react'
+import type { OdooInstance } from '@shared/types/odoo'
+
+const inputClassName =
+  'w-full h-9 rounded-md border border-input bg-transparent px-3 text-sm focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring'
+
+function toDbName(name: string): string {
+  return name.toLowerCase().replace(/[^a-z0-9]/g, '_')
+}
+
+export function DuplicateInstanceDialog() {
+  const { id } = useParams<{ id: string }>()
+  const navigate = useNavigate()
+  const [source, setSource] = useState<OdooInstance | null>(null)
+  const [name, setName] = useState('')
+  const [dbName, setDbName] = useState('')
+  const [copyDatabase, setCopyDatabase] = useState(true)
+  const [duplicating, setDuplicating] = useState(false)
+  const [progress, setProgress] = useState<{ message: string; percent: number } | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    if (!id) return
+    window.api.odoo.get(id).then((instance) => {
+      if (!instance) return
+      setSource(instance)
+      setName(`${instance.name}-copy`)
+      setDbName(toDbName(`${instance.dbName}-copy`))
+    })
+  }, [id])
+
+  useEffect(() => {
+    const unsub = window.api.on.odooDuplicateProgress((data) => {
+      if (data.instanceId === id) setProgress({ message: data.message, percent: data.percent })
+    })
+    return unsub
+  }, [id])
+
+  const handleDuplicate = async (): Promise<void> => {
+    if (!source) return
+    setDuplicating(true)
+    setError(null)
+    setProgress(null)
+    try {
+      const instance = await window.api.odoo.duplicate({
+        sourceId: source.id,
+        name: name.trim(),
+        dbName: dbName.trim(),
+        copyDatabase
+      })
+      navigate(`/instance/${instance.id}`)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Duplication failed')
+    } finally {
+      setDuplicating(false)
+    }
+  }
+
+  if (!source) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <Loader2 size={24} className="animate-spin text-muted-foreground" />
+      </div>
+    )
+  }
+
+  const sourceRunning = source.status !== 'stopped' && source.status !== 'error'
+  const canDuplicate =
+    name.trim().length > 0 && dbName.trim().length > 0 && !(copyDatabase && sourceRunning)
+  const repos = (source.addonRepos || []).filter((r) => r.status === 'ready')
+
+  return (
+    <div className="py-4 px-12">
+      <div className="mb-8">
+        <button
+          onClick={() => navigate(-1)}
+          className="flex items-center gap-1 text-sm text-muted-foreground hover:text-foreground mb-4 transition-colors"
+        >
+          <ArrowLeft size={14} />
+          Back
+        </button>
+        <h1 className="text-2xl font-semibold">Duplicate {source.name}</h1>
+        <p className="text-sm text-muted-foreground mt-1">
+          The sources are checked out from the cache at the same commits and the Python packages are copied
+          from its virtual environment. Free ports are assigned to the copy.
+        </p>
+      </div>
+
+      <div className="bg-card border rounded-xl p-6 mb-6 space-y-4">
+        <div className="grid grid-cols-2 gap-3">
+          <div>
+            <label className="block text-sm font-medium mb-1.5">Name</label>
+            <input
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              disabled={duplicating}
+              className={inputClassName}
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium mb-1.5">Database</label>
+            <input
+              value={dbName}
+              onChange={(e) => setDbName(e.target.value)}
+              disabled={duplicating}
+              className={`${inputClassName} font-mono`}
+            />
+          </div>
+        </div>
+
+        <label className="flex items-start gap-2 text-sm cursor-pointer">
+          <input
+            type="checkbox"
+            checked={copyDatabase}
+            onChange={(e) => setCopyDatabase(e.target.checked)}
+            disabled={duplicating}
+            className="mt-0.5"
+          />
+          <span>
+            Copy the database <span className="font-mono">{source.dbName}</span> and its filestore
+            <span className="block text-xs text-muted-foreground">
+              {copyDatabase && sourceRunning
+                ? `Stop ${source.name} first: the database cannot be copied while the server uses it.`
+                : copyDatabase
+                  ? 'With createdb -T, much faster than a backup and restore.'
+                  : 'A new database is initialized with the base module instead.'}
+            </span>
+          </span>
+        </label>
+
+        <div className="-mx-6 -mb-6 border-t">
+          <SummaryRow label="Version" value={`Odoo ${source.version} ${source.edition}`} />
+          {source.pinnedRevision && <SummaryRow label="Pinned to" value={source.pinnedRevision.revision} mono />}
+          <SummaryRow
+            label="Addon repos"
+            value={repos.length > 0 ? repos.map((r) => `${r.name} @ ${r.branch}`).join(', ') : 'None'}
+          />
+          <SummaryRow
+            label="Launch profiles"
+            value={String(source.launchProfiles?.length || 0)}
+          />
+        </div>
+      </div>
+
+      {duplicating && progress && (
+        <div className="mb-6 space-y-1.5">
+          <div className="flex justify-between text-xs text-muted-foreground">
+            <span className="truncate">{progress.message}</span>
+            <span>{progress.percent}%</span>
+          </div>
+          <div className="h-1.5 rounded-full bg-muted overflow-hidden">
+            <div className="h-full bg-primary transition-all" style={{ width: `${progress.percent}%` }} />
+          </div>
+        </div>
+      )}
+
+      {error && (
+        <div className="flex items-start gap-2 mb-6 p-3 rounded-md bg-destructive/10 text-destructive text-sm">
+          <AlertCircle size={16} className="shrink-0 mt-0.5" />
+          {error}
+        </div>
+      )}
+
+      <div className="flex justify-end">
+        <button
+          onClick={handleDuplicate}
+          disabled={!canDuplicate || duplicating}
+          className="flex items-center gap-2 px-5 py-2.5 rounded-md text-sm font-medium bg-primary text-primary-foreground hover:bg-primary/90 transition-colors disabled:opacity-50"
+        >
+          {duplicating ? <Loader2 size={14} className="animate-spin" /> : <Copy size={14} />}
+          Duplicate Instance
+        </button>
+      </div>
+    </div>
+  )
+}
+
+function SummaryRow({ label, value, mono }: { label: string; value: string; mono?: boolean }) {
+  return (
+    <div className="grid grid-cols-[140px_1fr] gap-4 px-6 py-2 text-sm items-baseline border-t border-border/50 first:border-t-0">
+      <span className="text-muted-foreground">{label}</span>
+      <span className={mono ? 'font-mono text-xs break-all' : ''}>{value}</span>
+    </div>
+  )
+}
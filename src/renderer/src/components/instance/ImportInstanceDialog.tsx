@@ -0,0 +1,211 @@
+import { useState } from 'react'
+import { useNavigate } from 'react-router-dom'
+import { ArrowLeft, Loader2, AlertCircle, FolderOpen, FileText, GitBranch, Import } from 'lucide-react'
+import type { DetectedInstance } from '@shared/types/odoo'
+
+const inputClassName =
+  'w-full h-9 rounded-md border border-input bg-transparent px-3 text-sm focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring'
+
+export function ImportInstanceDialog() {
+  const navigate = useNavigate()
+  const [sourcePath, setSourcePath] = useState('')
+  const [detected, setDetected] = useState<DetectedInstance | null>(null)
+  const [detecting, setDetecting] = useState(false)
+  const [importing, setImporting] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [name, setName] = useState('')
+  const [venvPath, setVenvPath] = useState('')
+  const [dbName, setDbName] = useState('')
+
+  const detect = async (path: string | null): Promise<void> => {
+    if (!path) return
+    setSourcePath(path)
+    setDetected(null)
+    setError(null)
+    setDetecting(true)
+    try {
+      const result = await window.api.odoo.detectExisting(path)
+      setDetected(result)
+      setName(result.basePath.split(/[\\/]/).filter(Boolean).pop() || '')
+      setVenvPath(result.venvPath || '')
+      setDbName(result.dbName || '')
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not read this checkout')
+    } finally {
+      setDetecting(false)
+    }
+  }
+
+  const handleImport = async (): Promise<void> => {
+    setImporting(true)
+    setError(null)
+    try {
+      const instance = await window.api.odoo.import({
+        path: sourcePath,
+        name,
+        venvPath: venvPath || undefined,
+        dbName: dbName || undefined
+      })
+      navigate(`/instance/${instance.id}`)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Import failed')
+    } finally {
+      setImporting(false)
+    }
+  }
+
+  const canImport = !!detected && name.trim().length > 0 && venvPath.length > 0 && dbName.trim().length > 0
+
+  return (
+    <div className="py-4 px-12">
+      <div className="mb-8">
+        <button
+          onClick={() => navigate('/')}
+          className="flex items-center gap-1 text-sm text-muted-foreground hover:text-foreground mb-4 transition-colors"
+        >
+          <ArrowLeft size={14} />
+          Back
+        </button>
+        <h1 className="text-2xl font-semibold">Import Existing Instance</h1>
+        <p className="text-sm text-muted-foreground mt-1">
+          Manage an Odoo checkout already on disk. Nothing is cloned, installed or initialized.
+        </p>
+      </div>
+
+      <div className="bg-card border rounded-xl p-6 mb-6 space-y-4">
+        <div>
+          <label className="block text-sm font-medium mb-1.5">Source</label>
+          <div className="flex gap-2">
+            <input
+              type="text"
+              value={sourcePath}
+              readOnly
+              placeholder="Odoo folder or config file"
+              className={`${inputClassName} font-mono`}
+            />
+            <button
+              onClick={async () => detect(await window.api.dialog.selectDirectory())}
+              className="flex items-center gap-1.5 px-3 rounded-md text-sm font-medium border hover:bg-accent transition-colors shrink-0"
+            >
+              <FolderOpen size={14} />
+              Folder
+            </button>
+            <button
+              onClick={async () => detect(await window.api.dialog.selectConfig())}
+              className="flex items-center gap-1.5 px-3 rounded-md text-sm font-medium border hover:bg-accent transition-colors shrink-0"
+            >
+              <FileText size={14} />
+              Config file
+            </button>
+          </div>
+        </div>
+
+        {detecting && (
+          <div className="flex items-center gap-2 text-sm text-muted-foreground">
+            <Loader2 size={14} className="animate-spin" />
+            Looking for the sources, venv and config...
+          </div>
+        )}
+
+        {detected && (
+          <>
+            <div className="grid grid-cols-3 gap-3">
+              <div>
+                <label className="block text-sm font-medium mb-1.5">Name</label>
+                <input value={name} onChange={(e) => setName(e.target.value)} className={inputClassName} />
+              </div>
+              <div>
+                <label className="block text-sm font-medium mb-1.5">Database</label>
+                <input
+                  value={dbName}
+                  onChange={(e) => setDbName(e.target.value)}
+                  placeholder="Not set in the config"
+                  className={`${inputClassName} font-mono`}
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium mb-1.5">Virtual environment</label>
+                <div className="flex gap-2">
+                  <input
+                    value={venvPath}
+                    readOnly
+                    placeholder="Not found"
+                    className={`${inputClassName} font-mono`}
+                  />
+                  <button
+                    onClick={async () => {
+                      const path = await window.api.dialog.selectDirectory()
+                      if (path) setVenvPath(path)
+                    }}
+                    className="px-2.5 rounded-md border hover:bg-accent transition-colors shrink-0"
+                    title="Select the virtual environment"
+                  >
+                    <FolderOpen size={14} />
+                  </button>
+                </div>
+              </div>
+            </div>
+
+            <div className="-mx-6 -mb-6 border-t">
+              <DetectedRow label="Version" value={`Odoo ${detected.version} ${detected.edition}`} />
+              <DetectedRow label="Sources" value={detected.odooPath} mono />
+              {detected.enterprisePath && <DetectedRow label="Enterprise" value={detected.enterprisePath} mono />}
+              <DetectedRow label="Config" value={detected.configPath || 'None, odoo.conf will be generated'} mono />
+              <DetectedRow label="Data dir" value={detected.dataDir} mono />
+              <DetectedRow label="Ports" value={`${detected.httpPort} / ${detected.longpollingPort}`} mono />
+              <DetectedRow
+                label="Database server"
+                value={`${detected.dbUser}@${detected.dbHost}:${detected.dbPort}`}
+                mono
+              />
+              {detected.addonsPaths.map((entry) => (
+                <div
+                  key={entry.path}
+                  className="grid grid-cols-[140px_1fr] gap-4 px-6 py-2 text-sm items-baseline border-t border-border/50"
+                >
+                  <span className="text-muted-foreground">Addons</span>
+                  <span className="font-mono text-xs break-all flex items-center gap-2">
+                    {entry.path}
+                    {entry.git && (
+                      <span className="inline-flex items-center gap-1 text-[11px] px-1.5 py-0.5 rounded bg-muted text-muted-foreground shrink-0">
+                        <GitBranch size={10} />
+                        {entry.git.branch}
+                      </span>
+                    )}
+                  </span>
+                </div>
+              ))}
+            </div>
+          </>
+        )}
+      </div>
+
+      {error && (
+        <div className="flex items-start gap-2 mb-6 p-3 rounded-md bg-destructive/10 text-destructive text-sm">
+          <AlertCircle size={16} className="shrink-0 mt-0.5" />
+          {error}
+        </div>
+      )}
+
+      <div className="flex justify-end">
+        <button
+          onClick={handleImport}
+          disabled={!canImport || importing}
+          className="flex items-center gap-2 px-5 py-2.5 rounded-md text-sm font-medium bg-primary text-primary-foreground hover:bg-primary/90 transition-colors disabled:opacity-50"
+        >
+          {importing ? <Loader2 size={14} className="animate-spin" /> : <Import size={14} />}
+          Import Instance
+        </button>
+      </div>
+    </div>
+  )
+}
+
+function DetectedRow({ label, value, mono }: { label: string; value: string; mono?: boolean }) {
+  return (
+    <div className="grid grid-cols-[140px_1fr] gap-4 px-6 py-2 text-sm items-baseline border-t border-border/50 first:border-t-0">
+      <span className="text-muted-foreground">{label}</span>
+      <span className={mono ? 'font-mono text-xs break-all' : ''}>{value}</span>
+    </div>
+  )
+}
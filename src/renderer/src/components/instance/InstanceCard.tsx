@@ -1,4 +1,4 @@
-import { Circle, Trash2, ExternalLink, Play, Square } from 'lucide-react'
+import { Circle, Trash2, Copy, ExternalLink, Play, Square, HeartPulse } from 'lucide-react'
 import { cn } from '@/lib/utils'
 import { Card, CardHeader, CardTitle, CardContent } from '@/components/ui/card'
 import { Badge } from '@/components/ui/badge'
@@ -7,6 +7,7 @@ import type { OdooInstance, InstanceStatus } from '@shared/types/odoo'
 interface InstanceCardProps {
   instance: OdooInstance
   onDelete: (id: string) => void
+  onDuplicate: (id: string) => void
   onClick: (id: string) => void
 }
 
@@ -23,7 +24,7 @@ const editionColors = {
   enterprise: 'bg-coral/15 text-coral dark:text-peach'
 } as const
 
-export function InstanceCard({ instance, onDelete, onClick }: InstanceCardProps) {
+export function InstanceCard({ instance, onDelete, onDuplicate, onClick }: InstanceCardProps) {
   const isRunning = instance.status === 'running'
   const isStopped = instance.status === 'stopped'
   const isBusy = instance.status === 'starting' || instance.status === 'stopping'
@@ -49,6 +50,15 @@ export function InstanceCard({ instance, onDelete, onClick }: InstanceCardProps)
             className={cn('fill-current shrink-0', statusColors[instance.status])}
           />
           <CardTitle className="text-sm truncate">{instance.name}</CardTitle>
+          {isRunning && instance.unhealthy && (
+            <span
+              className="ml-auto flex items-center gap-1 text-[10px] font-medium text-orange-500 shrink-0"
+              title="The server does not answer its health check"
+            >
+              <HeartPulse size={10} />
+              Unhealthy
+            </span>
+          )}
         </div>
         <div className="flex items-center gap-2">
           <Badge variant="outline" className={cn('text-[10px] px-1.5 py-0', editionColors[instance.edition])}>
@@ -101,15 +111,27 @@ export function InstanceCard({ instance, onDelete, onClick }: InstanceCardProps)
               </a>
             )}
           </div>
-          <button
-            onClick={(e) => {
-              e.stopPropagation()
-              onDelete(instance.id)
-            }}
-            className="p-1 rounded-md text-muted-foreground hover:text-destructive hover:bg-destructive/10 transition-colors"
-          >
-            <Trash2 size={14} />
-          </button>
+          <div className="flex items-center gap-1">
+            <button
+              onClick={(e) => {
+                e.stopPropagation()
+                onDuplicate(instance.id)
+              }}
+              title="Duplicate"
+              className="p-1 rounded-md text-muted-foreground hover:text-foreground hover:bg-accent transition-colors"
+            >
+              <Copy size={14} />
+            </button>
+            <button
+              onClick={(e) => {
+                e.stopPropagation()
+                onDelete(instance.id)
+              }}
+              className="p-1 rounded-md text-muted-foreground hover:text-destructive hover:bg-destructive/10 transition-colors"
+            >
+              <Trash2 size={14} />
+            </button>
+          </div>
         </div>
       </CardContent>
     </Card>
@@ -30,17 +30,44 @@ import {
   AlertCircle,
   ChevronDown,
   Check,
-  RefreshCw
+  RefreshCw,
+  Camera,
+  History,
+  Upload,
+  ShieldOff,
+  Database,
+  ChevronRight,
+  ArrowUpCircle,
+  Network,
+  FlaskConical,
+  Bug,
+  HeartPulse
 } from 'lucide-react'
 import { Skeleton } from '../ui/skeleton'
-import { cn } from '@/lib/utils'
-import type { OdooInstance, InstanceStatus } from '@shared/types/odoo'
-import type { AddonRepo } from '@shared/types/addon'
+import { cn, formatBytes } from '@/lib/utils'
+import { useResourceSamples } from '@/hooks/useResourceSamples'
+import { Sparkline } from '../ui/sparkline'
+import type {
+  OdooInstance,
+  InstanceStatus,
+  AddonWatchSettings,
+  RestartPolicy,
+  RestartPolicyMode
+} from '@shared/types/odoo'
+import { DEFAULT_RESTART_POLICY } from '@shared/constants/defaults'
+import type { AddonModule, AddonRepo, ModuleOperation } from '@shared/types/addon'
+import type { DatabaseSnapshot } from '@shared/types/database'
+import type { LogLevel, LogQueryResult, LogRecord } from '@shared/types/log'
 import { ClaudePanel } from '../claude/ClaudePanel'
 import { ShellTab } from './ShellTab'
+import { DependencyGraphTab } from './DependencyGraphTab'
+import { TestsTab } from './TestsTab'
+import { TracebackView } from './TracebackView'
+import { LaunchProfilesSection } from './LaunchProfilesSection'
+import { SourcesSection } from './SourcesSection'
 import { ToggleGroup, ToggleGroupItem } from '../ui/toggle-group'
 
-type Tab = 'overview' | 'logs' | 'config' | 'addons' | 'shell' | 'claude'
+type Tab = 'overview' | 'logs' | 'config' | 'addons' | 'dependencies' | 'tests' | 'shell' | 'claude'
 
 const statusLabels: Record<InstanceStatus, string> = {
   stopped: 'Stopped',
@@ -66,10 +93,13 @@ export function InstanceDetail() {
   const [activeTab, setActiveTab] = useState<Tab>('overview')
   const [actionLoading, setActionLoading] = useState(false)
   const [actionError, setActionError] = useState<string | null>(null)
-  const [logs, setLogs] = useState<Array<{ line: string; level: string }>>([])
+  const [launchConfigPath, setLaunchConfigPath] = useState<string | null>(null)
+  const [healthError, setHealthError] = useState<string | null>(null)
+  const [logs, setLogs] = useState<LogRecord[]>([])
   const logsEndRef = useRef<HTMLDivElement>(null)
   const [autoScroll, setAutoScroll] = useState(true)
   const scrollTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null)
+  const maxLogLinesRef = useRef(5000)
 
   const fetchInstance = useCallback(async () => {
     if (!id) return
@@ -90,22 +120,48 @@ export function InstanceDetail() {
   useEffect(() => {
     const unsub = window.api.on.odooStatusChanged((data) => {
       if (data.instanceId === id) {
+        const status = data.status as InstanceStatus
         setInstance((prev) =>
-          prev ? { ...prev, status: data.status as InstanceStatus } : prev
+          prev
+            ? { ...prev, status, debugPort: status === 'stopped' || status === 'error' ? undefined : prev.debugPort }
+            : prev
         )
         setActionLoading(false)
+        // Pick up the debugger port of a (re)started debug session
+        if (status === 'running') fetchInstance()
       }
     })
     return unsub
+  }, [id, fetchInstance])
+
+  useEffect(() => {
+    const unsub = window.api.on.odooHealthChanged((data) => {
+      if (data.instanceId !== id) return
+      setInstance((prev) => (prev ? { ...prev, unhealthy: !data.health.healthy } : prev))
+      setHealthError(data.health.healthy ? null : data.health.error || null)
+    })
+    return unsub
   }, [id])
 
+  // Refresh the crash history
+  useEffect(() => {
+    const unsub = window.api.on.odooCrashed((data) => {
+      if (data.instanceId === id) fetchInstance()
+    })
+    return unsub
+  }, [id, fetchInstance])
+
   // Listen for logs
   useEffect(() => {
+    window.api.settings.get().then((settings) => {
+      maxLogLinesRef.current = settings.maxLogLines || maxLogLinesRef.current
+    }).catch(() => {})
+
     const unsub = window.api.on.odooLogLine((data) => {
       if (data.instanceId === id) {
         setLogs((prev) => {
-          const next = [...prev, { line: data.line, level: data.level }]
-          if (next.length > 5000) return next.slice(-5000)
+          const next = [...prev, data.record]
+          if (next.length > maxLogLinesRef.current) return next.slice(-maxLogLinesRef.current)
           return next
         })
       }
@@ -138,13 +194,28 @@ export function InstanceDetail() {
     setActionError(null)
     setLogs([])
     try {
-      await window.api.odoo.start(id)
+      await window.api.odoo.start(id, undefined, instance?.activeLaunchProfileId ?? '')
     } catch (err) {
       setActionLoading(false)
       setActionError(err instanceof Error ? err.message : 'Failed to start instance')
     }
   }
 
+  const handleStartDebug = async (): Promise<void> => {
+    if (!id) return
+    setActionLoading(true)
+    setActionError(null)
+    setLogs([])
+    try {
+      const session = await window.api.odoo.startDebug(id, instance?.activeLaunchProfileId ?? '')
+      setLaunchConfigPath(session.launchConfigPath)
+      setInstance((prev) => (prev ? { ...prev, debugPort: session.port } : prev))
+    } catch (err) {
+      setActionLoading(false)
+      setActionError(err instanceof Error ? err.message : 'Failed to start instance in debug mode')
+    }
+  }
+
   const handleStop = async (): Promise<void> => {
     if (!id) return
     setActionLoading(true)
@@ -163,17 +234,30 @@ export function InstanceDetail() {
     setActionError(null)
     setLogs([])
     try {
-      await window.api.odoo.restart(id)
+      await window.api.odoo.restart(id, instance?.activeLaunchProfileId ?? '')
     } catch (err) {
       setActionLoading(false)
       setActionError(err instanceof Error ? err.message : 'Failed to restart instance')
     }
   }
 
+  const handleSelectProfile = async (profileId: string): Promise<void> => {
+    if (!instance) return
+    const activeLaunchProfileId = profileId || undefined
+    setInstance((prev) => (prev ? { ...prev, activeLaunchProfileId } : prev))
+    try {
+      await window.api.odoo.saveLaunchProfiles(instance.id, instance.launchProfiles || [], activeLaunchProfileId)
+    } catch (err) {
+      setActionError(err instanceof Error ? err.message : 'Failed to select launch profile')
+    }
+  }
+
   const handleDelete = async (): Promise<void> => {
     if (!id || !instance) return
     const confirmed = window.confirm(
-      `Delete "${instance.name}"? This will remove all files and the database.`
+      instance.importedAt
+        ? `Remove "${instance.name}" from the app? Its files and databases are left untouched.`
+        : `Delete "${instance.name}"? This will remove all files and the database.`
     )
     if (!confirmed) return
 
@@ -257,10 +341,50 @@ export function InstanceDetail() {
             >
               {instance.edition}
             </span>
+            {isRunning && instance.unhealthy && (
+              <span
+                className="inline-flex items-center gap-1.5 text-xs font-medium px-2 py-0.5 rounded-md bg-orange-500/15 text-orange-600 dark:text-orange-400"
+                title={healthError || 'The server does not answer its health check'}
+              >
+                <HeartPulse size={12} />
+                Not responding
+              </span>
+            )}
+            {instance.debugPort && (
+              <button
+                onClick={() =>
+                  launchConfigPath && window.api.shell.openInEditor(launchConfigPath).catch(() => {})
+                }
+                disabled={!launchConfigPath}
+                className="inline-flex items-center gap-1.5 text-xs font-medium px-2 py-0.5 rounded-md bg-amber-500/15 text-amber-600 dark:text-amber-400 enabled:hover:bg-amber-500/25 transition-colors"
+                title={
+                  launchConfigPath
+                    ? `Attach with "Attach to Odoo (${instance.name})" in ${launchConfigPath}`
+                    : `Attach a debugpy client to 127.0.0.1:${instance.debugPort}`
+                }
+              >
+                <Bug size={12} />
+                Debugger on :{instance.debugPort}
+              </button>
+            )}
           </div>
 
           {/* Controls */}
           <div className="flex items-center gap-2">
+            {(instance.launchProfiles?.length ?? 0) > 0 && (
+              <select
+                value={instance.activeLaunchProfileId || ''}
+                onChange={(e) => handleSelectProfile(e.target.value)}
+                disabled={isBusy || actionLoading}
+                className="h-9 px-2 rounded-md border bg-background text-sm disabled:opacity-50"
+                title="Launch profile used by Start, Debug and Restart"
+              >
+                <option value="">Config file only</option>
+                {instance.launchProfiles!.map((profile) => (
+                  <option key={profile.id} value={profile.id}>{profile.name}</option>
+                ))}
+              </select>
+            )}
             {!isRunning && !isBusy && (
               <button
                 onClick={handleStart}
@@ -275,6 +399,17 @@ export function InstanceDetail() {
                 Start
               </button>
             )}
+            {!isRunning && !isBusy && (
+              <button
+                onClick={handleStartDebug}
+                disabled={actionLoading}
+                className="flex items-center gap-1.5 px-3 py-2 rounded-md text-sm font-medium border hover:bg-accent transition-colors disabled:opacity-50"
+                title="Start under debugpy and write a VS Code attach configuration"
+              >
+                <Bug size={14} />
+                Debug
+              </button>
+            )}
             {isRunning && (
               <>
                 <button
@@ -342,6 +477,8 @@ export function InstanceDetail() {
             { key: 'logs', icon: Terminal, label: 'Logs' },
             { key: 'config', icon: Settings, label: 'Configuration' },
             { key: 'addons', icon: Package, label: 'Addons' },
+            { key: 'dependencies', icon: Network, label: 'Dependencies' },
+            { key: 'tests', icon: FlaskConical, label: 'Tests' },
             { key: 'shell', icon: TerminalSquare, label: 'Shell' },
             { key: 'claude', icon: Bot, label: 'Claude' }
           ] as const).map((tab) => (
@@ -355,26 +492,49 @@ export function InstanceDetail() {
 
       {/* Tab Content */}
       {activeTab === 'overview' && (
-        <OverviewTab instance={instance} onDelete={handleDelete} onOpenFolder={handleOpenFolder} />
+        <OverviewTab
+          instance={instance}
+          onDelete={handleDelete}
+          onOpenFolder={handleOpenFolder}
+          onRefresh={fetchInstance}
+        />
       )}
       {activeTab === 'logs' && (
         <LogsTab
+          instanceId={instance.id}
           logs={logs}
           logsEndRef={logsEndRef}
           autoScroll={autoScroll}
           onToggleAutoScroll={() => setAutoScroll(!autoScroll)}
           onClear={() => setLogs([])}
+          onSentToClaude={() => setActiveTab('claude')}
         />
       )}
       {activeTab === 'config' && (
-        <ConfigTab instance={instance} onOpenFolder={handleOpenFolder} />
+        <ConfigTab instance={instance} onOpenFolder={handleOpenFolder} onRefresh={fetchInstance} />
       )}
       {activeTab === 'addons' && (
         <AddonsTab instance={instance} />
       )}
+      {activeTab === 'dependencies' && (
+        <DependencyGraphTab instanceId={instance.id} />
+      )}
+      {activeTab === 'tests' && (
+        <TestsTab
+          instanceId={instance.id}
+          isRunning={isRunning}
+          onSentToClaude={() => setActiveTab('claude')}
+        />
+      )}
       {/* Shell tab: always mounted, hidden when inactive to preserve session */}
       <div className={cn('flex-1 min-h-0', activeTab !== 'shell' && 'hidden')}>
-        {id && <ShellTab instanceId={id} />}
+        {id && (
+          <ShellTab
+            instanceId={id}
+            databases={instanceDatabases(instance)}
+            activeDb={instance.dbName}
+          />
+        )}
       </div>
       {/* Claude tab: always mounted, hidden when inactive */}
       <div className={cn('flex-1 min-h-0', activeTab !== 'claude' && 'hidden')}>
@@ -389,11 +549,13 @@ export function InstanceDetail() {
 function OverviewTab({
   instance,
   onDelete,
-  onOpenFolder
+  onOpenFolder,
+  onRefresh
 }: {
   instance: OdooInstance
   onDelete: () => void
   onOpenFolder: () => void
+  onRefresh: () => void
 }) {
   return (
     <div className="flex flex-col flex-1 gap-6">
@@ -405,76 +567,830 @@ function OverviewTab({
           <OverviewRow label="Status" value={statusLabels[instance.status]} />
         </OverviewSection>
 
+        {instance.status === 'running' && <ResourcesSection instanceId={instance.id} />}
+
         <OverviewSection title="Database">
-          <OverviewRow label="Name" value={instance.dbName} mono />
+          <OverviewRow label="Active" value={instance.dbName} mono />
           <OverviewRow label="User" value={instance.dbUser} mono />
           <OverviewRow label="Host" value={`${instance.dbHost}:${instance.dbPort}`} mono />
+          <NeutralizeRow instance={instance} onNeutralized={onRefresh} />
+        </OverviewSection>
+
+        <OverviewSection title="Environment">
+          <OverviewRow label="Python" value={instance.pythonVersion} mono />
+          <OverviewRow label="Python Path" value={instance.pythonPath} mono />
+          <OverviewRow label="Venv" value={instance.venvPath} mono />
+        </OverviewSection>
+
+        <OverviewSection title="Paths">
+          <OverviewRow label="Base" value={instance.basePath} mono />
+          <OverviewRow label="Odoo" value={instance.odooPath} mono />
+          {instance.enterprisePath && (
+            <OverviewRow label="Enterprise" value={instance.enterprisePath} mono />
+          )}
+          <OverviewRow label="Config" value={instance.configPath} mono />
         </OverviewSection>
+      </div>
+
+      <SourcesSection instance={instance} onChanged={onRefresh} />
+
+      <DatabasesSection instance={instance} onChanged={onRefresh} />
+
+      <SnapshotsSection instance={instance} />
+
+      <CrashHistorySection instance={instance} onChanged={onRefresh} />
+
+      <BackupSection instance={instance} onImported={onRefresh} />
+
+      <div className="mt-auto flex items-center justify-between py-3">
+        <span className="text-xs text-muted-foreground">
+          Created {new Date(instance.createdAt).toLocaleDateString()}
+          {instance.lastStartedAt && (
+            <> &middot; Last started {new Date(instance.lastStartedAt).toLocaleDateString()}</>
+          )}
+        </span>
+        <div className="flex items-center gap-2">
+          <button
+            onClick={onOpenFolder}
+            className="flex items-center gap-1.5 px-3 py-1.5 rounded-md text-xs font-medium border hover:bg-accent transition-colors"
+          >
+            <FolderOpen size={12} />
+            Open Folder
+          </button>
+          <button
+            onClick={onDelete}
+            className="flex items-center gap-1.5 px-3 py-1.5 rounded-md text-xs font-medium text-destructive border border-destructive/30 hover:bg-destructive/10 transition-colors"
+          >
+            <Trash2 size={12} />
+            Delete Instance
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
+
+function DatabasesSection({
+  instance,
+  onChanged
+}: {
+  instance: OdooInstance
+  onChanged: () => void
+}) {
+  const [newDbName, setNewDbName] = useState('')
+  const [duplicateFrom, setDuplicateFrom] = useState<string | null>(null)
+  const [duplicateName, setDuplicateName] = useState('')
+  const [busy, setBusy] = useState<string | null>(null)
+  const [progress, setProgress] = useState({ message: '', percent: 0 })
+  const [error, setError] = useState<string | null>(null)
+  const [confirmDropDb, setConfirmDropDb] = useState<string | null>(null)
+
+  const isStopped = instance.status === 'stopped' || instance.status === 'error'
+  const databases = instanceDatabases(instance)
+
+  useEffect(() => {
+    const unsub = window.api.on.postgresDatabaseProgress((data) => {
+      if (data.instanceId === instance.id) {
+        setProgress({ message: data.message, percent: data.percent })
+      }
+    })
+    return unsub
+  }, [instance.id])
+
+  const run = async (key: string, action: () => Promise<void>, fallback: string): Promise<void> => {
+    setBusy(key)
+    setError(null)
+    setProgress({ message: '', percent: 0 })
+    try {
+      await action()
+      onChanged()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : fallback)
+    } finally {
+      setBusy(null)
+    }
+  }
+
+  const handleCreate = (): Promise<void> =>
+    run('new', async () => {
+      await window.api.postgres.createDatabase(instance.id, newDbName.trim())
+      setNewDbName('')
+    }, 'Failed to create database')
+
+  const handleDuplicate = (sourceDb: string): Promise<void> =>
+    run(sourceDb, async () => {
+      await window.api.postgres.duplicateDatabase(instance.id, sourceDb, duplicateName.trim())
+      setDuplicateFrom(null)
+      setDuplicateName('')
+    }, 'Failed to duplicate database')
+
+  const handleActivate = (dbName: string): Promise<void> =>
+    run(dbName, () => window.api.postgres.setActiveDatabase(instance.id, dbName), 'Failed to switch database')
+
+  const handleDrop = (dbName: string): Promise<void> =>
+    run(dbName, async () => {
+      await window.api.postgres.dropDatabase(instance.id, dbName)
+      setConfirmDropDb(null)
+    }, 'Failed to drop database')
+
+  return (
+    <div className="border rounded-xl overflow-hidden">
+      <div className="flex items-center justify-between gap-3 px-4 py-2 bg-muted/30">
+        <h3 className="text-xs font-semibold uppercase tracking-wide text-muted-foreground">
+          Databases
+        </h3>
+        <div className="flex items-center gap-2">
+          <input
+            type="text"
+            value={newDbName}
+            onChange={(e) => setNewDbName(e.target.value)}
+            placeholder="New database name"
+            disabled={busy !== null}
+            className="h-7 w-56 rounded-md border border-input bg-transparent px-2 text-xs font-mono focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring"
+          />
+          <button
+            onClick={handleCreate}
+            disabled={busy !== null || !newDbName.trim()}
+            title="Create an empty database with the base module installed"
+            className="flex items-center gap-1.5 px-2.5 py-1 rounded-md text-xs font-medium bg-primary text-primary-foreground hover:bg-primary/90 transition-colors disabled:opacity-50"
+          >
+            {busy === 'new' ? <Loader2 size={12} className="animate-spin" /> : <Plus size={12} />}
+            Create
+          </button>
+        </div>
+      </div>
+
+      {error && (
+        <div className="flex items-center gap-2 px-4 py-2 bg-destructive/10 text-xs text-destructive">
+          <AlertCircle size={12} className="shrink-0" />
+          <span className="flex-1">{error}</span>
+          <button onClick={() => setError(null)} className="hover:underline shrink-0">
+            Dismiss
+          </button>
+        </div>
+      )}
+
+      {busy !== null && progress.message && (
+        <div className="px-4 py-2 space-y-1.5">
+          <div className="h-1 rounded-full bg-muted overflow-hidden">
+            <div
+              className="h-full bg-primary transition-all duration-300"
+              style={{ width: `${progress.percent}%` }}
+            />
+          </div>
+          <p className="text-xs text-muted-foreground truncate">{progress.message}</p>
+        </div>
+      )}
+
+      <div className="divide-y divide-border/50">
+        {databases.map((db) => {
+          const isActive = db === instance.dbName
+          return (
+            <div key={db} className="px-4 py-2 text-sm space-y-2">
+              <div className="flex items-center gap-4">
+                <div className="flex items-center gap-2 flex-1 min-w-0">
+                  <Database size={13} className="text-muted-foreground shrink-0" />
+                  <span className="font-mono text-xs truncate">{db}</span>
+                  {isActive && (
+                    <span className="text-[10px] px-1.5 py-0.5 rounded bg-green-500/10 text-green-500 shrink-0">
+                      Active
+                    </span>
+                  )}
+                </div>
+                <div className="flex items-center gap-1.5 shrink-0">
+                  {!isActive && (
+                    <button
+                      onClick={() => handleActivate(db)}
+                      disabled={busy !== null || !isStopped}
+                      title={isStopped ? 'Use this database for the server and the shell' : 'Stop the instance to switch databases'}
+                      className="flex items-center gap-1 px-2 py-1 rounded-md text-xs font-medium border hover:bg-accent transition-colors disabled:opacity-50"
+                    >
+                      {busy === db ? <Loader2 size={11} className="animate-spin" /> : <Check size={11} />}
+                      Use
+                    </button>
+                  )}
+                  <button
+                    onClick={() => {
+                      setDuplicateFrom(duplicateFrom === db ? null : db)
+                      setDuplicateName(`${db}_copy`)
+                    }}
+                    disabled={busy !== null || (isActive && !isStopped)}
+                    title={isActive && !isStopped ? 'Stop the instance to duplicate its active database' : 'Duplicate database and filestore'}
+                    className="flex items-center gap-1 px-2 py-1 rounded-md text-xs font-medium border hover:bg-accent transition-colors disabled:opacity-50"
+                  >
+                    <Copy size={11} />
+                    Duplicate
+                  </button>
+                  {!isActive && (confirmDropDb === db ? (
+                    <>
+                      <button
+                        onClick={() => handleDrop(db)}
+                        disabled={busy !== null}
+                        className="px-2 py-1 rounded-md text-xs font-medium bg-destructive text-white hover:bg-destructive/90 transition-colors disabled:opacity-50"
+                      >
+                        Drop
+                      </button>
+                      <button
+                        onClick={() => setConfirmDropDb(null)}
+                        className="px-2 py-1 rounded-md text-xs font-medium border hover:bg-accent transition-colors"
+                      >
+                        Cancel
+                      </button>
+                    </>
+                  ) : (
+                    <button
+                      onClick={() => setConfirmDropDb(db)}
+                      disabled={busy !== null}
+                      title="Drop database and filestore"
+                      className="p-1 rounded-md text-muted-foreground hover:text-destructive hover:bg-destructive/10 transition-colors disabled:opacity-50"
+                    >
+                      <Trash2 size={12} />
+                    </button>
+                  ))}
+                </div>
+              </div>
+
+              {duplicateFrom === db && (
+                <div className="flex items-center gap-2 pl-5">
+                  <input
+                    type="text"
+                    value={duplicateName}
+                    onChange={(e) => setDuplicateName(e.target.value)}
+                    placeholder="Name of the copy"
+                    disabled={busy !== null}
+                    className="h-7 w-56 rounded-md border border-input bg-transparent px-2 text-xs font-mono focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring"
+                  />
+                  <button
+                    onClick={() => handleDuplicate(db)}
+                    disabled={busy !== null || !duplicateName.trim()}
+                    className="flex items-center gap-1 px-2 py-1 rounded-md text-xs font-medium bg-primary text-primary-foreground hover:bg-primary/90 transition-colors disabled:opacity-50"
+                  >
+                    {busy === db ? <Loader2 size={11} className="animate-spin" /> : <Copy size={11} />}
+                    Create copy
+                  </button>
+                  <button
+                    onClick={() => setDuplicateFrom(null)}
+                    className="px-2 py-1 rounded-md text-xs font-medium border hover:bg-accent transition-colors"
+                  >
+                    Cancel
+                  </button>
+                </div>
+              )}
+            </div>
+          )
+        })}
+      </div>
+    </div>
+  )
+}
+
+function SnapshotsSection({ instance }: { instance: OdooInstance }) {
+  const [snapshots, setSnapshots] = useState<DatabaseSnapshot[]>(instance.snapshots || [])
+  const [snapshotName, setSnapshotName] = useState('')
+  const [busyId, setBusyId] = useState<string | null>(null)
+  const [progress, setProgress] = useState({ message: '', percent: 0 })
+  const [error, setError] = useState<string | null>(null)
+  const [confirmDeleteId, setConfirmDeleteId] = useState<string | null>(null)
+
+  const canRestore = instance.status === 'stopped' || instance.status === 'error'
+
+  useEffect(() => {
+    window.api.postgres.listSnapshots(instance.id).then(setSnapshots).catch(() => {})
+  }, [instance.id])
+
+  useEffect(() => {
+    const unsub = window.api.on.postgresSnapshotProgress((data) => {
+      if (data.instanceId === instance.id) {
+        setProgress({ message: data.message, percent: data.percent })
+      }
+    })
+    return unsub
+  }, [instance.id])
+
+  const handleCreate = async (): Promise<void> => {
+    setBusyId('new')
+    setError(null)
+    setProgress({ message: 'Starting snapshot...', percent: 0 })
+    try {
+      const snapshot = await window.api.postgres.createSnapshot(instance.id, snapshotName.trim() || undefined)
+      setSnapshots((prev) => [snapshot, ...prev])
+      setSnapshotName('')
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to create snapshot')
+    } finally {
+      setBusyId(null)
+    }
+  }
+
+  const handleRestore = async (snapshot: DatabaseSnapshot): Promise<void> => {
+    const confirmed = window.confirm(
+      `Restore "${snapshot.name}"? The current database "${instance.dbName}" and its filestore will be replaced.`
+    )
+    if (!confirmed) return
+
+    setBusyId(snapshot.id)
+    setError(null)
+    setProgress({ message: 'Starting restore...', percent: 0 })
+    try {
+      await window.api.postgres.restoreSnapshot(instance.id, snapshot.id)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to restore snapshot')
+    } finally {
+      setBusyId(null)
+    }
+  }
+
+  const handleDelete = async (snapshotId: string): Promise<void> => {
+    try {
+      await window.api.postgres.deleteSnapshot(instance.id, snapshotId)
+      setSnapshots((prev) => prev.filter((s) => s.id !== snapshotId))
+      setConfirmDeleteId(null)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to delete snapshot')
+    }
+  }
+
+  return (
+    <div className="border rounded-xl overflow-hidden">
+      <div className="flex items-center justify-between gap-3 px-4 py-2 bg-muted/30">
+        <h3 className="text-xs font-semibold uppercase tracking-wide text-muted-foreground">
+          Snapshots
+        </h3>
+        <div className="flex items-center gap-2">
+          <input
+            type="text"
+            value={snapshotName}
+            onChange={(e) => setSnapshotName(e.target.value)}
+            placeholder="Snapshot name (optional)"
+            disabled={busyId !== null}
+            className="h-7 w-56 rounded-md border border-input bg-transparent px-2 text-xs focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring"
+          />
+          <button
+            onClick={handleCreate}
+            disabled={busyId !== null}
+            className="flex items-center gap-1.5 px-2.5 py-1 rounded-md text-xs font-medium bg-primary text-primary-foreground hover:bg-primary/90 transition-colors disabled:opacity-50"
+          >
+            {busyId === 'new' ? <Loader2 size={12} className="animate-spin" /> : <Camera size={12} />}
+            Take Snapshot
+          </button>
+        </div>
+      </div>
+
+      {error && (
+        <div className="flex items-center gap-2 px-4 py-2 bg-destructive/10 text-xs text-destructive">
+          <AlertCircle size={12} className="shrink-0" />
+          <span className="flex-1">{error}</span>
+          <button onClick={() => setError(null)} className="hover:underline shrink-0">
+            Dismiss
+          </button>
+        </div>
+      )}
+
+      {busyId !== null && (
+        <div className="px-4 py-2 space-y-1.5">
+          <div className="h-1 rounded-full bg-muted overflow-hidden">
+            <div
+              className="h-full bg-primary transition-all duration-300"
+              style={{ width: `${progress.percent}%` }}
+            />
+          </div>
+          <p className="text-xs text-muted-foreground truncate">{progress.message}</p>
+        </div>
+      )}
+
+      {snapshots.length === 0 ? (
+        <p className="px-4 py-4 text-xs text-muted-foreground">
+          No snapshots yet. Take one before a risky migration to roll the database and filestore back later.
+        </p>
+      ) : (
+        <div className="divide-y divide-border/50">
+          {snapshots.map((snapshot) => (
+            <div key={snapshot.id} className="flex items-center gap-4 px-4 py-2 text-sm">
+              <div className="flex-1 min-w-0">
+                <p className="truncate">{snapshot.name}</p>
+                <p className="text-xs text-muted-foreground">
+                  <span className="font-mono">{snapshot.dbName}</span> &middot;{' '}
+                  {new Date(snapshot.createdAt).toLocaleString()} &middot; {formatBytes(snapshot.size)}
+                  {!snapshot.hasFilestore && <> &middot; no filestore</>}
+                </p>
+              </div>
+              <div className="flex items-center gap-1.5 shrink-0">
+                <button
+                  onClick={() => handleRestore(snapshot)}
+                  disabled={busyId !== null || !canRestore || snapshot.dbName !== instance.dbName}
+                  title={
+                    snapshot.dbName !== instance.dbName
+                      ? `Switch to ${snapshot.dbName} to restore this snapshot`
+                      : canRestore
+                        ? 'Restore this snapshot'
+                        : 'Stop the instance to restore'
+                  }
+                  className="flex items-center gap-1 px-2 py-1 rounded-md text-xs font-medium border hover:bg-accent transition-colors disabled:opacity-50"
+                >
+                  {busyId === snapshot.id ? <Loader2 size={11} className="animate-spin" /> : <History size={11} />}
+                  Restore
+                </button>
+                {confirmDeleteId === snapshot.id ? (
+                  <>
+                    <button
+                      onClick={() => handleDelete(snapshot.id)}
+                      className="px-2 py-1 rounded-md text-xs font-medium bg-destructive text-white hover:bg-destructive/90 transition-colors"
+                    >
+                      Confirm
+                    </button>
+                    <button
+                      onClick={() => setConfirmDeleteId(null)}
+                      className="px-2 py-1 rounded-md text-xs font-medium border hover:bg-accent transition-colors"
+                    >
+                      Cancel
+                    </button>
+                  </>
+                ) : (
+                  <button
+                    onClick={() => setConfirmDeleteId(snapshot.id)}
+                    disabled={busyId !== null}
+                    className="p-1 rounded-md text-muted-foreground hover:text-destructive hover:bg-destructive/10 transition-colors disabled:opacity-50"
+                  >
+                    <Trash2 size={12} />
+                  </button>
+                )}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
+
+function CrashHistorySection({
+  instance,
+  onChanged
+}: {
+  instance: OdooInstance
+  onChanged: () => void
+}) {
+  const [policy, setPolicy] = useState<RestartPolicy>(instance.restartPolicy || DEFAULT_RESTART_POLICY)
+  const [expandedId, setExpandedId] = useState<string | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const reports = instance.crashReports || []
+
+  const handlePolicyChange = async (changes: Partial<RestartPolicy>): Promise<void> => {
+    const previous = policy
+    const next = { ...policy, ...changes }
+    setPolicy(next)
+    setError(null)
+    try {
+      await window.api.odoo.setRestartPolicy(instance.id, next)
+    } catch (err) {
+      setPolicy(previous)
+      setError(err instanceof Error ? err.message : 'Failed to save restart policy')
+    }
+  }
+
+  const handleClear = async (): Promise<void> => {
+    try {
+      await window.api.odoo.clearCrashReports(instance.id)
+      onChanged()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to clear crash history')
+    }
+  }
+
+  return (
+    <div className="border rounded-xl overflow-hidden">
+      <div className="flex items-center justify-between gap-3 px-4 py-2 bg-muted/30">
+        <h3 className="text-xs font-semibold uppercase tracking-wide text-muted-foreground">
+          Crashes
+        </h3>
+        <div className="flex items-center gap-2 text-xs">
+          <span className="text-muted-foreground">Restart</span>
+          <select
+            value={policy.mode}
+            onChange={(e) => handlePolicyChange({ mode: e.target.value as RestartPolicyMode })}
+            className="h-7 rounded-md border border-input bg-transparent px-2 text-xs"
+          >
+            <option value="never">Never</option>
+            <option value="on-failure">On failure</option>
+          </select>
+          {policy.mode === 'on-failure' && (
+            <>
+              <span className="text-muted-foreground">up to</span>
+              <input
+                type="number"
+                min={1}
+                max={20}
+                value={policy.maxRetries}
+                onChange={(e) => handlePolicyChange({ maxRetries: parseInt(e.target.value, 10) || 1 })}
+                className="h-7 w-14 rounded-md border border-input bg-transparent px-2 text-xs"
+              />
+              <span className="text-muted-foreground">times, waiting</span>
+              <input
+                type="number"
+                min={1}
+                value={policy.backoffSeconds}
+                onChange={(e) => handlePolicyChange({ backoffSeconds: parseInt(e.target.value, 10) || 1 })}
+                className="h-7 w-14 rounded-md border border-input bg-transparent px-2 text-xs"
+              />
+              <span className="text-muted-foreground">s, doubled each time</span>
+            </>
+          )}
+          {reports.length > 0 && (
+            <button
+              onClick={handleClear}
+              className="ml-2 px-2.5 py-1 rounded-md font-medium border hover:bg-accent transition-colors"
+            >
+              Clear
+            </button>
+          )}
+        </div>
+      </div>
+
+      {error && (
+        <div className="flex items-center gap-2 px-4 py-2 bg-destructive/10 text-xs text-destructive">
+          <AlertCircle size={12} className="shrink-0" />
+          <span className="flex-1">{error}</span>
+          <button onClick={() => setError(null)} className="hover:underline shrink-0">
+            Dismiss
+          </button>
+        </div>
+      )}
+
+      {reports.length === 0 ? (
+        <p className="px-4 py-4 text-xs text-muted-foreground">
+          No crashes recorded. When the server exits with an error, its last log lines are kept here.
+        </p>
+      ) : (
+        <div className="divide-y divide-border/50">
+          {reports.map((report) => (
+            <div key={report.id}>
+              <button
+                onClick={() => setExpandedId(expandedId === report.id ? null : report.id)}
+                className="w-full flex items-center gap-3 px-4 py-2 text-sm text-left hover:bg-muted/20 transition-colors"
+              >
+                {expandedId === report.id ? <ChevronDown size={12} /> : <ChevronRight size={12} />}
+                <AlertTriangle size={12} className="text-destructive shrink-0" />
+                <span className="flex-1 min-w-0 truncate">
+                  {report.exitCode !== null ? `Exited with code ${report.exitCode}` : `Killed by ${report.signal}`}
+                  <span className="text-xs text-muted-foreground">
+                    {' '}&middot; after {formatUptime(report.uptimeSeconds)}
+                    {report.restartAttempt !== undefined && <> &middot; restart attempt {report.restartAttempt}</>}
+                  </span>
+                </span>
+                <span className="text-xs text-muted-foreground shrink-0">
+                  {new Date(report.crashedAt).toLocaleString()}
+                </span>
+              </button>
+              {expandedId === report.id && (
+                report.logTail.length > 0 ? (
+                  <TracebackView
+                    text={report.logTail.map((record) => record.raw).join('\n')}
+                    className="mx-4 mb-3 p-2 max-h-80 overflow-y-auto rounded-md bg-muted/50 text-[11px] font-mono"
+                  />
+                ) : (
+                  <p className="px-4 pb-3 text-xs text-muted-foreground">No output before the crash.</p>
+                )
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
+
+function formatUptime(seconds: number): string {
+  if (seconds < 60) return `${seconds}s`
+  if (seconds < 3600) return `${Math.floor(seconds / 60)}m ${seconds % 60}s`
+  return `${Math.floor(seconds / 3600)}h ${Math.floor((seconds % 3600) / 60)}m`
+}
+
+function NeutralizeRow({
+  instance,
+  onNeutralized
+}: {
+  instance: OdooInstance
+  onNeutralized: () => void
+}) {
+  const [neutralizing, setNeutralizing] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const canNeutralize = instance.status === 'stopped' || instance.status === 'error'
+
+  const handleNeutralize = async (): Promise<void> => {
+    const confirmed = window.confirm(
+      `Neutralize "${instance.dbName}"? Mail servers, scheduled actions, payment providers and IAP accounts will be disabled.`
+    )
+    if (!confirmed) return
+
+    setNeutralizing(true)
+    setError(null)
+    try {
+      await window.api.odoo.neutralize(instance.id)
+      onNeutralized()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to neutralize database')
+    } finally {
+      setNeutralizing(false)
+    }
+  }
+
+  return (
+    <div className="grid grid-cols-[140px_1fr] gap-4 px-4 py-2 text-sm items-center">
+      <span className="text-muted-foreground shrink-0">Neutralized</span>
+      <div className="flex items-center justify-between gap-3 min-w-0">
+        <span className={cn('text-xs', error && 'text-destructive')}>
+          {error ||
+            (instance.neutralizedDatabases?.[instance.dbName]
+              ? new Date(instance.neutralizedDatabases[instance.dbName]).toLocaleString()
+              : 'No')}
+        </span>
+        <button
+          onClick={handleNeutralize}
+          disabled={neutralizing || !canNeutralize}
+          title={canNeutralize ? 'Disable mail servers, crons, payment providers and IAP' : 'Stop the instance to neutralize'}
+          className="flex items-center gap-1 px-2 py-1 rounded-md text-xs font-medium border hover:bg-accent transition-colors disabled:opacity-50 shrink-0"
+        >
+          {neutralizing ? <Loader2 size={11} className="animate-spin" /> : <ShieldOff size={11} />}
+          Neutralize
+        </button>
+      </div>
+    </div>
+  )
+}
+
+function BackupSection({
+  instance,
+  onImported
+}: {
+  instance: OdooInstance
+  onImported: () => void
+}) {
+  const [busy, setBusy] = useState<'export' | 'import' | null>(null)
+  const [neutralizeOnImport, setNeutralizeOnImport] = useState(true)
+  const [progress, setProgress] = useState({ message: '', percent: 0 })
+  const [error, setError] = useState<string | null>(null)
+  const [result, setResult] = useState<string | null>(null)
+
+  const canImport = instance.status === 'stopped' || instance.status === 'error'
+
+  useEffect(() => {
+    const unsub = window.api.on.postgresBackupProgress((data) => {
+      if (data.instanceId === instance.id) {
+        setProgress({ message: data.message, percent: data.percent })
+      }
+    })
+    return unsub
+  }, [instance.id])
+
+  const handleExport = async (): Promise<void> => {
+    const date = new Date().toISOString().slice(0, 19).replace(/[T:]/g, '_')
+    const targetPath = await window.api.dialog.saveBackup(`${instance.dbName}_${date}.zip`)
+    if (!targetPath) return
+
+    setBusy('export')
+    setError(null)
+    setResult(null)
+    setProgress({ message: 'Starting export...', percent: 0 })
+    try {
+      await window.api.postgres.exportBackup(instance.id, targetPath)
+      setResult(`Backup exported to ${targetPath}`)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to export backup')
+    } finally {
+      setBusy(null)
+    }
+  }
+
+  const handleImport = async (): Promise<void> => {
+    const zipPath = await window.api.dialog.selectBackup()
+    if (!zipPath) return
 
-        <OverviewSection title="Environment">
-          <OverviewRow label="Python" value={instance.pythonVersion} mono />
-          <OverviewRow label="Python Path" value={instance.pythonPath} mono />
-          <OverviewRow label="Venv" value={instance.venvPath} mono />
-        </OverviewSection>
+    const confirmed = window.confirm(
+      `Import this backup? The current database "${instance.dbName}" and its filestore will be replaced. ` +
+        'A .sql or .dump file has no filestore: the current one is kept.'
+    )
+    if (!confirmed) return
 
-        <OverviewSection title="Paths">
-          <OverviewRow label="Base" value={instance.basePath} mono />
-          <OverviewRow label="Odoo" value={instance.odooPath} mono />
-          {instance.enterprisePath && (
-            <OverviewRow label="Enterprise" value={instance.enterprisePath} mono />
-          )}
-          <OverviewRow label="Config" value={instance.configPath} mono />
-        </OverviewSection>
-      </div>
+    setBusy('import')
+    setError(null)
+    setResult(null)
+    setProgress({ message: 'Starting import...', percent: 0 })
+    try {
+      const manifest = await window.api.postgres.importBackup(instance.id, zipPath, neutralizeOnImport)
+      onImported()
+      setResult(
+        manifest
+          ? `Imported "${manifest.db_name}" (${Object.keys(manifest.modules).length} modules)`
+          : 'Backup imported'
+      )
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to import backup')
+    } finally {
+      setBusy(null)
+    }
+  }
 
-      <div className="mt-auto flex items-center justify-between py-3">
-        <span className="text-xs text-muted-foreground">
-          Created {new Date(instance.createdAt).toLocaleDateString()}
-          {instance.lastStartedAt && (
-            <> &middot; Last started {new Date(instance.lastStartedAt).toLocaleDateString()}</>
-          )}
-        </span>
+  return (
+    <div className="border rounded-xl overflow-hidden">
+      <div className="flex items-center justify-between gap-3 px-4 py-2 bg-muted/30">
+        <h3 className="text-xs font-semibold uppercase tracking-wide text-muted-foreground">
+          Odoo Backup
+        </h3>
         <div className="flex items-center gap-2">
+          <label className="flex items-center gap-1.5 text-xs text-muted-foreground cursor-pointer select-none">
+            <input
+              type="checkbox"
+              checked={neutralizeOnImport}
+              onChange={(e) => setNeutralizeOnImport(e.target.checked)}
+              disabled={busy !== null}
+            />
+            Neutralize after import
+          </label>
           <button
-            onClick={onOpenFolder}
-            className="flex items-center gap-1.5 px-3 py-1.5 rounded-md text-xs font-medium border hover:bg-accent transition-colors"
+            onClick={handleImport}
+            disabled={busy !== null || !canImport}
+            title={canImport ? 'Import a backup .zip, pg_dump file or .sql dump' : 'Stop the instance to import'}
+            className="flex items-center gap-1.5 px-2.5 py-1 rounded-md text-xs font-medium border hover:bg-accent transition-colors disabled:opacity-50"
           >
-            <FolderOpen size={12} />
-            Open Folder
+            {busy === 'import' ? <Loader2 size={12} className="animate-spin" /> : <Upload size={12} />}
+            Import
           </button>
           <button
-            onClick={onDelete}
-            className="flex items-center gap-1.5 px-3 py-1.5 rounded-md text-xs font-medium text-destructive border border-destructive/30 hover:bg-destructive/10 transition-colors"
+            onClick={handleExport}
+            disabled={busy !== null}
+            className="flex items-center gap-1.5 px-2.5 py-1 rounded-md text-xs font-medium border hover:bg-accent transition-colors disabled:opacity-50"
           >
-            <Trash2 size={12} />
-            Delete Instance
+            {busy === 'export' ? <Loader2 size={12} className="animate-spin" /> : <Download size={12} />}
+            Export .zip
           </button>
         </div>
       </div>
+
+      {busy !== null ? (
+        <div className="px-4 py-2 space-y-1.5">
+          <div className="h-1 rounded-full bg-muted overflow-hidden">
+            <div
+              className="h-full bg-primary transition-all duration-300"
+              style={{ width: `${progress.percent}%` }}
+            />
+          </div>
+          <p className="text-xs text-muted-foreground truncate">{progress.message}</p>
+        </div>
+      ) : error ? (
+        <div className="flex items-center gap-2 px-4 py-2 bg-destructive/10 text-xs text-destructive">
+          <AlertCircle size={12} className="shrink-0" />
+          <span className="flex-1">{error}</span>
+          <button onClick={() => setError(null)} className="hover:underline shrink-0">
+            Dismiss
+          </button>
+        </div>
+      ) : (
+        <p className="px-4 py-3 text-xs text-muted-foreground break-all">
+          {result ||
+            'Same format as the Odoo database manager: dump.sql, filestore and manifest.json in a single zip.'}
+        </p>
+      )}
     </div>
   )
 }
 
+/** Mirrors InstanceStore.getDatabases: older instances only have dbName */
+function instanceDatabases(instance: OdooInstance): string[] {
+  const databases = instance.databases || []
+  return databases.includes(instance.dbName) ? databases : [instance.dbName, ...databases]
+}
+
 function LogsTab({
+  instanceId,
   logs,
   logsEndRef,
   autoScroll,
   onToggleAutoScroll,
-  onClear
+  onClear,
+  onSentToClaude
 }: {
-  logs: Array<{ line: string; level: string }>
+  instanceId: string
+  logs: LogRecord[]
   logsEndRef: React.RefObject<HTMLDivElement | null>
   autoScroll: boolean
   onToggleAutoScroll: () => void
   onClear: () => void
+  onSentToClaude: () => void
 }) {
   const [filter, setFilter] = useState<string>('ALL')
   const [selectedLines, setSelectedLines] = useState<Set<number>>(new Set())
   const [lastClickedIndex, setLastClickedIndex] = useState<number | null>(null)
   const [copied, setCopied] = useState<'all' | 'selected' | null>(null)
+  const [sendError, setSendError] = useState<string | null>(null)
+  const [showHistory, setShowHistory] = useState(false)
+  const [history, setHistory] = useState<LogQueryResult | null>(null)
+  const [expanded, setExpanded] = useState<Set<LogRecord>>(new Set())
 
+  // History results replace the live buffer until cleared
+  const sourceLogs = history ? history.entries : logs
   const filteredLogs =
-    filter === 'ALL' ? logs : logs.filter((l) => l.level === filter)
+    filter === 'ALL' ? sourceLogs : sourceLogs.filter((l) => l.level === filter)
 
   const handleLineClick = (index: number, e: React.MouseEvent): void => {
     // Don't interfere with text selection
@@ -520,16 +1436,40 @@ function LogsTab({
   }
 
   const handleCopyAll = (): void => {
-    const text = filteredLogs.map((l) => l.line).join('\n')
+    const text = filteredLogs.map((l) => l.raw).join('\n')
     copyToClipboard(text, 'all')
   }
 
   const handleCopySelected = (): void => {
     const sorted = Array.from(selectedLines).sort((a, b) => a - b)
-    const text = sorted.map((i) => filteredLogs[i]?.line).filter(Boolean).join('\n')
+    const text = sorted.map((i) => filteredLogs[i]?.raw).filter(Boolean).join('\n')
     copyToClipboard(text, 'selected')
   }
 
+  const sendToClaude = async (text: string): Promise<void> => {
+    setSendError(null)
+    try {
+      await window.api.claude.sendLogBlock(instanceId, text)
+      onSentToClaude()
+    } catch (err) {
+      setSendError(err instanceof Error ? err.message : 'Failed to send to Claude')
+    }
+  }
+
+  const handleSendSelected = (): void => {
+    const sorted = Array.from(selectedLines).sort((a, b) => a - b)
+    sendToClaude(sorted.map((i) => filteredLogs[i]?.raw).filter(Boolean).join('\n'))
+  }
+
+  const toggleExpanded = (record: LogRecord): void => {
+    setExpanded((prev) => {
+      const next = new Set(prev)
+      if (next.has(record)) next.delete(record)
+      else next.add(record)
+      return next
+    })
+  }
+
   const handleSelectAll = (): void => {
     if (selectedLines.size === filteredLogs.length) {
       setSelectedLines(new Set())
@@ -538,11 +1478,11 @@ function LogsTab({
     }
   }
 
-  // Reset selection when filter changes
+  // Reset selection when filter or source changes
   useEffect(() => {
     setSelectedLines(new Set())
     setLastClickedIndex(null)
-  }, [filter])
+  }, [filter, history])
 
   return (
     <div className="flex flex-col flex-1 min-h-0 gap-3">
@@ -561,7 +1501,8 @@ function LogsTab({
             <option value="CRITICAL">Critical</option>
           </select>
           <span className="text-xs text-muted-foreground">
-            {filteredLogs.length} lines
+            {filteredLogs.length} {history ? 'matching records' : 'records'}
+            {history?.truncated && ' (most recent only)'}
           </span>
           {selectedLines.size > 0 && (
             <span className="text-xs text-primary font-medium">
@@ -570,13 +1511,22 @@ function LogsTab({
           )}
         </div>
         <div className="flex items-center gap-1.5">
+          {selectedLines.size > 0 && (
+            <button
+              onClick={handleSendSelected}
+              className="flex items-center gap-1 px-2 py-1 rounded text-xs font-medium bg-primary/10 text-primary hover:bg-primary/20 transition-colors"
+            >
+              <Bot size={12} />
+              Send to Claude
+            </button>
+          )}
           {selectedLines.size > 0 && (
             <button
               onClick={handleCopySelected}
               className="flex items-center gap-1 px-2 py-1 rounded text-xs font-medium bg-primary/10 text-primary hover:bg-primary/20 transition-colors"
             >
               {copied === 'selected' ? <CopyCheck size={12} /> : <Copy size={12} />}
-              {copied === 'selected' ? 'Copied!' : `Copy ${selectedLines.size} lines`}
+              {copied === 'selected' ? 'Copied!' : `Copy ${selectedLines.size} records`}
             </button>
           )}
           {filteredLogs.length > 0 && (
@@ -599,6 +1549,18 @@ function LogsTab({
             </>
           )}
           <div className="w-px h-4 bg-border mx-0.5" />
+          <button
+            onClick={() => setShowHistory(!showHistory)}
+            className={cn(
+              'flex items-center gap-1 px-2 py-1 rounded text-xs font-medium transition-colors',
+              showHistory
+                ? 'bg-primary/10 text-primary'
+                : 'text-muted-foreground hover:text-foreground'
+            )}
+          >
+            <History size={12} />
+            History
+          </button>
           <button
             onClick={onToggleAutoScroll}
             className={cn(
@@ -619,6 +1581,25 @@ function LogsTab({
         </div>
       </div>
 
+      {showHistory && (
+        <LogHistorySearch
+          instanceId={instanceId}
+          level={filter}
+          active={history !== null}
+          onResult={setHistory}
+        />
+      )}
+
+      {sendError && (
+        <div className="flex items-center gap-2 px-3 py-2 rounded-md bg-destructive/10 border border-destructive/30 text-sm text-destructive shrink-0">
+          <AlertCircle size={14} />
+          <span className="flex-1">{sendError}</span>
+          <button onClick={() => setSendError(null)} className="text-xs hover:underline">
+            Dismiss
+          </button>
+        </div>
+      )}
+
       <div className="bg-[#0d1117] border rounded-xl p-4 flex-1 min-h-0 overflow-y-auto font-mono text-xs leading-5 select-text">
         {filteredLogs.length === 0 ? (
           <div className="flex items-center justify-center h-full text-gray-500">
@@ -634,7 +1615,7 @@ function LogsTab({
                 key={i}
                 onClick={(e) => handleLineClick(i, e)}
                 className={cn(
-                  'px-2 -mx-1 rounded cursor-pointer transition-colors',
+                  'group relative px-2 -mx-1 rounded cursor-pointer transition-colors',
                   selectedLines.has(i)
                     ? 'bg-primary/20 border-l-2 border-primary'
                     : 'hover:bg-white/5 border-l-2 border-transparent'
@@ -643,7 +1624,43 @@ function LogsTab({
                 <span className="text-gray-600 select-none mr-3 inline-block w-10 text-right">
                   {i + 1}
                 </span>
-                <span className={logLevelColor(log.level)}>{log.line}</span>
+                {log.traceback ? (
+                  <button
+                    onClick={(e) => {
+                      e.stopPropagation()
+                      toggleExpanded(log)
+                    }}
+                    className="inline-flex items-center -ml-3 w-3 text-gray-500 hover:text-white select-none align-middle"
+                    title={expanded.has(log) ? 'Collapse' : 'Expand'}
+                  >
+                    {expanded.has(log) ? <ChevronDown size={11} /> : <ChevronRight size={11} />}
+                  </button>
+                ) : null}
+                <span className={logLevelColor(log.level)}>{log.raw.split('\n')[0]}</span>
+                {log.traceback && !expanded.has(log) && (
+                  <span className="ml-2 text-gray-500 select-none">
+                    +{log.traceback.split('\n').length} lines
+                  </span>
+                )}
+                {log.traceback && expanded.has(log) && (
+                  <TracebackView
+                    text={log.traceback}
+                    className={cn('ml-[3.25rem]', logLevelColor(log.level))}
+                  />
+                )}
+                {(log.level === 'ERROR' || log.level === 'CRITICAL') && (
+                  <button
+                    onClick={(e) => {
+                      e.stopPropagation()
+                      sendToClaude(log.raw)
+                    }}
+                    className="absolute right-1 top-0 hidden group-hover:flex items-center gap-1 px-1.5 rounded bg-[#0d1117] text-gray-400 hover:text-white select-none"
+                    title="Send this error and its traceback to Claude"
+                  >
+                    <Bot size={11} />
+                    Ask Claude
+                  </button>
+                )}
               </div>
             ))}
             <div ref={logsEndRef} />
@@ -653,13 +1670,120 @@ function LogsTab({
 
       {filteredLogs.length > 0 && (
         <p className="text-xs text-muted-foreground">
-          Click to select a line. Shift+click for range. {navigator.platform.includes('Mac') ? 'Cmd' : 'Ctrl'}+click to toggle. You can also select text directly to copy.
+          Click to select a record. Shift+click for range. {navigator.platform.includes('Mac') ? 'Cmd' : 'Ctrl'}+click to toggle. You can also select text directly to copy.
         </p>
       )}
     </div>
   )
 }
 
+/** Search the persisted log files, across restarts */
+function LogHistorySearch({
+  instanceId,
+  level,
+  active,
+  onResult
+}: {
+  instanceId: string
+  level: string
+  active: boolean
+  onResult: (result: LogQueryResult | null) => void
+}) {
+  const [text, setText] = useState('')
+  const [regex, setRegex] = useState(false)
+  const [logger, setLogger] = useState('')
+  const [from, setFrom] = useState('')
+  const [to, setTo] = useState('')
+  const [searching, setSearching] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const handleSearch = async (): Promise<void> => {
+    setSearching(true)
+    setError(null)
+    try {
+      onResult(
+        await window.api.logs.query(instanceId, {
+          text: text || undefined,
+          regex,
+          logger: logger || undefined,
+          levels: level === 'ALL' ? undefined : [level as LogLevel],
+          // datetime-local values are local time
+          from: from ? new Date(from).toISOString() : undefined,
+          to: to ? new Date(to).toISOString() : undefined
+        })
+      )
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Search failed')
+    } finally {
+      setSearching(false)
+    }
+  }
+
+  const inputClass =
+    'h-8 rounded-md border border-input bg-transparent px-2 text-xs focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring'
+
+  return (
+    <div className="shrink-0 space-y-2">
+      <form
+        onSubmit={(e) => {
+          e.preventDefault()
+          handleSearch()
+        }}
+        className="flex flex-wrap items-center gap-2"
+      >
+        <input
+          value={text}
+          onChange={(e) => setText(e.target.value)}
+          placeholder={regex ? 'Regular expression' : 'Search text'}
+          className={cn(inputClass, 'flex-1 min-w-48 font-mono')}
+        />
+        <label className="flex items-center gap-1 text-xs text-muted-foreground">
+          <input type="checkbox" checked={regex} onChange={(e) => setRegex(e.target.checked)} />
+          Regex
+        </label>
+        <input
+          value={logger}
+          onChange={(e) => setLogger(e.target.value)}
+          placeholder="Logger or module"
+          className={cn(inputClass, 'w-44 font-mono')}
+        />
+        <input
+          type="datetime-local"
+          value={from}
+          onChange={(e) => setFrom(e.target.value)}
+          className={inputClass}
+          title="From"
+        />
+        <input
+          type="datetime-local"
+          value={to}
+          onChange={(e) => setTo(e.target.value)}
+          className={inputClass}
+          title="To"
+        />
+        <button
+          type="submit"
+          disabled={searching}
+          className="flex items-center gap-1 px-3 h-8 rounded-md text-xs font-medium bg-primary text-primary-foreground hover:bg-primary/90 transition-colors disabled:opacity-50"
+        >
+          {searching && <Loader2 size={12} className="animate-spin" />}
+          Search
+        </button>
+        {active && (
+          <button
+            type="button"
+            onClick={() => onResult(null)}
+            className="px-2 h-8 rounded-md text-xs font-medium text-muted-foreground hover:text-foreground transition-colors"
+          >
+            Back to live logs
+          </button>
+        )}
+      </form>
+      {error && <p className="text-xs text-destructive">{error}</p>}
+    </div>
+  )
+}
+
 /** Odoo config option descriptions for the most common keys */
 const ODOO_CONFIG_DESCRIPTIONS: Record<string, string> = {
   addons_path: 'Specify additional addons paths (separated by commas).',
@@ -740,10 +1864,12 @@ const COMMON_CONFIG_KEYS = [
 
 function ConfigTab({
   instance,
-  onOpenFolder
+  onOpenFolder,
+  onRefresh
 }: {
   instance: OdooInstance
   onOpenFolder: () => void
+  onRefresh: () => void
 }) {
   const [configEntries, setConfigEntries] = useState<Array<{ key: string; value: string }>>([])
   const [originalRaw, setOriginalRaw] = useState('')
@@ -944,6 +2070,8 @@ function ConfigTab({
           </button>
         </div>
       </div>
+
+      <LaunchProfilesSection instance={instance} onSaved={onRefresh} />
     </div>
   )
 }
@@ -987,16 +2115,49 @@ function AddonsTab({ instance }: { instance: OdooInstance }) {
   const [error, setError] = useState<string | null>(null)
   const [pullingId, setPullingId] = useState<string | null>(null)
   const [confirmDeleteId, setConfirmDeleteId] = useState<string | null>(null)
+  const [modules, setModules] = useState<AddonModule[] | null>(null)
+  const [repoProgress, setRepoProgress] = useState<{ repoId: string; message: string } | null>(null)
+  const [watch, setWatch] = useState<AddonWatchSettings>(
+    instance.addonWatch || { enabled: false, updateModules: false }
+  )
 
   // Load repos on mount
   useEffect(() => {
     window.api.addons.list(instance.id).then(setRepos).catch(() => {})
   }, [instance.id])
 
+  const loadModules = useCallback(() => {
+    window.api.addons.listModules(instance.id)
+      .then(setModules)
+      .catch((err) => {
+        setModules([])
+        setError(err instanceof Error ? err.message : 'Failed to scan modules')
+      })
+  }, [instance.id])
+
+  useEffect(() => {
+    loadModules()
+  }, [loadModules])
+
+  const handleWatchChange = async (settings: AddonWatchSettings): Promise<void> => {
+    const previous = watch
+    setWatch(settings)
+    try {
+      await window.api.odoo.setAddonWatch(instance.id, settings)
+    } catch (err) {
+      setWatch(previous)
+      setError(err instanceof Error ? err.message : 'Failed to change auto-reload')
+    }
+  }
+
   // Listen for clone progress
   useEffect(() => {
     const unsub = window.api.on.addonsCloneProgress((data) => {
-      if (data.instanceId === instance.id) {
+      if (data.instanceId !== instance.id) return
+      if (data.repoId) {
+        // Python requirements reinstalled after a pull or branch switch
+        setRepoProgress({ repoId: data.repoId, message: data.message })
+      } else {
         setCloneProgress({ message: data.message, percent: data.percent })
       }
     })
@@ -1025,6 +2186,7 @@ function AddonsTab({ instance }: { instance: OdooInstance }) {
     try {
       const repo = await window.api.addons.add(instance.id, url, branch)
       setRepos((prev) => [...prev.filter((r) => r.id !== repo.id), repo])
+      loadModules()
       setRepoUrl('')
       setRepoBranch('')
       setShowAddForm(false)
@@ -1041,6 +2203,7 @@ function AddonsTab({ instance }: { instance: OdooInstance }) {
       await window.api.addons.remove(instance.id, repoId)
       setRepos((prev) => prev.filter((r) => r.id !== repoId))
       setConfirmDeleteId(null)
+      loadModules()
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to remove repository')
     }
@@ -1050,10 +2213,14 @@ function AddonsTab({ instance }: { instance: OdooInstance }) {
     setPullingId(repoId)
     try {
       await window.api.addons.pull(instance.id, repoId)
+      loadModules()
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to pull repository')
     } finally {
       setPullingId(null)
+      setRepoProgress(null)
+      // Pick up Python requirement errors recorded on the repo
+      window.api.addons.list(instance.id).then(setRepos).catch(() => {})
     }
   }
 
@@ -1078,6 +2245,21 @@ function AddonsTab({ instance }: { instance: OdooInstance }) {
         )}
       </div>
 
+      {/* Auto-reload */}
+      <div className="flex items-center gap-6 px-4 py-2.5 border rounded-lg bg-muted/20">
+        <ToggleSwitch
+          checked={watch.enabled}
+          onChange={(enabled) => handleWatchChange({ ...watch, enabled })}
+          label="Restart on Python file changes"
+        />
+        <ToggleSwitch
+          checked={watch.updateModules}
+          disabled={!watch.enabled}
+          onChange={(updateModules) => handleWatchChange({ ...watch, updateModules })}
+          label="Upgrade modules when XML/CSV data changes"
+        />
+      </div>
+
       {/* Error banner */}
       {error && (
         <div className="flex items-center gap-2 px-3 py-2 rounded-md bg-destructive/10 border border-destructive/30 text-sm text-destructive">
@@ -1172,6 +2354,13 @@ function AddonsTab({ instance }: { instance: OdooInstance }) {
         </div>
       )}
 
+      <CoreModulesCard
+        instanceId={instance.id}
+        modules={modules && modules.filter((m) => m.source !== 'repo')}
+        onChanged={loadModules}
+        onError={setError}
+      />
+
       {/* Repos list */}
       {repos.length > 0 ? (
         <div className="space-y-2">
@@ -1189,8 +2378,14 @@ function AddonsTab({ instance }: { instance: OdooInstance }) {
                 setRepos((prev) => prev.map((r) =>
                   r.id === repoId ? { ...r, branch: newBranch } : r
                 ))
+                setRepoProgress(null)
+                window.api.addons.list(instance.id).then(setRepos).catch(() => {})
+                loadModules()
               }}
               onError={setError}
+              modules={modules && modules.filter((m) => m.repoId === repo.id)}
+              onModulesChanged={loadModules}
+              progressMessage={repoProgress?.repoId === repo.id ? repoProgress.message : null}
             />
           ))}
         </div>
@@ -1216,7 +2411,10 @@ function AddonRepoCard({
   onRemove,
   onConfirmDelete,
   onBranchChanged,
-  onError
+  onError,
+  modules,
+  onModulesChanged,
+  progressMessage
 }: {
   repo: AddonRepo
   instanceId: string
@@ -1227,11 +2425,15 @@ function AddonRepoCard({
   onConfirmDelete: (repoId: string | null) => void
   onBranchChanged: (repoId: string, newBranch: string) => void
   onError: (msg: string) => void
+  modules: AddonModule[] | null
+  onModulesChanged: () => void
+  progressMessage: string | null
 }) {
   const [showBranchPicker, setShowBranchPicker] = useState(false)
   const [branches, setBranches] = useState<{ local: string[]; remote: string[]; current: string } | null>(null)
   const [loadingBranches, setLoadingBranches] = useState(false)
   const [switchingBranch, setSwitchingBranch] = useState(false)
+  const [showModules, setShowModules] = useState(false)
   const pickerRef = useRef<HTMLDivElement>(null)
 
   // Close picker on outside click
@@ -1407,9 +2609,23 @@ function AddonRepoCard({
           <p className="text-xs text-muted-foreground mt-0.5">
             Added {formatAddonDate(repo.addedAt)}
           </p>
-          {repo.error && (
+          {progressMessage ? (
+            <p className="flex items-center gap-1 text-xs text-muted-foreground mt-1 truncate">
+              <Loader2 size={10} className="animate-spin shrink-0" />
+              {progressMessage}
+            </p>
+          ) : repo.error && (
             <p className="text-xs text-destructive mt-1">{repo.error}</p>
           )}
+          {repo.status === 'ready' && (
+            <button
+              onClick={() => setShowModules(!showModules)}
+              className="flex items-center gap-1 mt-1.5 text-xs text-muted-foreground hover:text-foreground transition-colors"
+            >
+              {showModules ? <ChevronDown size={11} /> : <ChevronRight size={11} />}
+              Modules
+            </button>
+          )}
         </div>
         {repo.status === 'ready' && (
           <div className="flex items-center gap-1.5 shrink-0">
@@ -1452,10 +2668,281 @@ function AddonRepoCard({
           </div>
         )}
       </div>
+      {showModules && (
+        <div className="mt-3 border-t pt-3">
+          <ModuleList
+            instanceId={instanceId}
+            modules={modules}
+            onChanged={onModulesChanged}
+            onError={onError}
+          />
+        </div>
+      )}
+    </div>
+  )
+}
+
+const moduleOperationLabels: Record<ModuleOperation, string> = {
+  install: 'Install',
+  upgrade: 'Upgrade',
+  uninstall: 'Uninstall'
+}
+
+function CoreModulesCard({
+  instanceId,
+  modules,
+  onChanged,
+  onError
+}: {
+  instanceId: string
+  modules: AddonModule[] | null
+  onChanged: () => void
+  onError: (msg: string) => void
+}) {
+  const [expanded, setExpanded] = useState(false)
+  const [search, setSearch] = useState('')
+
+  const installedCount = modules?.filter((m) => m.state === 'installed').length ?? 0
+  const query = search.trim().toLowerCase()
+  const filtered = (modules || []).filter(
+    (m) => !query || m.name.includes(query) || m.displayName.toLowerCase().includes(query)
+  )
+
+  return (
+    <div className="border rounded-lg p-3">
+      <button
+        onClick={() => setExpanded(!expanded)}
+        className="flex items-center gap-2 w-full text-left"
+      >
+        {expanded ? <ChevronDown size={14} /> : <ChevronRight size={14} />}
+        <Package size={14} className="text-muted-foreground shrink-0" />
+        <span className="text-sm font-medium flex-1">Odoo & Enterprise modules</span>
+        <span className="text-xs text-muted-foreground">
+          {modules === null ? 'Scanning...' : `${installedCount} installed / ${modules.length}`}
+        </span>
+      </button>
+      {expanded && (
+        <div className="mt-3 space-y-2">
+          <input
+            type="text"
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            placeholder="Filter modules..."
+            className="w-full h-8 rounded-md border border-input bg-transparent px-2 text-xs focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring"
+          />
+          <ModuleList
+            instanceId={instanceId}
+            modules={modules && filtered.slice(0, 200)}
+            onChanged={onChanged}
+            onError={onError}
+          />
+          {filtered.length > 200 && (
+            <p className="text-xs text-muted-foreground">
+              Showing 200 of {filtered.length} modules, refine the filter to see more.
+            </p>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
+
+function ModuleList({
+  instanceId,
+  modules,
+  onChanged,
+  onError
+}: {
+  instanceId: string
+  /** null while the modules are being scanned */
+  modules: AddonModule[] | null
+  onChanged: () => void
+  onError: (msg: string) => void
+}) {
+  const [running, setRunning] = useState<{ operation: ModuleOperation; modules: string[] } | null>(null)
+  const [progress, setProgress] = useState({ message: '', percent: 0 })
+  const [lastResult, setLastResult] = useState<string | null>(null)
+
+  useEffect(() => {
+    const unsub = window.api.on.odooModulesProgress((data) => {
+      if (data.instanceId === instanceId) {
+        setProgress({ message: data.message, percent: data.percent })
+      }
+    })
+    return unsub
+  }, [instanceId])
+
+  const runOperation = async (operation: ModuleOperation, names: string[]): Promise<void> => {
+    if (operation === 'uninstall') {
+      const confirmed = window.confirm(`Uninstall ${names.join(', ')}? Their data will be removed from the database.`)
+      if (!confirmed) return
+    }
+    setRunning({ operation, modules: names })
+    setLastResult(null)
+    setProgress({ message: 'Starting...', percent: 0 })
+    try {
+      await window.api.odoo.runModules(instanceId, operation, names)
+      setLastResult(`${moduleOperationLabels[operation]} of ${names.join(', ')} finished`)
+    } catch (err) {
+      onError(err instanceof Error ? err.message : `${moduleOperationLabels[operation]} failed`)
+    } finally {
+      setRunning(null)
+      onChanged()
+    }
+  }
+
+  if (modules === null) {
+    return (
+      <div className="flex items-center gap-2 text-xs text-muted-foreground">
+        <Loader2 size={12} className="animate-spin" />
+        Scanning modules...
+      </div>
+    )
+  }
+
+  const installed = modules.filter((m) => m.state === 'installed').map((m) => m.name)
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <span className="text-xs text-muted-foreground">
+          {modules.length} module{modules.length !== 1 && 's'} &middot; {installed.length} installed
+        </span>
+        {installed.length > 1 && (
+          <button
+            onClick={() => runOperation('upgrade', installed)}
+            disabled={running !== null}
+            title="odoo-bin -u with every installed module of this list"
+            className="flex items-center gap-1 px-2 py-1 rounded-md text-xs font-medium border hover:bg-accent transition-colors disabled:opacity-50"
+          >
+            <ArrowUpCircle size={11} />
+            Upgrade installed
+          </button>
+        )}
+      </div>
+
+      {running !== null ? (
+        <div className="space-y-1.5">
+          <div className="h-1 rounded-full bg-muted overflow-hidden">
+            <div
+              className="h-full bg-primary transition-all duration-300"
+              style={{ width: `${progress.percent}%` }}
+            />
+          </div>
+          <p className="text-xs text-muted-foreground truncate">{progress.message}</p>
+        </div>
+      ) : lastResult ? (
+        <p className="text-xs text-green-600">{lastResult}</p>
+      ) : null}
+
+      <div className="divide-y divide-border/50">
+        {modules.map((module) => {
+          const isInstalled = module.state === 'installed'
+          const operations: ModuleOperation[] = isInstalled ? ['upgrade', 'uninstall'] : ['install']
+          return (
+            <div key={module.path} className="flex items-start justify-between gap-3 py-1.5">
+              <div className="min-w-0">
+                <div className="flex items-center gap-1.5 flex-wrap">
+                  <span className="text-xs font-medium truncate">{module.displayName}</span>
+                  <span className="font-mono text-[11px] text-muted-foreground">{module.name}</span>
+                  <span className="text-[10px] text-muted-foreground">
+                    {module.installedVersion || module.version} &middot; {module.license}
+                  </span>
+                  {isInstalled && (
+                    <span className="text-[10px] px-1.5 py-0.5 rounded bg-green-500/10 text-green-500">
+                      Installed
+                    </span>
+                  )}
+                  {module.state && !isInstalled && module.state !== 'uninstalled' && (
+                    <span className="text-[10px] px-1.5 py-0.5 rounded bg-yellow-500/10 text-yellow-600">
+                      {module.state}
+                    </span>
+                  )}
+                  {!module.installable && (
+                    <span className="text-[10px] px-1.5 py-0.5 rounded bg-muted text-muted-foreground">
+                      Not installable
+                    </span>
+                  )}
+                </div>
+                {module.error ? (
+                  <p className="text-[11px] text-destructive truncate">Invalid manifest: {module.error}</p>
+                ) : module.depends.length > 0 && (
+                  <p className="text-[11px] text-muted-foreground truncate" title={module.depends.join(', ')}>
+                    Depends: {module.depends.join(', ')}
+                  </p>
+                )}
+              </div>
+              <div className="flex items-center gap-1 shrink-0">
+                {operations.map((operation) => (
+                  <button
+                    key={operation}
+                    onClick={() => runOperation(operation, [module.name])}
+                    disabled={running !== null || (operation === 'install' && !module.installable)}
+                    className={cn(
+                      'flex items-center gap-1 px-1.5 py-0.5 rounded text-[11px] font-medium border transition-colors disabled:opacity-50',
+                      operation === 'uninstall'
+                        ? 'text-destructive border-destructive/30 hover:bg-destructive/10'
+                        : 'hover:bg-accent'
+                    )}
+                  >
+                    {running?.operation === operation && running.modules.includes(module.name) && (
+                      <Loader2 size={10} className="animate-spin" />
+                    )}
+                    {moduleOperationLabels[operation]}
+                  </button>
+                ))}
+              </div>
+            </div>
+          )
+        })}
+        {modules.length === 0 && (
+          <p className="py-2 text-xs text-muted-foreground">
+            No modules (folders with a __manifest__.py) found.
+          </p>
+        )}
+      </div>
     </div>
   )
 }
 
+function ToggleSwitch({
+  checked,
+  onChange,
+  label,
+  disabled
+}: {
+  checked: boolean
+  onChange: (checked: boolean) => void
+  label: string
+  disabled?: boolean
+}) {
+  return (
+    <label
+      className={cn(
+        'flex items-center gap-2 text-xs text-muted-foreground select-none',
+        disabled ? 'opacity-50' : 'cursor-pointer'
+      )}
+    >
+      <button
+        onClick={() => onChange(!checked)}
+        disabled={disabled}
+        className={cn(
+          'w-8 h-4 rounded-full relative transition-colors',
+          checked ? 'bg-primary' : 'bg-muted-foreground/30'
+        )}
+      >
+        <span
+          className={cn(
+            'absolute top-0.5 w-3 h-3 rounded-full bg-white transition-all',
+            checked ? 'left-[18px]' : 'left-0.5'
+          )}
+        />
+      </button>
+      {label}
+    </label>
+  )
+}
+
 function formatAddonDate(dateStr: string): string {
   const now = Date.now()
   const then = new Date(dateStr).getTime()
@@ -1473,6 +2960,58 @@ function formatAddonDate(dateStr: string): string {
 
 /* --- Helper Components --- */
 
+function ResourcesSection({ instanceId }: { instanceId: string }) {
+  const samples = useResourceSamples([instanceId])[instanceId] || []
+  const latest = samples[samples.length - 1]
+
+  return (
+    <OverviewSection title="Resources">
+      {latest ? (
+        <>
+          <ResourceRow
+            label="CPU"
+            value={`${latest.cpuPercent.toFixed(1)} %`}
+            values={samples.map((s) => s.cpuPercent)}
+            max={100}
+          />
+          <ResourceRow
+            label="Memory"
+            value={`${formatBytes(latest.rssBytes)} in ${latest.processes} process${latest.processes > 1 ? 'es' : ''}`}
+            values={samples.map((s) => s.rssBytes)}
+          />
+          <ResourceRow
+            label="Connections"
+            value={String(latest.connections)}
+            values={samples.map((s) => s.connections)}
+          />
+        </>
+      ) : (
+        <div className="px-4 py-2 text-sm text-muted-foreground">Collecting samples...</div>
+      )}
+    </OverviewSection>
+  )
+}
+
+function ResourceRow({
+  label,
+  value,
+  values,
+  max
+}: {
+  label: string
+  value: string
+  values: number[]
+  max?: number
+}) {
+  return (
+    <div className="grid grid-cols-[140px_1fr_auto] gap-4 px-4 py-2 text-sm items-center">
+      <span className="text-muted-foreground shrink-0">{label}</span>
+      <span className="font-mono text-xs">{value}</span>
+      <Sparkline values={values} max={max} className="text-primary" />
+    </div>
+  )
+}
+
 function OverviewSection({
   title,
   children
@@ -0,0 +1,350 @@
+import { useState, useEffect } from 'react'
+import {
+  Plus,
+  Trash2,
+  Save,
+  RotateCcw,
+  Loader2,
+  AlertTriangle,
+  ChevronDown,
+  ChevronRight,
+  Rocket
+} from 'lucide-react'
+import { cn } from '@/lib/utils'
+import type { LaunchProfile, OdooInstance, OdooLogLevel } from '@shared/types/odoo'
+
+const DEV_MODES = ['reload', 'qweb', 'xml', 'werkzeug', 'access', 'all']
+
+const LOG_LEVELS: OdooLogLevel[] = [
+  'info',
+  'debug',
+  'debug_sql',
+  'debug_rpc',
+  'debug_rpc_answer',
+  'warn',
+  'error',
+  'critical',
+  'notset'
+]
+
+/** Form state of a profile: list and number fields are edited as text */
+interface ProfileDraft {
+  id: string
+  name: string
+  devModes: string[]
+  logLevel: OdooLogLevel | ''
+  /** One handler per line */
+  logHandlers: string
+  workers: string
+  extraArgs: string
+  /** KEY=value, one per line */
+  env: string
+}
+
+function toDraft(profile: LaunchProfile): ProfileDraft {
+  return {
+    id: profile.id,
+    name: profile.name,
+    devModes: profile.devModes,
+    logLevel: profile.logLevel || '',
+    logHandlers: profile.logHandlers.join('\n'),
+    workers: profile.workers === undefined ? '' : String(profile.workers),
+    extraArgs: profile.extraArgs,
+    env: Object.entries(profile.env).map(([key, value]) => `${key}=${value}`).join('\n')
+  }
+}
+
+function fromDraft(draft: ProfileDraft): LaunchProfile {
+  const env: Record<string, string> = {}
+  for (const line of draft.env.split('\n')) {
+    const trimmed = line.trim()
+    if (!trimmed) continue
+    const eq = trimmed.indexOf('=')
+    if (eq === -1) env[trimmed] = ''
+    else env[trimmed.slice(0, eq).trim()] = trimmed.slice(eq + 1).trim()
+  }
+
+  return {
+    id: draft.id,
+    name: draft.name,
+    devModes: draft.devModes,
+    logLevel: draft.logLevel || undefined,
+    logHandlers: draft.logHandlers.split('\n').map((h) => h.trim()).filter(Boolean),
+    workers: draft.workers.trim() === '' ? undefined : Number(draft.workers),
+    extraArgs: draft.extraArgs.trim(),
+    env
+  }
+}
+
+export function LaunchProfilesSection({
+  instance,
+  onSaved
+}: {
+  instance: OdooInstance
+  onSaved: () => void
+}) {
+  const [drafts, setDrafts] = useState<ProfileDraft[]>([])
+  const [expanded, setExpanded] = useState<string | null>(null)
+  const [hasChanges, setHasChanges] = useState(false)
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  // Instance refreshes (status changes, ...) must not drop unsaved edits: compare by content
+  const savedProfiles = JSON.stringify(instance.launchProfiles || [])
+  useEffect(() => {
+    setDrafts((JSON.parse(savedProfiles) as LaunchProfile[]).map(toDraft))
+    setHasChanges(false)
+  }, [instance.id, savedProfiles])
+
+  const updateDraft = (id: string, changes: Partial<ProfileDraft>): void => {
+    setDrafts((prev) => prev.map((d) => (d.id === id ? { ...d, ...changes } : d)))
+    setHasChanges(true)
+  }
+
+  const toggleDevMode = (draft: ProfileDraft, mode: string): void => {
+    updateDraft(draft.id, {
+      devModes: draft.devModes.includes(mode)
+        ? draft.devModes.filter((m) => m !== mode)
+        : [...draft.devModes, mode]
+    })
+  }
+
+  const handleAdd = (): void => {
+    const draft: ProfileDraft = {
+      id: crypto.randomUUID(),
+      name: drafts.length === 0 ? 'Development' : `Profile ${drafts.length + 1}`,
+      devModes: drafts.length === 0 ? ['reload', 'qweb', 'xml'] : [],
+      logLevel: '',
+      logHandlers: '',
+      workers: '',
+      extraArgs: '',
+      env: ''
+    }
+    setDrafts((prev) => [...prev, draft])
+    setExpanded(draft.id)
+    setHasChanges(true)
+  }
+
+  const handleRemove = (id: string): void => {
+    setDrafts((prev) => prev.filter((d) => d.id !== id))
+    setHasChanges(true)
+  }
+
+  const handleSave = async (): Promise<void> => {
+    setSaving(true)
+    setError(null)
+    try {
+      await window.api.odoo.saveLaunchProfiles(
+        instance.id,
+        drafts.map(fromDraft),
+        instance.activeLaunchProfileId
+      )
+      setHasChanges(false)
+      onSaved()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save launch profiles')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleReset = (): void => {
+    setDrafts((instance.launchProfiles || []).map(toDraft))
+    setHasChanges(false)
+    setError(null)
+  }
+
+  return (
+    <div className="bg-card border rounded-xl overflow-hidden">
+      <div className="flex items-center justify-between px-5 py-3 border-b bg-muted/30">
+        <div className="flex items-center gap-3">
+          <h3 className="text-sm font-medium">Launch Profiles</h3>
+          <span className="text-xs text-muted-foreground">
+            Command line options added on top of the config file when starting
+          </span>
+        </div>
+        <button
+          onClick={handleAdd}
+          className="flex items-center gap-1.5 px-2.5 py-1 rounded-md text-xs font-medium border hover:bg-accent transition-colors"
+        >
+          <Plus size={12} />
+          Add profile
+        </button>
+      </div>
+
+      <div className="divide-y">
+        {drafts.map((draft) => {
+          const isExpanded = expanded === draft.id
+          return (
+            <div key={draft.id}>
+              <button
+                onClick={() => setExpanded(isExpanded ? null : draft.id)}
+                className="w-full flex items-center gap-2 px-5 py-2.5 text-left hover:bg-muted/20 transition-colors"
+              >
+                {isExpanded ? <ChevronDown size={14} /> : <ChevronRight size={14} />}
+                <Rocket size={14} className="text-muted-foreground" />
+                <span className="text-sm font-medium">{draft.name || 'Untitled'}</span>
+                {instance.activeLaunchProfileId === draft.id && (
+                  <span className="text-[11px] px-1.5 py-0.5 rounded bg-primary/10 text-primary">Active</span>
+                )}
+                <span className="ml-auto text-xs text-muted-foreground font-mono truncate max-w-[50%]">
+                  {summarize(draft)}
+                </span>
+              </button>
+
+              {isExpanded && (
+                <div className="px-5 pb-4 pt-1 space-y-3">
+                  <div className="grid grid-cols-3 gap-3">
+                    <div className="space-y-1">
+                      <label className="text-xs font-medium">Name</label>
+                      <input
+                        value={draft.name}
+                        onChange={(e) => updateDraft(draft.id, { name: e.target.value })}
+                        className="w-full px-3 py-1.5 rounded-md border bg-background text-sm"
+                      />
+                    </div>
+                    <div className="space-y-1">
+                      <label className="text-xs font-medium">Log level</label>
+                      <select
+                        value={draft.logLevel}
+                        onChange={(e) => updateDraft(draft.id, { logLevel: e.target.value as OdooLogLevel | '' })}
+                        className="w-full px-3 py-1.5 rounded-md border bg-background text-sm"
+                      >
+                        <option value="">From config file</option>
+                        {LOG_LEVELS.map((level) => (
+                          <option key={level} value={level}>{level}</option>
+                        ))}
+                      </select>
+                    </div>
+                    <div className="space-y-1">
+                      <label className="text-xs font-medium">Workers</label>
+                      <input
+                        type="number"
+                        min={0}
+                        value={draft.workers}
+                        onChange={(e) => updateDraft(draft.id, { workers: e.target.value })}
+                        placeholder="From config file"
+                        className="w-full px-3 py-1.5 rounded-md border bg-background text-sm font-mono"
+                      />
+                    </div>
+                  </div>
+
+                  <div className="space-y-1">
+                    <label className="text-xs font-medium">Developer mode (--dev)</label>
+                    <div className="flex flex-wrap gap-1">
+                      {DEV_MODES.map((mode) => (
+                        <button
+                          key={mode}
+                          onClick={() => toggleDevMode(draft, mode)}
+                          className={cn(
+                            'px-2 py-0.5 rounded-md text-[11px] font-mono border transition-colors',
+                            draft.devModes.includes(mode)
+                              ? 'bg-primary text-primary-foreground border-primary'
+                              : 'hover:bg-accent'
+                          )}
+                        >
+                          {mode}
+                        </button>
+                      ))}
+                    </div>
+                  </div>
+
+                  <div className="grid grid-cols-2 gap-3">
+                    <div className="space-y-1">
+                      <label className="text-xs font-medium">Log handlers (one per line)</label>
+                      <textarea
+                        value={draft.logHandlers}
+                        onChange={(e) => updateDraft(draft.id, { logHandlers: e.target.value })}
+                        placeholder="odoo.addons.sale:DEBUG"
+                        rows={3}
+                        className="w-full px-3 py-1.5 rounded-md border bg-background text-sm font-mono resize-y"
+                      />
+                    </div>
+                    <div className="space-y-1">
+                      <label className="text-xs font-medium">Environment variables (KEY=value)</label>
+                      <textarea
+                        value={draft.env}
+                        onChange={(e) => updateDraft(draft.id, { env: e.target.value })}
+                        placeholder="ODOO_LOG_SQL=1"
+                        rows={3}
+                        className="w-full px-3 py-1.5 rounded-md border bg-background text-sm font-mono resize-y"
+                      />
+                    </div>
+                  </div>
+
+                  <div className="space-y-1">
+                    <label className="text-xs font-medium">Extra arguments</label>
+                    <input
+                      value={draft.extraArgs}
+                      onChange={(e) => updateDraft(draft.id, { extraArgs: e.target.value })}
+                      placeholder="--limit-time-real=0 --without-demo=all"
+                      className="w-full px-3 py-1.5 rounded-md border bg-background text-sm font-mono"
+                    />
+                  </div>
+
+                  <div className="flex justify-end">
+                    <button
+                      onClick={() => handleRemove(draft.id)}
+                      className="flex items-center gap-1.5 px-2.5 py-1 rounded-md text-xs font-medium text-destructive border border-destructive/30 hover:bg-destructive/10 transition-colors"
+                    >
+                      <Trash2 size={12} />
+                      Remove profile
+                    </button>
+                  </div>
+                </div>
+              )}
+            </div>
+          )
+        })}
+
+        {drafts.length === 0 && (
+          <div className="px-5 py-6 text-center text-sm text-muted-foreground">
+            No launch profiles. The server starts with the config file only.
+          </div>
+        )}
+      </div>
+
+      {(hasChanges || error) && (
+        <div className="flex items-center justify-between px-5 py-3 border-t bg-muted/20">
+          <div className="flex items-center gap-1.5 text-xs text-destructive">
+            {error && (
+              <>
+                <AlertTriangle size={12} />
+                {error}
+              </>
+            )}
+          </div>
+          <div className="flex items-center gap-2">
+            <button
+              onClick={handleReset}
+              className="flex items-center gap-1.5 px-3 py-1.5 rounded-md text-xs font-medium border hover:bg-accent transition-colors"
+            >
+              <RotateCcw size={12} />
+              Discard changes
+            </button>
+            <button
+              onClick={handleSave}
+              disabled={saving || !hasChanges}
+              className="flex items-center gap-1.5 px-3 py-1.5 rounded-md text-xs font-medium bg-primary text-primary-foreground hover:bg-primary/90 transition-colors disabled:opacity-50"
+            >
+              {saving ? <Loader2 size={12} className="animate-spin" /> : <Save size={12} />}
+              Save profiles
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
+
+/** Command line preview shown on collapsed profiles */
+function summarize(draft: ProfileDraft): string {
+  const profile = fromDraft(draft)
+  return [
+    profile.devModes.length > 0 ? `--dev=${profile.devModes.join(',')}` : null,
+    profile.logLevel ? `--log-level=${profile.logLevel}` : null,
+    ...profile.logHandlers.map((h) => `--log-handler=${h}`),
+    profile.workers !== undefined ? `--workers=${profile.workers}` : null,
+    profile.extraArgs || null
+  ].filter(Boolean).join(' ')
+}
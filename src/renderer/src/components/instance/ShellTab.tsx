@@ -5,19 +5,29 @@ import { TerminalSquare, RotateCw, Square, Loader2 } from 'lucide-react'
 import { cn } from '@/lib/utils'
 import '@xterm/xterm/css/xterm.css'
 
-export function ShellTab({ instanceId }: { instanceId: string }) {
+export function ShellTab({
+  instanceId,
+  databases,
+  activeDb
+}: {
+  instanceId: string
+  databases: string[]
+  activeDb: string
+}) {
   const terminalRef = useRef<HTMLDivElement>(null)
   const termRef = useRef<Terminal | null>(null)
   const fitAddonRef = useRef<FitAddon | null>(null)
   const [status, setStatus] = useState<'idle' | 'starting' | 'running' | 'exited'>('idle')
   const [error, setError] = useState<string | null>(null)
   const startedRef = useRef(false)
+  const [dbName, setDbName] = useState(activeDb)
+  const dbNameRef = useRef(activeDb)
 
   const startShell = useCallback(async () => {
     setStatus('starting')
     setError(null)
     try {
-      await window.api.odoo.shellStart(instanceId)
+      await window.api.odoo.shellStart(instanceId, dbNameRef.current)
       setStatus('running')
     } catch (err) {
       setStatus('exited')
@@ -39,6 +49,12 @@ export function ShellTab({ instanceId }: { instanceId: string }) {
     await startShell()
   }, [stopShell, startShell])
 
+  const switchDatabase = async (value: string): Promise<void> => {
+    setDbName(value)
+    dbNameRef.current = value
+    await restartShell()
+  }
+
   useEffect(() => {
     if (!terminalRef.current) return
 
@@ -121,7 +137,7 @@ export function ShellTab({ instanceId }: { instanceId: string }) {
       startedRef.current = true
       setStatus('starting')
       setError(null)
-      window.api.odoo.shellStart(instanceId).then(() => {
+      window.api.odoo.shellStart(instanceId, dbNameRef.current).then(() => {
         setStatus('running')
       }).catch((err) => {
         setStatus('exited')
@@ -161,6 +177,21 @@ export function ShellTab({ instanceId }: { instanceId: string }) {
             {status === 'exited' && 'Disconnected'}
             {status === 'idle' && 'Idle'}
           </span>
+          {databases.length > 1 && (
+            <select
+              value={dbName}
+              onChange={(e) => switchDatabase(e.target.value)}
+              disabled={status === 'starting'}
+              title="Database used by the shell"
+              className="h-6 rounded border border-input bg-transparent px-1.5 text-xs font-mono focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring"
+            >
+              {databases.map((db) => (
+                <option key={db} value={db}>
+                  {db}{db === activeDb ? ' (active)' : ''}
+                </option>
+              ))}
+            </select>
+          )}
         </div>
         <div className="flex items-center gap-1.5">
           {status === 'running' && (
@@ -0,0 +1,240 @@
+import { useState, useEffect, useCallback } from 'react'
+import { RefreshCw, Loader2, AlertCircle, GitCommit, ArrowUpCircle, Pin, PinOff } from 'lucide-react'
+import type { OdooInstance, SourceState, SourceTree, SourceUpdate } from '@shared/types/odoo'
+
+const SOURCE_LABELS: Record<SourceTree, string> = {
+  odoo: 'Odoo',
+  enterprise: 'Enterprise'
+}
+
+export function SourcesSection({
+  instance,
+  onChanged
+}: {
+  instance: OdooInstance
+  onChanged: () => void
+}) {
+  const [sources, setSources] = useState<SourceState[]>([])
+  const [reinstall, setReinstall] = useState(false)
+  const [updating, setUpdating] = useState(false)
+  const [progress, setProgress] = useState('')
+  const [updates, setUpdates] = useState<SourceUpdate[] | null>(null)
+  const [upgrading, setUpgrading] = useState(false)
+  const [revision, setRevision] = useState('')
+  const [pinning, setPinning] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const fetchSources = useCallback(async () => {
+    try {
+      setSources(await window.api.odoo.sources(instance.id))
+    } catch {
+      setSources([])
+    }
+  }, [instance.id])
+
+  useEffect(() => {
+    fetchSources()
+  }, [fetchSources])
+
+  useEffect(() => {
+    const unsub = window.api.on.odooUpdateSourcesProgress((data) => {
+      if (data.instanceId === instance.id) setProgress(data.message)
+    })
+    return unsub
+  }, [instance.id])
+
+  const handleUpdate = async (): Promise<void> => {
+    setUpdating(true)
+    setUpdates(null)
+    setError(null)
+    setProgress('Fetching...')
+    try {
+      setUpdates(await window.api.odoo.updateSources(instance.id, reinstall))
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update sources')
+    } finally {
+      setUpdating(false)
+      setProgress('')
+      fetchSources()
+    }
+  }
+
+  const handlePin = async (value: string | null): Promise<void> => {
+    setPinning(true)
+    setUpdates(null)
+    setError(null)
+    setProgress(value ? `Looking for ${value}...` : '')
+    try {
+      await window.api.odoo.pinRevision(instance.id, value)
+      setRevision('')
+      onChanged()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to pin the sources')
+    } finally {
+      setPinning(false)
+      setProgress('')
+      fetchSources()
+    }
+  }
+
+  const handleUpgradeAll = async (): Promise<void> => {
+    const confirmed = window.confirm(
+      `Upgrade all modules of ${instance.dbName}? The server is stopped during the upgrade.`
+    )
+    if (!confirmed) return
+
+    setUpgrading(true)
+    setError(null)
+    try {
+      await window.api.odoo.runModules(instance.id, 'upgrade', ['all'])
+      setUpdates(null)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to upgrade modules')
+    } finally {
+      setUpgrading(false)
+    }
+  }
+
+  const changed = updates?.some((u) => u.commits > 0)
+  const pinned = instance.pinnedRevision
+  const busy = updating || pinning || upgrading
+
+  return (
+    <div className="border rounded-xl overflow-hidden">
+      <div className="flex items-center justify-between px-4 py-2 bg-muted/30">
+        <h3 className="text-xs font-semibold uppercase tracking-wide text-muted-foreground">Sources</h3>
+        <div className="flex items-center gap-3 text-xs">
+          <label className="flex items-center gap-1.5 text-muted-foreground cursor-pointer">
+            <input
+              type="checkbox"
+              checked={reinstall}
+              onChange={(e) => setReinstall(e.target.checked)}
+              disabled={busy || !!pinned}
+            />
+            Reinstall requirements
+          </label>
+          <button
+            onClick={handleUpdate}
+            disabled={busy || !!pinned}
+            title={pinned ? 'Unpin the sources to follow the branch' : undefined}
+            className="flex items-center gap-1.5 px-2.5 py-1 rounded-md font-medium border hover:bg-accent transition-colors disabled:opacity-50"
+          >
+            {updating ? <Loader2 size={12} className="animate-spin" /> : <RefreshCw size={12} />}
+            Update sources
+          </button>
+        </div>
+      </div>
+
+      <div className="divide-y divide-border/50">
+        {sources.map((state) => (
+          <div key={state.source} className="grid grid-cols-[140px_1fr] gap-4 px-4 py-2 text-sm items-baseline">
+            <span className="text-muted-foreground">{SOURCE_LABELS[state.source]}</span>
+            {state.commit ? (
+              <span className="flex items-baseline gap-2 min-w-0">
+                <span className="font-mono text-xs shrink-0">{state.commit.hash.slice(0, 10)}</span>
+                <span className="text-xs text-muted-foreground shrink-0">
+                  {state.branch || 'detached'} &middot; {new Date(state.commit.date).toLocaleDateString()}
+                </span>
+                <span className="text-xs truncate" title={state.commit.subject}>{state.commit.subject}</span>
+              </span>
+            ) : (
+              <span className="text-xs text-muted-foreground">Not a git checkout</span>
+            )}
+          </div>
+        ))}
+      </div>
+
+      <div className="flex items-center gap-2 px-4 py-2 border-t text-xs">
+        {pinned ? (
+          <>
+            <Pin size={12} className="text-primary shrink-0" />
+            <span className="flex-1 min-w-0 truncate">
+              Pinned to <span className="font-mono">{pinned.revision}</span>
+              <span className="text-muted-foreground">
+                {' '}&middot; since {new Date(pinned.pinnedAt).toLocaleDateString()}
+              </span>
+            </span>
+            <button
+              onClick={() => handlePin(null)}
+              disabled={busy}
+              className="flex items-center gap-1.5 px-2.5 py-1 rounded-md font-medium border hover:bg-accent transition-colors disabled:opacity-50 shrink-0"
+            >
+              <PinOff size={12} />
+              Unpin
+            </button>
+          </>
+        ) : (
+          <>
+            <input
+              value={revision}
+              onChange={(e) => setRevision(e.target.value)}
+              placeholder="Commit SHA, tag or date (YYYY-MM-DD)"
+              className="flex-1 h-7 rounded-md border border-input bg-transparent px-2 text-xs font-mono"
+            />
+            <button
+              onClick={() => handlePin(revision.trim())}
+              disabled={busy || !revision.trim() || instance.status === 'running'}
+              title={instance.status === 'running' ? 'Stop the server first' : undefined}
+              className="flex items-center gap-1.5 px-2.5 py-1 rounded-md font-medium border hover:bg-accent transition-colors disabled:opacity-50 shrink-0"
+            >
+              {pinning ? <Loader2 size={12} className="animate-spin" /> : <Pin size={12} />}
+              Pin revision
+            </button>
+          </>
+        )}
+      </div>
+
+      {(updating || pinning) && progress && (
+        <div className="flex items-center gap-2 px-4 py-2 border-t text-xs text-muted-foreground">
+          <Loader2 size={12} className="animate-spin shrink-0" />
+          <span className="truncate">{progress}</span>
+        </div>
+      )}
+
+      {updates && (
+        <div className="px-4 py-2 border-t space-y-1.5 bg-muted/10">
+          {updates.map((update) => (
+            <div key={update.source} className="flex items-center gap-2 text-xs">
+              <GitCommit size={12} className="text-muted-foreground shrink-0" />
+              <span className="font-medium">{SOURCE_LABELS[update.source]} {update.branch}</span>
+              {update.commits > 0 ? (
+                <span className="font-mono text-muted-foreground">
+                  {update.from.slice(0, 10)}..{update.to.slice(0, 10)} ({update.commits} commit{update.commits > 1 ? 's' : ''})
+                </span>
+              ) : (
+                <span className="text-muted-foreground">already up to date</span>
+              )}
+            </div>
+          ))}
+          {changed && (
+            <div className="flex items-center justify-between gap-2 pt-1">
+              <span className="text-xs text-muted-foreground">
+                {instance.status === 'running'
+                  ? 'The server still runs the previous code until it is restarted.'
+                  : 'Upgrading the modules applies data and schema changes of the new code.'}
+              </span>
+              <button
+                onClick={handleUpgradeAll}
+                disabled={upgrading}
+                className="flex items-center gap-1.5 px-2.5 py-1 rounded-md text-xs font-medium bg-primary text-primary-foreground hover:bg-primary/90 transition-colors disabled:opacity-50 shrink-0"
+              >
+                {upgrading ? <Loader2 size={12} className="animate-spin" /> : <ArrowUpCircle size={12} />}
+                Upgrade all modules (-u all)
+              </button>
+            </div>
+          )}
+        </div>
+      )}
+
+      {error && (
+        <div className="flex items-center gap-2 px-4 py-2 bg-destructive/10 text-xs text-destructive">
+          <AlertCircle size={12} className="shrink-0" />
+          <span className="flex-1">{error}</span>
+          <button onClick={() => setError(null)} className="hover:underline shrink-0">
+            Dismiss
+          </button>
+        </div>
+      )}
+    </div>
+  )
+}
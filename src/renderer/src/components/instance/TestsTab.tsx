@@ -0,0 +1,535 @@
+import { useState, useEffect, useMemo } from 'react'
+import {
+  Loader2,
+  Play,
+  Square,
+  AlertCircle,
+  CheckCircle2,
+  XCircle,
+  MinusCircle,
+  ChevronDown,
+  ChevronRight,
+  Trash2,
+  FlaskConical,
+  Bot,
+  Wrench
+} from 'lucide-react'
+import { cn } from '@/lib/utils'
+import { TracebackView } from './TracebackView'
+import type { AddonModule } from '@shared/types/addon'
+import type {
+  FixLoopState,
+  FixLoopStatus,
+  TestDatabaseMode,
+  TestOutcome,
+  TestResult,
+  TestRun,
+  TestRunStatus
+} from '@shared/types/test'
+
+const runStatusStyles: Record<TestRunStatus, string> = {
+  running: 'bg-blue-500/10 text-blue-600',
+  passed: 'bg-green-500/10 text-green-600',
+  failed: 'bg-destructive/10 text-destructive',
+  error: 'bg-destructive/10 text-destructive',
+  cancelled: 'bg-muted text-muted-foreground'
+}
+
+const outcomeOrder: Record<TestOutcome, number> = { error: 0, failed: 1, skipped: 2, passed: 3 }
+
+const fixLoopLabels: Record<FixLoopState, string> = {
+  'waiting-for-claude': 'Claude is fixing the failures',
+  'running-tests': 'Re-running the failed tests',
+  passed: 'Failed tests pass now',
+  failed: 'Tests still fail after the last attempt',
+  stopped: 'Fix loop stopped',
+  error: 'Fix loop failed'
+}
+
+export function TestsTab({
+  instanceId,
+  isRunning,
+  onSentToClaude
+}: {
+  instanceId: string
+  isRunning: boolean
+  onSentToClaude: () => void
+}) {
+  const [runs, setRuns] = useState<TestRun[]>([])
+  const [selectedRunId, setSelectedRunId] = useState<string | null>(null)
+  const [repoModules, setRepoModules] = useState<AddonModule[]>([])
+  const [modulesInput, setModulesInput] = useState('')
+  const [testTags, setTestTags] = useState('')
+  const [mode, setMode] = useState<TestDatabaseMode>('fresh')
+  const [starting, setStarting] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [fixLoop, setFixLoop] = useState<FixLoopStatus | null>(null)
+  const [maxAttempts, setMaxAttempts] = useState(3)
+
+  useEffect(() => {
+    window.api.tests.listRuns(instanceId).then((list) => {
+      setRuns(list)
+      setSelectedRunId((current) => current ?? list[0]?.id ?? null)
+    }).catch(() => {})
+
+    window.api.addons.listModules(instanceId).then((modules) => {
+      setRepoModules(modules.filter((m) => m.source === 'repo' && m.installable))
+    }).catch(() => {})
+
+    window.api.claude.fixLoopStatus(instanceId).then(setFixLoop).catch(() => {})
+
+    const unsubs = [
+      window.api.on.testRunUpdated((run) => {
+        if (run.instanceId !== instanceId) return
+        setRuns((prev) => {
+          const index = prev.findIndex((r) => r.id === run.id)
+          if (index === -1) return [run, ...prev]
+          const next = [...prev]
+          next[index] = run
+          return next
+        })
+      }),
+      window.api.on.claudeFixLoopUpdated((status) => {
+        if (status.instanceId !== instanceId) return
+        setFixLoop(status)
+        // Follow the re-runs of the loop
+        setSelectedRunId(status.runId)
+      })
+    ]
+    return () => unsubs.forEach((fn) => fn())
+  }, [instanceId])
+
+  const selectedModules = useMemo(
+    () => modulesInput.split(',').map((m) => m.trim()).filter(Boolean),
+    [modulesInput]
+  )
+  const activeRun = runs.find((r) => r.status === 'running')
+  const selectedRun = runs.find((r) => r.id === selectedRunId) || null
+
+  const toggleModule = (name: string): void => {
+    const next = selectedModules.includes(name)
+      ? selectedModules.filter((m) => m !== name)
+      : [...selectedModules, name]
+    setModulesInput(next.join(', '))
+  }
+
+  const handleRun = async (): Promise<void> => {
+    setStarting(true)
+    setError(null)
+    try {
+      const run = await window.api.tests.run(instanceId, {
+        modules: selectedModules,
+        testTags: testTags.trim() || undefined,
+        mode
+      })
+      setSelectedRunId(run.id)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to start the tests')
+    } finally {
+      setStarting(false)
+    }
+  }
+
+  const handleCancel = async (): Promise<void> => {
+    try {
+      await window.api.tests.cancel(instanceId)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to cancel the tests')
+    }
+  }
+
+  const handleSendToClaude = async (runId: string): Promise<void> => {
+    setError(null)
+    try {
+      await window.api.claude.sendTestFailures(instanceId, runId)
+      onSentToClaude()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to send the failures to Claude')
+    }
+  }
+
+  const handleStartFixLoop = async (runId: string): Promise<void> => {
+    setError(null)
+    try {
+      setFixLoop(await window.api.claude.startFixLoop(instanceId, runId, maxAttempts))
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to start the fix loop')
+    }
+  }
+
+  const handleDelete = async (runId: string): Promise<void> => {
+    try {
+      await window.api.tests.deleteRun(instanceId, runId)
+      setRuns((prev) => prev.filter((r) => r.id !== runId))
+      if (selectedRunId === runId) setSelectedRunId(null)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to delete the run')
+    }
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="border rounded-xl p-4 space-y-3">
+        <div>
+          <h3 className="text-sm font-semibold">Run tests</h3>
+          <p className="text-xs text-muted-foreground mt-0.5">
+            Tests run with --test-enable against a throw-away database, dropped afterwards
+          </p>
+        </div>
+
+        <div className="space-y-1">
+          <label className="text-xs font-medium">Modules</label>
+          <input
+            value={modulesInput}
+            onChange={(e) => setModulesInput(e.target.value)}
+            placeholder="sale_custom, stock_custom"
+            className="w-full px-3 py-1.5 rounded-md border bg-background text-sm font-mono"
+          />
+          {repoModules.length > 0 && (
+            <div className="flex flex-wrap gap-1 pt-1">
+              {repoModules.map((module) => (
+                <button
+                  key={module.path}
+                  onClick={() => toggleModule(module.name)}
+                  className={cn(
+                    'px-2 py-0.5 rounded-md text-[11px] font-mono border transition-colors',
+                    selectedModules.includes(module.name)
+                      ? 'bg-primary text-primary-foreground border-primary'
+                      : 'hover:bg-accent'
+                  )}
+                >
+                  {module.name}
+                </button>
+              ))}
+            </div>
+          )}
+        </div>
+
+        <div className="grid grid-cols-2 gap-3">
+          <div className="space-y-1">
+            <label className="text-xs font-medium">Test tags (optional)</label>
+            <input
+              value={testTags}
+              onChange={(e) => setTestTags(e.target.value)}
+              placeholder="/sale_custom:TestOrder, -slow"
+              className="w-full px-3 py-1.5 rounded-md border bg-background text-sm font-mono"
+            />
+          </div>
+          <div className="space-y-1">
+            <label className="text-xs font-medium">Database</label>
+            <select
+              value={mode}
+              onChange={(e) => setMode(e.target.value as TestDatabaseMode)}
+              className="w-full px-3 py-1.5 rounded-md border bg-background text-sm"
+            >
+              <option value="fresh">Fresh database (-i)</option>
+              <option value="copy">Copy of the active database (-u)</option>
+            </select>
+          </div>
+        </div>
+
+        {mode === 'copy' && isRunning && (
+          <p className="text-xs text-yellow-600">Stop the instance to copy its database.</p>
+        )}
+
+        <div className="flex items-center gap-2">
+          {activeRun ? (
+            <button
+              onClick={handleCancel}
+              className="flex items-center gap-1.5 px-3 py-1.5 rounded-md text-xs font-medium bg-red-600 text-white hover:bg-red-700 transition-colors"
+            >
+              <Square size={12} />
+              Cancel
+            </button>
+          ) : (
+            <button
+              onClick={handleRun}
+              disabled={starting || selectedModules.length === 0 || (mode === 'copy' && isRunning)}
+              className="flex items-center gap-1.5 px-3 py-1.5 rounded-md text-xs font-medium bg-primary text-primary-foreground hover:bg-primary/90 transition-colors disabled:opacity-50"
+            >
+              {starting ? <Loader2 size={12} className="animate-spin" /> : <Play size={12} />}
+              Run tests
+            </button>
+          )}
+          {activeRun?.currentTest && (
+            <span className="flex items-center gap-1.5 text-xs text-muted-foreground truncate">
+              <Loader2 size={12} className="animate-spin shrink-0" />
+              <span className="font-mono truncate">{activeRun.currentTest}</span>
+            </span>
+          )}
+        </div>
+
+        {fixLoop && (
+          <div
+            className={cn(
+              'flex items-center gap-2 px-3 py-2 rounded-md text-xs',
+              fixLoop.state === 'passed'
+                ? 'bg-green-500/10 text-green-600'
+                : fixLoop.state === 'failed' || fixLoop.state === 'error'
+                  ? 'bg-destructive/10 text-destructive'
+                  : 'bg-muted/50'
+            )}
+          >
+            {isFixLoopActive(fixLoop) ? (
+              <Loader2 size={12} className="animate-spin shrink-0" />
+            ) : (
+              <Wrench size={12} className="shrink-0" />
+            )}
+            <span className="flex-1">
+              {fixLoopLabels[fixLoop.state]} (attempt {fixLoop.attempt}/{fixLoop.maxAttempts})
+              {fixLoop.error && <>: {fixLoop.error}</>}
+            </span>
+            {isFixLoopActive(fixLoop) ? (
+              <button
+                onClick={() => window.api.claude.stopFixLoop(instanceId)}
+                className="hover:underline shrink-0"
+              >
+                Stop
+              </button>
+            ) : (
+              <button onClick={() => setFixLoop(null)} className="hover:underline shrink-0">
+                Dismiss
+              </button>
+            )}
+          </div>
+        )}
+
+        {error && (
+          <div className="flex items-center gap-2 px-3 py-2 rounded-md bg-destructive/10 border border-destructive/30 text-sm text-destructive">
+            <AlertCircle size={14} />
+            <span className="flex-1">{error}</span>
+            <button onClick={() => setError(null)} className="text-xs hover:underline">
+              Dismiss
+            </button>
+          </div>
+        )}
+      </div>
+
+      {runs.length === 0 ? (
+        <div className="flex flex-col items-center gap-2 py-12 text-sm text-muted-foreground">
+          <FlaskConical size={20} />
+          No test runs yet
+        </div>
+      ) : (
+        <div className="grid grid-cols-[240px_1fr] gap-4 items-start">
+          <div className="border rounded-xl overflow-hidden divide-y divide-border/50">
+            {runs.map((run) => (
+              <button
+                key={run.id}
+                onClick={() => setSelectedRunId(run.id)}
+                className={cn(
+                  'w-full text-left px-3 py-2 space-y-1 hover:bg-accent/50 transition-colors',
+                  run.id === selectedRunId && 'bg-accent'
+                )}
+              >
+                <div className="flex items-center gap-2">
+                  <span className={cn('text-[10px] px-1.5 py-0.5 rounded font-medium', runStatusStyles[run.status])}>
+                    {run.status}
+                  </span>
+                  <span className="text-[11px] text-muted-foreground ml-auto">
+                    {new Date(run.startedAt).toLocaleString()}
+                  </span>
+                </div>
+                <p className="text-xs font-mono truncate">{run.modules.join(', ')}</p>
+                <p className="text-[11px] text-muted-foreground">{summarize(run)}</p>
+              </button>
+            ))}
+          </div>
+
+          {selectedRun && (
+            <TestRunDetail
+              run={selectedRun}
+              fixLoopActive={!!fixLoop && isFixLoopActive(fixLoop)}
+              maxAttempts={maxAttempts}
+              onMaxAttemptsChange={setMaxAttempts}
+              onSendToClaude={() => handleSendToClaude(selectedRun.id)}
+              onStartFixLoop={() => handleStartFixLoop(selectedRun.id)}
+              onDelete={() => handleDelete(selectedRun.id)}
+            />
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
+
+function TestRunDetail({
+  run,
+  fixLoopActive,
+  maxAttempts,
+  onMaxAttemptsChange,
+  onSendToClaude,
+  onStartFixLoop,
+  onDelete
+}: {
+  run: TestRun
+  fixLoopActive: boolean
+  maxAttempts: number
+  onMaxAttemptsChange: (value: number) => void
+  onSendToClaude: () => void
+  onStartFixLoop: () => void
+  onDelete: () => void
+}) {
+  const hasFailures = run.results.some((r) => r.outcome === 'failed' || r.outcome === 'error')
+  const results = useMemo(
+    () => [...run.results].sort((a, b) => outcomeOrder[a.outcome] - outcomeOrder[b.outcome] || a.id.localeCompare(b.id)),
+    [run.results]
+  )
+
+  return (
+    <div className="border rounded-xl overflow-hidden">
+      <div className="flex items-center gap-2 px-4 py-2 bg-muted/30">
+        <div className="flex-1 min-w-0">
+          <p className="text-sm font-medium font-mono truncate">{run.modules.join(', ')}</p>
+          <p className="text-xs text-muted-foreground">
+            {run.mode === 'copy' ? 'Copy of the active database' : 'Fresh database'}
+            {run.testTags && <> &middot; tags <span className="font-mono">{run.testTags}</span></>}
+            {run.finishedAt && <> &middot; {formatDuration(run.startedAt, run.finishedAt)}</>}
+            {' '}&middot; {summarize(run)}
+          </p>
+        </div>
+        {run.status !== 'running' && (
+          <button
+            onClick={onDelete}
+            className="p-1.5 rounded-md text-muted-foreground hover:text-destructive hover:bg-destructive/10 transition-colors"
+            title="Delete run"
+          >
+            <Trash2 size={14} />
+          </button>
+        )}
+      </div>
+
+      {hasFailures && run.status !== 'running' && (
+        <div className="flex items-center gap-2 px-4 py-2 border-t">
+          <button
+            onClick={onSendToClaude}
+            disabled={fixLoopActive}
+            className="flex items-center gap-1.5 px-2.5 py-1 rounded-md text-xs font-medium border hover:bg-accent transition-colors disabled:opacity-50"
+          >
+            <Bot size={12} />
+            Send to Claude
+          </button>
+          <button
+            onClick={onStartFixLoop}
+            disabled={fixLoopActive}
+            className="flex items-center gap-1.5 px-2.5 py-1 rounded-md text-xs font-medium bg-primary text-primary-foreground hover:bg-primary/90 transition-colors disabled:opacity-50"
+            title="Claude fixes the failures, then only the failed tests are re-run"
+          >
+            <Wrench size={12} />
+            Fix and re-run
+          </button>
+          <select
+            value={maxAttempts}
+            onChange={(e) => onMaxAttemptsChange(parseInt(e.target.value, 10))}
+            disabled={fixLoopActive}
+            className="px-2 py-1 rounded-md border bg-background text-xs"
+            title="Maximum attempts"
+          >
+            {[1, 2, 3, 5].map((n) => (
+              <option key={n} value={n}>
+                {n} attempt{n === 1 ? '' : 's'}
+              </option>
+            ))}
+          </select>
+        </div>
+      )}
+
+      {run.error && (
+        <p className="px-4 py-2 text-xs text-destructive border-t">{run.error}</p>
+      )}
+
+      {run.errors.length > 0 && (
+        <details className="px-4 py-2 border-t">
+          <summary className="text-xs font-medium text-destructive cursor-pointer">
+            {run.errors.length} error{run.errors.length === 1 ? '' : 's'} outside of tests
+          </summary>
+          {run.errors.map((entry, i) => (
+            <TracebackView key={i} text={entry} className="mt-2 text-[11px] font-mono text-destructive/90" />
+          ))}
+        </details>
+      )}
+
+      <div className="divide-y divide-border/50 border-t max-h-[60vh] overflow-auto">
+        {results.length === 0 ? (
+          <p className="px-4 py-6 text-center text-xs text-muted-foreground">
+            {run.status === 'running' ? 'Waiting for the first test...' : 'No tests were run'}
+          </p>
+        ) : (
+          results.map((result) => <TestResultRow key={result.id} result={result} />)
+        )}
+      </div>
+    </div>
+  )
+}
+
+function TestResultRow({ result }: { result: TestResult }) {
+  const [expanded, setExpanded] = useState(false)
+  const hasTraceback = !!result.traceback
+
+  return (
+    <div>
+      <div className="flex items-center hover:bg-accent/30 transition-colors">
+        <button
+          onClick={() => setExpanded(!expanded)}
+          disabled={!hasTraceback}
+          className="flex-1 min-w-0 flex items-center gap-2 pl-4 py-1.5 text-left"
+        >
+          {hasTraceback ? (
+            expanded ? <ChevronDown size={12} className="shrink-0" /> : <ChevronRight size={12} className="shrink-0" />
+          ) : (
+            <span className="w-3 shrink-0" />
+          )}
+          <OutcomeIcon outcome={result.outcome} />
+          <span className="text-xs font-mono truncate">
+            <span className="text-muted-foreground">{result.module}:</span>
+            {result.testClass}.{result.method}
+          </span>
+        </button>
+        {result.filePath && (
+          <button
+            onClick={() => window.api.shell.openInEditor(result.filePath!, result.line).catch(() => {})}
+            className="px-4 py-1.5 text-[11px] text-muted-foreground font-mono truncate shrink-0 max-w-[40%] hover:text-foreground hover:underline"
+            title={`Open ${result.filePath} in editor`}
+          >
+            {result.filePath.split(/[\\/]/).pop()}:{result.line}
+          </button>
+        )}
+      </div>
+      {expanded && result.traceback && (
+        <TracebackView
+          text={result.traceback}
+          className="mx-4 mb-2 p-2 rounded-md bg-muted/50 text-[11px] font-mono overflow-x-auto"
+        />
+      )}
+    </div>
+  )
+}
+
+function OutcomeIcon({ outcome }: { outcome: TestOutcome }) {
+  switch (outcome) {
+    case 'passed':
+      return <CheckCircle2 size={12} className="text-green-600 shrink-0" />
+    case 'skipped':
+      return <MinusCircle size={12} className="text-muted-foreground shrink-0" />
+    default:
+      return <XCircle size={12} className="text-destructive shrink-0" />
+  }
+}
+
+function isFixLoopActive(status: FixLoopStatus): boolean {
+  return status.state === 'waiting-for-claude' || status.state === 'running-tests'
+}
+
+function summarize(run: TestRun): string {
+  const count = (outcome: TestOutcome): number => run.results.filter((r) => r.outcome === outcome).length
+  const parts = [`${count('passed')} passed`]
+  if (count('failed')) parts.push(`${count('failed')} failed`)
+  if (count('error')) parts.push(`${count('error')} errors`)
+  if (count('skipped')) parts.push(`${count('skipped')} skipped`)
+  return parts.join(', ')
+}
+
+function formatDuration(start: string, end: string): string {
+  const seconds = Math.round((new Date(end).getTime() - new Date(start).getTime()) / 1000)
+  return seconds < 60 ? `${seconds}s` : `${Math.floor(seconds / 60)}m ${seconds % 60}s`
+}
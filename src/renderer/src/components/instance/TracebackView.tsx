@@ -0,0 +1,53 @@
+import { useState } from 'react'
+import { cn } from '@/lib/utils'
+
+/** Traceback frame: File "/path/to/file.py", line 42, in test_confirm */
+const FRAME_PATTERN = /^(\s*File ")([^"]+)(", line )(\d+)(.*)$/
+
+/**
+ * Python traceback whose frames open in the configured editor
+ * (AppSettings.editorCommand) at the frame's line.
+ */
+export function TracebackView({ text, className }: { text: string; className?: string }) {
+  const [error, setError] = useState<string | null>(null)
+
+  const openFrame = async (filePath: string, line: number): Promise<void> => {
+    setError(null)
+    try {
+      await window.api.shell.openInEditor(filePath, line)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to open the editor')
+    }
+  }
+
+  return (
+    <pre className={cn('whitespace-pre-wrap', className)}>
+      {text.split('\n').map((line, i) => {
+        const frame = line.match(FRAME_PATTERN)
+        if (!frame) return <span key={i}>{line}{'\n'}</span>
+
+        const [, prefix, filePath, lineLabel, lineNumber, rest] = frame
+        return (
+          <span key={i}>
+            {prefix}
+            <button
+              onClick={(e) => {
+                e.stopPropagation()
+                openFrame(filePath, parseInt(lineNumber, 10))
+              }}
+              className="underline decoration-dotted underline-offset-2 hover:decoration-solid hover:text-sky-400"
+              title="Open in editor"
+            >
+              {filePath}
+            </button>
+            {lineLabel}
+            {lineNumber}
+            {rest}
+            {'\n'}
+          </span>
+        )
+      })}
+      {error && <span className="text-red-400 not-italic">{error}{'\n'}</span>}
+    </pre>
+  )
+}
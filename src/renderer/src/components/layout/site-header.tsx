@@ -1,6 +1,6 @@
 import { useLocation, useNavigate } from 'react-router-dom'
 import { useState, useEffect } from 'react'
-import { Plus } from 'lucide-react'
+import { Plus, Import } from 'lucide-react'
 import { SidebarTrigger } from '@/components/ui/sidebar'
 import { Separator } from '@/components/ui/separator'
 import { Button } from '@/components/ui/button'
@@ -13,7 +13,7 @@ function usePageTitle(): string {
   const [instanceName, setInstanceName] = useState<string>('')
 
   useEffect(() => {
-    const match = location.pathname.match(/^\/instance\/(.+)$/)
+    const match = location.pathname.match(/^\/instance\/([^/]+)$/)
     if (match) {
       window.api.odoo.get(match[1]).then((inst) => {
         if (inst) setInstanceName(inst.name)
@@ -24,6 +24,8 @@ function usePageTitle(): string {
   if (location.pathname === '/') return 'Dashboard'
   if (location.pathname === '/settings') return 'Settings'
   if (location.pathname === '/new-instance') return 'New Instance'
+  if (location.pathname === '/import-instance') return 'Import Instance'
+  if (location.pathname.endsWith('/duplicate')) return 'Duplicate Instance'
   if (location.pathname.startsWith('/instance/') && instanceName) {
     return instanceName
   }
@@ -51,10 +53,16 @@ export function SiteHeader() {
 
       <div className="ml-auto flex items-center gap-2 no-drag">
         {isDashboard && (
-          <Button size="sm" onClick={() => navigate('/new-instance')}>
-            <Plus className="size-4" />
-            New Instance
-          </Button>
+          <>
+            <Button size="sm" variant="outline" onClick={() => navigate('/import-instance')}>
+              <Import className="size-4" />
+              Import
+            </Button>
+            <Button size="sm" onClick={() => navigate('/new-instance')}>
+              <Plus className="size-4" />
+              New Instance
+            </Button>
+          </>
         )}
       </div>
     </header>
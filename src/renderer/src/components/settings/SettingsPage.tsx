@@ -41,6 +41,14 @@ import type { UpdateInfo, UpdateProgress } from '@shared/types/update'
 
 type AuthTab = 'account' | 'api-key'
 
+const EDITOR_PRESETS = [
+  { label: 'VS Code', command: 'code --goto {file}:{line}' },
+  { label: 'Cursor', command: 'cursor --goto {file}:{line}' },
+  { label: 'PyCharm', command: 'pycharm --line {line} {file}' },
+  { label: 'Sublime Text', command: 'subl {file}:{line}' },
+  { label: 'Zed', command: 'zed {file}:{line}' }
+]
+
 export function SettingsPage() {
   const [settings, setSettings] = useState<AppSettings | null>(null)
   const [loading, setLoading] = useState(true)
@@ -688,6 +696,37 @@ export function SettingsPage() {
               <ToggleGroupItem value="enterprise">Enterprise</ToggleGroupItem>
             </ToggleGroup>
           </div>
+
+          <Separator />
+
+          <div className="space-y-1.5">
+            <label className="block text-sm font-medium">Editor Command</label>
+            <p className="text-xs text-muted-foreground">
+              Opens traceback frames at the right line. {'{file}'} and {'{line}'} are replaced.
+              Leave empty to show the file in its folder instead.
+            </p>
+            <Input
+              value={settings.editorCommand ?? ''}
+              onChange={(e) =>
+                updateSetting({
+                  editorCommand: e.target.value || undefined
+                })
+              }
+              placeholder="code --goto {file}:{line}"
+              className="font-mono"
+            />
+            <div className="flex flex-wrap gap-1.5">
+              {EDITOR_PRESETS.map((preset) => (
+                <button
+                  key={preset.label}
+                  onClick={() => updateSetting({ editorCommand: preset.command })}
+                  className="px-2 py-0.5 rounded-md border text-xs text-muted-foreground hover:text-foreground hover:bg-accent transition-colors"
+                >
+                  {preset.label}
+                </button>
+              ))}
+            </div>
+          </div>
         </CardContent>
       </Card>
 
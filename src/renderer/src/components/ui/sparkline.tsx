@@ -0,0 +1,48 @@
+import { cn } from '@/lib/utils'
+
+interface SparklineProps {
+  values: number[]
+  /** Top of the scale, defaults to the highest value */
+  max?: number
+  width?: number
+  height?: number
+  className?: string
+}
+
+/** Minimal line chart of a short time series, drawn in the current text color */
+export function Sparkline({ values, max, width = 120, height = 28, className }: SparklineProps) {
+  if (values.length < 2) {
+    return <svg width={width} height={height} className={cn('shrink-0', className)} />
+  }
+
+  const top = Math.max(max ?? 0, ...values) || 1
+  const step = width / (values.length - 1)
+  // Keep a pixel of margin so the stroke is not clipped at the extremes
+  const points = values.map((value, i) => {
+    const x = i * step
+    const y = height - 1 - (Math.min(value, top) / top) * (height - 2)
+    return `${x.toFixed(1)},${y.toFixed(1)}`
+  })
+
+  return (
+    <svg
+      width={width}
+      height={height}
+      viewBox={`0 0 ${width} ${height}`}
+      className={cn('shrink-0 overflow-visible', className)}
+    >
+      <polygon
+        points={`0,${height} ${points.join(' ')} ${width},${height}`}
+        className="fill-current opacity-10"
+      />
+      <polyline
+        points={points.join(' ')}
+        fill="none"
+        stroke="currentColor"
+        strokeWidth={1.5}
+        strokeLinejoin="round"
+        strokeLinecap="round"
+      />
+    </svg>
+  )
+}
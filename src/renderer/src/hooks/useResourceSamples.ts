@@ -0,0 +1,37 @@
+import { useState, useEffect } from 'react'
+import type { ResourceSample } from '@shared/types/resource'
+
+/** Same window as the main process history */
+const MAX_SAMPLES = 60
+
+/** Resource history of the given running instances, kept up to date with the live samples */
+export function useResourceSamples(instanceIds: string[]): Record<string, ResourceSample[]> {
+  const [samples, setSamples] = useState<Record<string, ResourceSample[]>>({})
+  const key = [...instanceIds].sort().join(',')
+
+  useEffect(() => {
+    const ids = key ? key.split(',') : []
+    let cancelled = false
+
+    Promise.all(ids.map((id) => window.api.odoo.resourceHistory(id).catch(() => [])))
+      .then((histories) => {
+        if (cancelled) return
+        setSamples(Object.fromEntries(ids.map((id, i) => [id, histories[i]])))
+      })
+
+    const unsub = window.api.on.odooResourceSample((data) => {
+      if (!ids.includes(data.instanceId)) return
+      setSamples((prev) => ({
+        ...prev,
+        [data.instanceId]: [...(prev[data.instanceId] || []), data.sample].slice(-MAX_SAMPLES)
+      }))
+    })
+
+    return () => {
+      cancelled = true
+      unsub()
+    }
+  }, [key])
+
+  return samples
+}
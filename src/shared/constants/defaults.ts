@@ -1,4 +1,5 @@
 import type { AppSettings } from '../types/settings'
+import type { RestartPolicy } from '../types/odoo'
 
 export const DEFAULT_HTTP_PORT = 8069
 export const DEFAULT_LONGPOLLING_PORT = 8072
@@ -6,6 +7,12 @@ export const DEFAULT_DB_HOST = 'localhost'
 export const DEFAULT_DB_PORT = 5432
 export const DEFAULT_DB_USER = 'odoo'
 
+export const DEFAULT_RESTART_POLICY: RestartPolicy = {
+  mode: 'never',
+  maxRetries: 3,
+  backoffSeconds: 5
+}
+
 export const DEFAULT_SETTINGS: AppSettings = {
   theme: 'system',
   workspacePath: '',
@@ -8,6 +8,8 @@ export interface OdooVersionInfo {
   enterpriseRepoUrl: string
   branch: string
   requiresLessCompiler: boolean
+  /** `odoo-bin neutralize` exists (16.0+); older versions use an SQL script */
+  neutralizeCommand: boolean
 }
 
 export const ODOO_VERSION_CONFIG: Record<OdooVersion, OdooVersionInfo> = {
@@ -18,7 +20,8 @@ export const ODOO_VERSION_CONFIG: Record<OdooVersion, OdooVersionInfo> = {
     repoUrl: 'https://github.com/odoo/odoo.git',
     enterpriseRepoUrl: 'https://github.com/odoo/enterprise.git',
     branch: '14.0',
-    requiresLessCompiler: true
+    requiresLessCompiler: true,
+    neutralizeCommand: false
   },
   '15.0': {
     pythonMinVersion: '3.8',
@@ -27,7 +30,8 @@ export const ODOO_VERSION_CONFIG: Record<OdooVersion, OdooVersionInfo> = {
     repoUrl: 'https://github.com/odoo/odoo.git',
     enterpriseRepoUrl: 'https://github.com/odoo/enterprise.git',
     branch: '15.0',
-    requiresLessCompiler: false
+    requiresLessCompiler: false,
+    neutralizeCommand: false
   },
   '16.0': {
     pythonMinVersion: '3.10',
@@ -36,7 +40,8 @@ export const ODOO_VERSION_CONFIG: Record<OdooVersion, OdooVersionInfo> = {
     repoUrl: 'https://github.com/odoo/odoo.git',
     enterpriseRepoUrl: 'https://github.com/odoo/enterprise.git',
     branch: '16.0',
-    requiresLessCompiler: false
+    requiresLessCompiler: false,
+    neutralizeCommand: true
   },
   '17.0': {
     pythonMinVersion: '3.10',
@@ -45,7 +50,8 @@ export const ODOO_VERSION_CONFIG: Record<OdooVersion, OdooVersionInfo> = {
     repoUrl: 'https://github.com/odoo/odoo.git',
     enterpriseRepoUrl: 'https://github.com/odoo/enterprise.git',
     branch: '17.0',
-    requiresLessCompiler: false
+    requiresLessCompiler: false,
+    neutralizeCommand: true
   },
   '18.0': {
     pythonMinVersion: '3.10',
@@ -54,7 +60,8 @@ export const ODOO_VERSION_CONFIG: Record<OdooVersion, OdooVersionInfo> = {
     repoUrl: 'https://github.com/odoo/odoo.git',
     enterpriseRepoUrl: 'https://github.com/odoo/enterprise.git',
     branch: '18.0',
-    requiresLessCompiler: false
+    requiresLessCompiler: false,
+    neutralizeCommand: true
   }
 }
 
@@ -8,3 +8,72 @@ export interface AddonRepo {
   error?: string
   addedAt: string
 }
+
+/** Module operation run with odoo-bin against the active database */
+export type ModuleOperation = 'install' | 'upgrade' | 'uninstall'
+
+/** Where a module was found on the addons path */
+export type ModuleSource = 'core' | 'enterprise' | 'repo'
+
+/** ir_module_module.state */
+export type ModuleState =
+  | 'uninstalled'
+  | 'installed'
+  | 'to upgrade'
+  | 'to remove'
+  | 'to install'
+  | 'uninstallable'
+
+/** An Odoo module found on disk, described by its __manifest__.py */
+export interface AddonModule {
+  name: string
+  displayName: string
+  version: string
+  summary?: string
+  depends: string[]
+  license: string
+  installable: boolean
+  application: boolean
+  path: string
+  source: ModuleSource
+  repoId?: string
+  /** State in the active database, missing when the database does not know the module */
+  state?: ModuleState
+  installedVersion?: string
+  /** Set when the manifest could not be parsed */
+  error?: string
+}
+
+/** A repository that may provide a missing module */
+export interface RepoSuggestion {
+  url: string
+  branch: string
+  reason: string
+  /** The module was found in a clone of this repo; otherwise a guess from the module name */
+  confirmed: boolean
+}
+
+export interface MissingDependency {
+  name: string
+  requiredBy: string[]
+  suggestions: RepoSuggestion[]
+}
+
+export interface ModuleGraphNode {
+  name: string
+  /** Missing modules have no source */
+  source?: ModuleSource
+  repoId?: string
+  state?: ModuleState
+}
+
+/** Dependency graph of the addon repo modules, with everything they depend on */
+export interface ModuleGraph {
+  nodes: ModuleGraphNode[]
+  /** `from` depends on `to` */
+  edges: Array<{ from: string; to: string }>
+  missing: MissingDependency[]
+  cycles: string[][]
+  /** Modules found more than once on the addons path: only the first one is loaded */
+  shadowed: Array<{ name: string; paths: string[] }>
+}
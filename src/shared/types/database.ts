@@ -0,0 +1,20 @@
+export interface DatabaseSnapshot {
+  id: string
+  name: string
+  dbName: string
+  path: string
+  size: number
+  hasFilestore: boolean
+  createdAt: string
+}
+
+/** manifest.json of a backup made by Odoo's database manager */
+export interface OdooBackupManifest {
+  odoo_dump: string
+  db_name: string
+  version: string
+  version_info: Array<number | string>
+  major_version: string
+  pg_version: string
+  modules: Record<string, string>
+}
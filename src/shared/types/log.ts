@@ -0,0 +1,36 @@
+export type LogLevel = 'DEBUG' | 'INFO' | 'WARNING' | 'ERROR' | 'CRITICAL'
+
+/** An Odoo log record, with its continuation lines (tracebacks, multi-line messages) */
+export interface LogRecord {
+  /** ISO timestamp, from the Odoo record or the time the line was received */
+  timestamp: string
+  pid?: number
+  level: string
+  db?: string
+  logger?: string
+  message: string
+  /** Continuation lines following the first one, usually a Python traceback */
+  traceback?: string
+  /** Raw text of the record, all lines included */
+  raw: string
+}
+
+export interface LogQuery {
+  levels?: LogLevel[]
+  /** Logger prefix (odoo.addons.sale) or module name (sale) */
+  logger?: string
+  /** ISO timestamps, inclusive */
+  from?: string
+  to?: string
+  text?: string
+  /** Treat text as a regular expression */
+  regex?: boolean
+  /** Most recent matches to return, defaults to the maxLogLines setting */
+  limit?: number
+}
+
+export interface LogQueryResult {
+  entries: LogRecord[]
+  /** More entries matched than the limit, only the most recent ones are returned */
+  truncated: boolean
+}
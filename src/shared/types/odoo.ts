@@ -1,9 +1,82 @@
 import type { AddonRepo } from './addon'
+import type { DatabaseSnapshot } from './database'
+import type { LogRecord } from './log'
 
 export type OdooVersion = '14.0' | '15.0' | '16.0' | '17.0' | '18.0'
 export type OdooEdition = 'community' | 'enterprise'
 export type InstanceStatus = 'stopped' | 'starting' | 'running' | 'stopping' | 'error'
 
+/** Values of odoo-bin --log-level */
+export type OdooLogLevel =
+  | 'info'
+  | 'debug'
+  | 'debug_sql'
+  | 'debug_rpc'
+  | 'debug_rpc_answer'
+  | 'warn'
+  | 'error'
+  | 'critical'
+  | 'notset'
+
+/** Command line options and environment layered on top of odoo.conf when starting the server */
+export interface LaunchProfile {
+  id: string
+  name: string
+  /** --dev values, e.g. reload, qweb, xml */
+  devModes: string[]
+  logLevel?: OdooLogLevel
+  /** --log-handler values, e.g. odoo.addons.sale:DEBUG */
+  logHandlers: string[]
+  /** --workers, the config file value when unset */
+  workers?: number
+  /** Appended to the command line, double quotes group words */
+  extraArgs: string
+  env: Record<string, string>
+}
+
+/** Restart on changes in the addons directories */
+export interface AddonWatchSettings {
+  enabled: boolean
+  /** Upgrade (-u) the modules whose XML/CSV data changed instead of a plain restart */
+  updateModules: boolean
+}
+
+/** Result of the HTTP probe of a running server */
+export interface InstanceHealth {
+  healthy: boolean
+  checkedAt: string
+  /** Response time of the last successful probe */
+  responseMs?: number
+  error?: string
+}
+
+export type RestartPolicyMode = 'never' | 'on-failure'
+
+/** What to do when the server exits on its own with an error */
+export interface RestartPolicy {
+  mode: RestartPolicyMode
+  /** Restarts in a row before giving up, the count resets once the server ran for a while */
+  maxRetries: number
+  /** Delay before the first restart, doubled for each following one */
+  backoffSeconds: number
+}
+
+export interface CrashReport {
+  id: string
+  crashedAt: string
+  exitCode: number | null
+  /** Set when the process was killed by a signal (SIGKILL from the OOM killer, SIGSEGV, ...) */
+  signal?: string
+  uptimeSeconds: number
+  /** Last log records before the crash */
+  logTail: LogRecord[]
+  /** Attempt number of the automatic restart it triggered, if any */
+  restartAttempt?: number
+}
+
+/** How the database of a new instance is populated */
+export type DatabaseSource = 'init' | 'restore' | 'clone'
+
 export interface OdooInstance {
   id: string
   name: string
@@ -18,15 +91,22 @@ export interface OdooInstance {
   customAddonsPath?: string
   venvPath: string
   configPath: string
+  /** data_dir of the config, when it is not <basePath>/data (imported instances) */
+  dataDir?: string
+  /** addons_path directories that are not git repos, kept as they are (imported instances) */
+  extraAddonsPaths?: string[]
 
   // Server config
   httpPort: number
   longpollingPort: number
+  /** Active database, used by the server and the shell */
   dbName: string
   dbUser: string
   dbPassword: string
   dbHost: string
   dbPort: number
+  /** All databases of the instance, including dbName */
+  databases?: string[]
 
   // Python
   pythonVersion: string
@@ -35,12 +115,43 @@ export interface OdooInstance {
   // Timestamps
   createdAt: string
   lastStartedAt?: string
+  /** Set when registered from an existing checkout: deleting the instance leaves its files and databases alone */
+  importedAt?: string
+  /** Set while the sources are held at a past revision instead of following the branch */
+  pinnedRevision?: PinnedRevision
+  /** debugpy port while the server runs under the debugger */
+  debugPort?: number
+  /** Set while a running server does not answer its health probe */
+  unhealthy?: boolean
+  /** When each database was neutralized after loading production data, by database name */
+  neutralizedDatabases?: Record<string, string>
 
   // Claude
   lastClaudeSessionId?: string
 
   // Custom addons
   addonRepos?: AddonRepo[]
+
+  // Database snapshots (most recent first)
+  snapshots?: DatabaseSnapshot[]
+
+  // Launch profiles, the active one is used by start and restart
+  launchProfiles?: LaunchProfile[]
+  activeLaunchProfileId?: string
+
+  // File watcher over the addons directories
+  addonWatch?: AddonWatchSettings
+
+  // Crash handling (reports most recent first)
+  restartPolicy?: RestartPolicy
+  crashReports?: CrashReport[]
+}
+
+/** Where a debug launch can be attached to */
+export interface DebugSession {
+  port: number
+  /** VS Code launch.json holding the attach configuration, null if it could not be written */
+  launchConfigPath: string | null
 }
 
 export interface CreateInstanceArgs {
@@ -54,4 +165,99 @@ export interface CreateInstanceArgs {
   dbPassword: string
   dbHost: string
   dbPort: number
+
+  // Database source (defaults to 'init': fresh database with base installed)
+  dbSource?: DatabaseSource
+  /** Backup zip or dump to restore when dbSource is 'restore' */
+  dbSourcePath?: string
+  /** Existing local database to copy when dbSource is 'clone' */
+  dbTemplate?: string
+  /** Neutralize the restored/cloned database (mail servers, crons, ...) */
+  neutralize?: boolean
+  /** Core revision to check out instead of the branch tip: commit SHA, tag or date (YYYY-MM-DD) */
+  revision?: string
+}
+
+/** Past core revision an instance is held at */
+export interface PinnedRevision {
+  /** As requested: commit SHA, tag or date */
+  revision: string
+  odooCommit: string
+  /** Last enterprise commit before the Odoo one: SHAs and tags are not shared between the repos */
+  enterpriseCommit?: string
+  pinnedAt: string
+}
+
+export type SourceTree = 'odoo' | 'enterprise'
+
+/** Commit checked out in a source tree */
+export interface SourceCommit {
+  hash: string
+  /** ISO date of the commit */
+  date: string
+  subject: string
+}
+
+export interface SourceState {
+  source: SourceTree
+  path: string
+  /** Null when HEAD is detached, as in checkouts from the source cache */
+  branch: string | null
+  commit: SourceCommit | null
+}
+
+/** Commit range a source tree was fast-forwarded over */
+export interface SourceUpdate {
+  source: SourceTree
+  branch: string
+  from: string
+  to: string
+  commits: number
+}
+
+/** What was found in an existing Odoo checkout, shown before importing it */
+export interface DetectedInstance {
+  basePath: string
+  odooPath: string
+  version: OdooVersion
+  edition: OdooEdition
+  enterprisePath?: string
+  /** Missing when no virtual environment was found next to the sources */
+  venvPath?: string
+  /** Missing when there is no config file: one is generated in basePath */
+  configPath?: string
+  dataDir: string
+  httpPort: number
+  longpollingPort: number
+  dbName?: string
+  dbUser: string
+  dbPassword: string
+  dbHost: string
+  dbPort: number
+  /** addons_path entries besides the core and enterprise ones */
+  addonsPaths: DetectedAddonsPath[]
+}
+
+export interface DetectedAddonsPath {
+  path: string
+  /** Set when the directory is in a git repo, which becomes an AddonRepo */
+  git?: { url: string; branch: string }
+}
+
+export interface ImportInstanceArgs {
+  /** Source folder or config file */
+  path: string
+  name: string
+  /** Overrides of what could not be detected */
+  venvPath?: string
+  dbName?: string
+}
+
+export interface DuplicateInstanceArgs {
+  /** Instance to copy */
+  sourceId: string
+  name: string
+  dbName: string
+  /** Copy the active database (createdb -T) and its filestore instead of initializing a new one */
+  copyDatabase: boolean
 }
@@ -0,0 +1,12 @@
+/** Resource usage of an instance's server and its workers at one point in time */
+export interface ResourceSample {
+  /** Epoch milliseconds */
+  time: number
+  /** Since the previous sample, 100 = one full core */
+  cpuPercent: number
+  rssBytes: number
+  /** Established TCP connections: HTTP clients, PostgreSQL, ... */
+  connections: number
+  /** Server plus worker processes */
+  processes: number
+}
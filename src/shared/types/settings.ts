@@ -15,6 +15,8 @@ export interface AppSettings {
   autoStartPostgres: boolean
   pythonPaths: Record<string, string>
   githubUsername?: string
+  /** Command opening a file at a line, {file} and {line} are replaced, e.g. code --goto {file}:{line} */
+  editorCommand?: string
   logsRetentionDays: number
   maxLogLines: number
   firstLaunchComplete: boolean
@@ -0,0 +1,60 @@
+export type TestOutcome = 'passed' | 'failed' | 'error' | 'skipped'
+
+export type TestRunStatus = 'running' | 'passed' | 'failed' | 'error' | 'cancelled'
+
+/** fresh: new database with -i <modules>, copy: copy of the active database with -u <modules> */
+export type TestDatabaseMode = 'fresh' | 'copy'
+
+export interface TestResult {
+  /** module:Class.method, also usable as a --test-tags selector */
+  id: string
+  module: string
+  testClass: string
+  method: string
+  /** Python module of the test, e.g. odoo.addons.sale.tests.test_sale_order */
+  pythonModule: string
+  outcome: TestOutcome
+  traceback?: string
+  /** Innermost frame of the traceback inside the test file */
+  filePath?: string
+  line?: number
+}
+
+export interface TestRunArgs {
+  modules: string[]
+  /** Passed as --test-tags to narrow down the tests of the modules */
+  testTags?: string
+  mode: TestDatabaseMode
+}
+
+export interface TestRun {
+  id: string
+  instanceId: string
+  modules: string[]
+  testTags?: string
+  mode: TestDatabaseMode
+  dbName: string
+  status: TestRunStatus
+  startedAt: string
+  finishedAt?: string
+  /** Test being executed while the run is in progress */
+  currentTest?: string
+  results: TestResult[]
+  /** ERROR/CRITICAL log records that don't belong to a test (install errors, ...) */
+  errors: string[]
+  /** Exit code of odoo-bin, or why it could not run */
+  error?: string
+}
+
+export type FixLoopState = 'waiting-for-claude' | 'running-tests' | 'passed' | 'failed' | 'stopped' | 'error'
+
+/** Claude fixes the failing tests, then only those are re-run, until they pass or attempts run out */
+export interface FixLoopStatus {
+  instanceId: string
+  /** Latest run of the loop */
+  runId: string
+  attempt: number
+  maxAttempts: number
+  state: FixLoopState
+  error?: string
+}